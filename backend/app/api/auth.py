@@ -0,0 +1,100 @@
+from fastapi import APIRouter, HTTPException, Depends
+from fastapi.security import HTTPAuthorizationCredentials, HTTPBearer
+from sqlalchemy.ext.asyncio import AsyncSession
+from datetime import datetime
+from typing import Optional
+
+from app.core.config import settings
+from app.core.database import get_db
+from app.models import User
+from app.schemas.auth import Credentials, LoginCredentials
+from app.services import auth
+
+router = APIRouter()
+
+bearer = HTTPBearer(auto_error=False)
+
+
+async def current_user(
+    credentials: Optional[HTTPAuthorizationCredentials] = Depends(bearer),
+    db: AsyncSession = Depends(get_db)
+) -> User:
+    user = await auth.user_for_token(db, credentials.credentials) if credentials else None
+    if user is None:
+        raise HTTPException(
+            status_code=401,
+            detail="Not authenticated",
+            headers={"WWW-Authenticate": "Bearer"}
+        )
+    return user
+
+
+async def current_admin(user: User = Depends(current_user)) -> User:
+    if not auth.is_admin(user):
+        raise HTTPException(status_code=403, detail="Admin access required")
+    return user
+
+
+def user_payload(user: User) -> dict:
+    return {"id": str(user.id), "email": user.email, "is_admin": auth.is_admin(user)}
+
+
+def session_payload(user: User, token: str, expires_at: datetime) -> dict:
+    return {"token": token, "expires_at": expires_at.isoformat(), "user": user_payload(user)}
+
+
+# -------------------------------
+# Sign-in options
+# -------------------------------
+@router.get("/options")
+async def options():
+    """What the login screen should offer."""
+    return {"registration": settings.AUTH_ALLOW_REGISTRATION, "dev_login": settings.DEV_LOGIN}
+
+
+# -------------------------------
+# Register / Log In / Log Out
+# -------------------------------
+@router.post("/register", status_code=201)
+async def register(credentials: Credentials, db: AsyncSession = Depends(get_db)):
+    if not settings.AUTH_ALLOW_REGISTRATION:
+        raise HTTPException(status_code=403, detail="Registration is disabled")
+    try:
+        user = await auth.register(db, credentials.email, credentials.password)
+    except auth.EmailTaken:
+        raise HTTPException(status_code=409, detail="Email already registered")
+    token, expires_at = await auth.issue_token(db, user)
+    return session_payload(user, token, expires_at)
+
+
+@router.post("/login")
+async def login(credentials: LoginCredentials, db: AsyncSession = Depends(get_db)):
+    user = await auth.authenticate(db, credentials.email, credentials.password)
+    if user is None:
+        raise HTTPException(status_code=401, detail="Invalid email or password")
+    token, expires_at = await auth.issue_token(db, user)
+    return session_payload(user, token, expires_at)
+
+
+@router.post("/dev-login")
+async def dev_login(db: AsyncSession = Depends(get_db)):
+    """Passwordless login for local development, enabled with DEV_LOGIN=true."""
+    if not settings.DEV_LOGIN:
+        raise HTTPException(status_code=404, detail="Not Found")
+    user = await auth.dev_user(db)
+    token, expires_at = await auth.issue_token(db, user)
+    return session_payload(user, token, expires_at)
+
+
+@router.post("/logout", status_code=204)
+async def logout(
+    credentials: Optional[HTTPAuthorizationCredentials] = Depends(bearer),
+    db: AsyncSession = Depends(get_db)
+):
+    if credentials:
+        await auth.revoke_token(db, credentials.credentials)
+
+
+@router.get("/me")
+async def me(user: User = Depends(current_user)):
+    return user_payload(user)
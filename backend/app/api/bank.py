@@ -0,0 +1,153 @@
+from fastapi import APIRouter, UploadFile, HTTPException, Depends, File, Response
+from sqlalchemy.ext.asyncio import AsyncSession
+from typing import Optional
+
+from app.api.auth import current_admin
+from app.core.database import get_db
+from app.models import BankQuestion, QuestionSet
+from app.schemas.bank import BankFormat, BankQuestionIn, QuestionSetIn
+from app.schemas.interview import Difficulty, QuestionType
+from app.services import question_bank
+
+router = APIRouter()
+
+
+def question_payload(question: BankQuestion) -> dict:
+    return {
+        "id": str(question.id),
+        **question_bank.question_record(question),
+        "created_at": question.created_at.isoformat()
+    }
+
+
+def set_payload(question_set: QuestionSet) -> dict:
+    return {
+        "id": str(question_set.id),
+        "name": question_set.name,
+        "description": question_set.description,
+        "question_count": len(question_set.items)
+    }
+
+
+async def get_question_or_404(question_id: str, db: AsyncSession = Depends(get_db)) -> BankQuestion:
+    question = await question_bank.get_question(db, question_id)
+    if question is None:
+        raise HTTPException(status_code=404, detail="Question not found")
+    return question
+
+
+async def get_set_or_404(set_id: str, db: AsyncSession = Depends(get_db)) -> QuestionSet:
+    question_set = await question_bank.get_set(db, set_id)
+    if question_set is None:
+        raise HTTPException(status_code=404, detail="Question set not found")
+    return question_set
+
+# -------------------------------
+# Sets
+# -------------------------------
+@router.get("/sets")
+async def list_sets(db: AsyncSession = Depends(get_db)):
+    """Open to every user, for choosing a set when starting an interview."""
+    return [set_payload(s) for s in await question_bank.list_sets(db)]
+
+
+@router.post("/sets", status_code=201, dependencies=[Depends(current_admin)])
+async def create_set(data: QuestionSetIn, db: AsyncSession = Depends(get_db)):
+    try:
+        question_set = await question_bank.create_set(db, data)
+    except question_bank.SetNameTaken:
+        raise HTTPException(status_code=409, detail=f"A set named '{data.name}' already exists")
+    return set_payload(question_set)
+
+
+@router.put("/sets/{set_id}", dependencies=[Depends(current_admin)])
+async def update_set(
+    data: QuestionSetIn,
+    question_set: QuestionSet = Depends(get_set_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    try:
+        question_set = await question_bank.update_set(db, question_set, data)
+    except question_bank.SetNameTaken:
+        raise HTTPException(status_code=409, detail=f"A set named '{data.name}' already exists")
+    return set_payload(question_set)
+
+
+@router.delete("/sets/{set_id}", status_code=204, dependencies=[Depends(current_admin)])
+async def delete_set(question_set: QuestionSet = Depends(get_set_or_404), db: AsyncSession = Depends(get_db)):
+    await question_bank.delete_set(db, question_set)
+
+# -------------------------------
+# Questions
+# -------------------------------
+# Reference answers are for grading only, so candidates never see the bank itself
+@router.get("/questions", dependencies=[Depends(current_admin)])
+async def list_questions(
+    role: Optional[str] = None,
+    topic: Optional[str] = None,
+    difficulty: Optional[Difficulty] = None,
+    question_type: Optional[QuestionType] = None,
+    tag: Optional[str] = None,
+    search: Optional[str] = None,
+    db: AsyncSession = Depends(get_db)
+):
+    questions = await question_bank.list_questions(
+        db,
+        role,
+        topic,
+        difficulty.value if difficulty else None,
+        question_type.value if question_type else None,
+        tag,
+        search
+    )
+    return [question_payload(q) for q in questions]
+
+
+@router.post("/questions", status_code=201, dependencies=[Depends(current_admin)])
+async def create_question(data: BankQuestionIn, db: AsyncSession = Depends(get_db)):
+    return question_payload(await question_bank.create_question(db, data))
+
+# -------------------------------
+# Import / Export
+# -------------------------------
+@router.get("/questions/export", dependencies=[Depends(current_admin)])
+async def export_questions(format: BankFormat = BankFormat.json, db: AsyncSession = Depends(get_db)):
+    content = question_bank.export_questions(await question_bank.list_questions(db), format)
+    media_type = "application/json" if format == BankFormat.json else "text/csv; charset=utf-8"
+    return Response(
+        content=content,
+        media_type=media_type,
+        headers={"Content-Disposition": f'attachment; filename="question-bank.{format.value}"'}
+    )
+
+
+@router.post("/questions/import", dependencies=[Depends(current_admin)])
+async def import_questions(file: UploadFile = File(...), db: AsyncSession = Depends(get_db)):
+    """A JSON list or CSV file in the export's format; nothing is added if any row is invalid."""
+    try:
+        questions = question_bank.parse_import(file.filename or "", await file.read())
+    except question_bank.InvalidImport as e:
+        raise HTTPException(status_code=400, detail=str(e))
+    return {"imported": await question_bank.import_questions(db, questions)}
+
+# -------------------------------
+# Question
+# -------------------------------
+@router.get("/questions/{question_id}", dependencies=[Depends(current_admin)])
+async def question_detail(question: BankQuestion = Depends(get_question_or_404)):
+    return question_payload(question)
+
+
+@router.put("/questions/{question_id}", dependencies=[Depends(current_admin)])
+async def update_question(
+    data: BankQuestionIn,
+    question: BankQuestion = Depends(get_question_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    return question_payload(await question_bank.update_question(db, question, data))
+
+
+@router.delete("/questions/{question_id}", status_code=204, dependencies=[Depends(current_admin)])
+async def delete_question(question: BankQuestion = Depends(get_question_or_404), db: AsyncSession = Depends(get_db)):
+    """Interviews that asked it keep their copy of the text and reference answer."""
+    await question_bank.delete_question(db, question)
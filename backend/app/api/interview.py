@@ -1,32 +1,117 @@
-from fastapi import APIRouter, UploadFile, HTTPException
-from uuid import uuid4
-
-from app.services.stt import speech_to_text
-from app.services.evaluation import evaluate_answer
-from app.services.tts import text_to_speech
+from fastapi import APIRouter, UploadFile, HTTPException, Query, Depends, File, Form, Request, Response
+from fastapi.responses import FileResponse
+from sqlalchemy.ext.asyncio import AsyncSession
+
+from app.api.auth import current_user
+from app.core.database import get_db
+from app.models import Interview, User
+from app.schemas.answer import TextAnswer
+from app.schemas.interview import Difficulty, InterviewType, QuestionSource, ReportFormat
+from app.services import auth, interview_store, question_bank
+
+from app.services.stt import STTError, Transcription, transcribe_with_timing, supports_model
+from app.services.delivery import analyze_delivery
+from app.services.evaluation import evaluate_answer, average_scores
+from app.services.follow_up import worth_probing, generate_follow_up
+from app.services.rubric import rubric_for
+from app.services.timing import answer_timing, overtime_questions, time_limit, timing_note
+from app.services import interview_modes
+from app.services.languages import is_supported, language_instruction
+from app.services.tts import TTSError, audio_exists, get_tts_provider, supports_voice, text_to_speech
 from app.services.llm import call_llm
+from app.services.report import ReportError, render_markdown, render_pdf, report_filename
+from app.utils.audio import audio_path, save_answer_audio
+from app.utils.documents import MAX_DOCUMENT_CHARS, extract_text, UnsupportedDocument
 
+from datetime import datetime, timezone
+from typing import Optional
+from urllib.parse import quote, urlencode
 import json
+import os
 
 router = APIRouter()
+# Routes that authorize requests themselves rather than with a bearer token
+shared_router = APIRouter()
+
+
+async def get_interview_or_404(
+    interview_id: str,
+    user: User = Depends(current_user),
+    db: AsyncSession = Depends(get_db)
+) -> Interview:
+    # Someone else's interview looks exactly like a missing one
+    interview = await interview_store.get_interview(db, interview_id, user.id)
+    if interview is None:
+        raise HTTPException(status_code=404, detail="Invalid interview session")
+    return interview
+
+
+def question_payload(interview: Interview, question) -> dict:
+    # Follow-ups share the index of the main question they probe
+    return {
+        "question": question.text,
+        "audio_file": question.audio_file,
+        "question_index": interview_store.main_index(interview, question),
+        "total_questions": len(interview_store.main_questions(interview)),
+        "follow_up": question.parent_id is not None,
+        "question_type": question.question_type,
+        "prep_seconds": interview.prep_seconds or 0,
+        "time_limit_seconds": time_limit(interview, question.question_type)
+    }
 
-# In-memory session store (hackathon-safe)
-SESSIONS = {}
+
+def answer_payload(question) -> dict:
+    return {
+        "question": question.text,
+        "question_type": question.question_type,
+        "transcript": question.answer.transcript if question.answer else None,
+        "evaluation": question.answer.evaluation if question.answer else None,
+        "delivery": question.answer.delivery if question.answer else None,
+        "answer_audio_file": question.answer.audio_file if question.answer else None,
+        "timing": question.answer.timing if question.answer else None
+    }
 
 # -------------------------------
 # Question Generator (LLM)
 # -------------------------------
-async def generate_questions(role: str, count: int = 3):
+def candidate_context(job_description: Optional[str], resume_text: Optional[str]) -> str:
+    context = ""
+    if job_description:
+        context += f"\nJob description:\n\"\"\"\n{job_description}\n\"\"\"\n"
+    if resume_text:
+        context += f"\nCandidate résumé:\n\"\"\"\n{resume_text}\n\"\"\"\n"
+    return context
+
+
+async def generate_questions(
+    role: str,
+    count: int = 3,
+    difficulty: Difficulty = Difficulty.medium,
+    job_description: Optional[str] = None,
+    resume_text: Optional[str] = None,
+    interview_type: InterviewType = InterviewType.mixed,
+    language: Optional[str] = None
+):
+    types = interview_modes.question_types(interview_type, count)
+    tailoring = ""
+    if job_description:
+        tailoring += "- Probe the specific requirements and responsibilities stated in the job description\n"
+    if resume_text:
+        tailoring += "- Ask about the candidate's actual projects, roles and claimed skills from the résumé by name\n"
+    if tailoring:
+        tailoring += "- Avoid generic questions that could be asked of any candidate\n"
+
     prompt = f"""
 You are an interview agent.
 
 Generate {count} interview questions for the role: {role}.
-
+Target difficulty: {difficulty.value}.
+{language_instruction(language, 'the questions')}{interview_modes.question_guidance(types)}{candidate_context(job_description, resume_text)}
 Rules:
 - Questions must be suitable for a spoken interview
 - Open-ended
-- Increasing difficulty
-- No numbering
+- Increasing difficulty within the {difficulty.value} level
+{tailoring}- No numbering
 - No explanations
 
 Return ONLY a JSON array of strings, no markdown or extra text.
@@ -48,126 +133,504 @@ Example:
             if json_match:
                 response = json_match.group(0)
         
-        return json.loads(response)
-    except (json.JSONDecodeError, AttributeError) as e:
+        questions = json.loads(response)
+        if not isinstance(questions, list) or not questions:
+            raise ValueError("Expected a non-empty JSON array of questions")
+        return questions[:count]
+    except (json.JSONDecodeError, AttributeError, ValueError) as e:
         # Fallback to default questions if JSON parsing fails
         print(f"JSON parsing error in question generation: {e}")
         print(f"LLM response: {response}")
-        return [
-            f"Tell me about your experience with {role} responsibilities.",
-            f"What technical skills do you bring to the {role} position?",
-            f"Describe a challenging project you've worked on."
+        return interview_modes.fallback_questions(role, types)
+
+# -------------------------------
+# Voices
+# -------------------------------
+async def speak(interview: Interview, text: str) -> Optional[str]:
+    language = interview_store.interview_language(interview)
+    return await text_to_speech(text, interview.tts_voice, interview.tts_rate, language)
+
+
+@router.get("/voices")
+async def list_voices(language: Optional[str] = None):
+    """Voices of the configured provider, limited to those that speak `language`."""
+    try:
+        provider = get_tts_provider()
+    except TTSError as e:
+        raise HTTPException(status_code=503, detail=f"Text-to-speech is unavailable: {e}")
+    return {
+        "provider": provider.name,
+        "default_voice": provider.voice_for(language),
+        "voices": [
+            {"id": voice.id, "label": voice.label, "language": voice.language}
+            for voice in provider.voices_for(language)
         ]
+    }
 
 # -------------------------------
-# Start Interview
+# History
 # -------------------------------
-@router.post("/start")
-async def start_interview(role: str):
-    interview_id = str(uuid4())
+def interview_scores(interview: Interview):
+    return average_scores([q.answer.evaluation for q in interview.questions if q.answer is not None])
+
+
+@router.get("")
+async def list_interviews(user: User = Depends(current_user), db: AsyncSession = Depends(get_db)):
+    interviews = await interview_store.list_interviews(db, user.id)
+    return [
+        {
+            "interview_id": str(interview.id),
+            "role": interview.role,
+            "difficulty": interview.difficulty,
+            "interview_type": interview.interview_type,
+            "status": interview.status,
+            "created_at": interview.created_at.isoformat(),
+            "total_questions": len(interview_store.main_questions(interview)),
+            "answered": sum(1 for q in interview_store.main_questions(interview) if q.answer is not None),
+            "average_scores": interview_scores(interview)
+        }
+        for interview in interviews
+    ]
+
 
-    # Generate questions using ChatGPT
-    questions = await generate_questions(role)
+@router.get("/{interview_id}")
+async def interview_detail(interview: Interview = Depends(get_interview_or_404)):
+    return {
+        "interview_id": str(interview.id),
+        "role": interview.role,
+        "difficulty": interview.difficulty,
+        "interview_type": interview.interview_type,
+        "status": interview.status,
+        "created_at": interview.created_at.isoformat(),
+        "stt_model": interview.stt_model,
+        "language": interview.language,
+        "average_scores": interview_scores(interview),
+        "questions": [
+            {
+                "question_index": index,
+                **answer_payload(q),
+                "follow_ups": [answer_payload(f) for f in interview_store.follow_ups_of(interview, q)]
+            }
+            for index, q in enumerate(interview_store.main_questions(interview))
+        ]
+    }
 
-    # Initialize session
-    SESSIONS[interview_id] = {
-        "index": 0,
-        "questions": questions,
-        "answers": []
+# -------------------------------
+# Start Interview
+# -------------------------------
+@router.post("/start")
+async def start_interview(
+    role: str,
+    count: int = Query(3, ge=1, le=10),
+    difficulty: Difficulty = Difficulty.medium,
+    interview_type: InterviewType = InterviewType.mixed,
+    follow_ups: bool = True,
+    job_description: Optional[str] = Form(None),
+    job_description_file: Optional[UploadFile] = File(None),
+    resume: Optional[UploadFile] = File(None),
+    stt_model: Optional[str] = None,
+    language: Optional[str] = Query(None, pattern=r"^[a-z]{2,3}$"),
+    voice: Optional[str] = None,
+    speech_rate: float = Query(1.0, ge=0.5, le=2.0),
+    prep_seconds: int = Query(0, ge=0, le=300),
+    behavioral_seconds: Optional[int] = Query(None, ge=30, le=1800),
+    technical_seconds: Optional[int] = Query(None, ge=30, le=1800),
+    system_design_seconds: Optional[int] = Query(None, ge=30, le=1800),
+    source: QuestionSource = QuestionSource.llm,
+    question_set: Optional[str] = None,
+    user: User = Depends(current_user),
+    db: AsyncSession = Depends(get_db)
+):
+    if stt_model and not supports_model(stt_model):
+        raise HTTPException(status_code=400, detail=f"Unsupported speech-to-text model '{stt_model}'")
+    if language and not is_supported(language):
+        raise HTTPException(status_code=400, detail=f"Unsupported language '{language}'")
+    if voice and not supports_voice(voice):
+        raise HTTPException(status_code=400, detail=f"Unknown voice '{voice}'")
+
+    # An uploaded job description takes precedence over pasted text
+    try:
+        if job_description_file is not None:
+            job_description = extract_text(job_description_file.filename, await job_description_file.read())
+        resume_text = extract_text(resume.filename, await resume.read()) if resume is not None else None
+    except UnsupportedDocument as e:
+        raise HTTPException(status_code=400, detail=str(e))
+    # Pasted text is capped like an upload, since it goes into every prompt
+    job_description = (job_description or "").strip()[:MAX_DOCUMENT_CHARS] or None
+
+    # Only the limits that were set are stored; the rest follow the defaults
+    time_limits = {
+        question_type: seconds
+        for question_type, seconds in (
+            (InterviewType.behavioral.value, behavioral_seconds),
+            (InterviewType.technical.value, technical_seconds),
+            (InterviewType.system_design.value, system_design_seconds),
+        )
+        if seconds is not None
     }
 
-    question = questions[0]
-    audio = await text_to_speech(question)
+    # A named set is asked whole and in order, so everyone taking it gets the same questions
+    bank_questions = None
+    if source == QuestionSource.set:
+        chosen_set = await question_bank.get_set(db, question_set) if question_set else None
+        if chosen_set is None:
+            raise HTTPException(status_code=400, detail="Unknown question set")
+        bank_questions = question_bank.set_questions(chosen_set)
+        if not bank_questions:
+            raise HTTPException(status_code=400, detail="The question set has no questions")
+        interview_type = question_bank.set_interview_type(bank_questions)
+    elif source == QuestionSource.bank:
+        bank_questions = await question_bank.pick_questions(
+            db, role, difficulty.value, interview_modes.question_types(interview_type, count)
+        )
+        if not bank_questions:
+            raise HTTPException(status_code=400, detail="The question bank has no questions for this role and difficulty")
+
+    if bank_questions is not None:
+        questions = [q.text for q in bank_questions]
+        question_types = [q.question_type for q in bank_questions]
+    else:
+        # Generate questions using ChatGPT
+        questions = await generate_questions(role, count, difficulty, job_description, resume_text, interview_type, language)
+        question_types = interview_modes.question_types(interview_type, len(questions))
+
+    interview = await interview_store.create_interview(
+        db,
+        user.id,
+        role,
+        difficulty.value,
+        questions,
+        interview_type.value,
+        question_types,
+        follow_ups,
+        job_description,
+        resume_text,
+        stt_model,
+        language,
+        voice,
+        speech_rate,
+        prep_seconds,
+        time_limits or None,
+        bank_questions
+    )
+
+    question = interview.questions[0]
+    audio = await speak(interview, question.text)
+    await interview_store.mark_question_asked(db, question, audio)
 
     return {
-        "interview_id": interview_id,
-        "question": question,
-        "audio_file": audio
+        "interview_id": str(interview.id),
+        **question_payload(interview, question)
     }
 
 # -------------------------------
 # Submit Answer
 # -------------------------------
-@router.post("/{interview_id}/answer")
-async def submit_answer(interview_id: str, audio: UploadFile):
-    if interview_id not in SESSIONS:
-        raise HTTPException(status_code=404, detail="Invalid interview session")
+async def transcribe_answer(interview: Interview, audio_bytes: bytes) -> Transcription:
+    try:
+        return await transcribe_with_timing(audio_bytes, interview_store.transcription_options(interview))
+    except STTError as e:
+        print(f"Transcription error: {e}")
+        raise HTTPException(status_code=502, detail="Could not transcribe the answer")
 
-    audio_bytes = await audio.read()
-    transcript = await speech_to_text(audio_bytes)
 
-    idx = SESSIONS[interview_id]["index"]
-    questions = SESSIONS[interview_id]["questions"]
+async def evaluate(interview: Interview, question, transcript: str, timing: Optional[dict] = None) -> dict:
+    rubric = rubric_for(interview.role, question.question_type, bool(question.reference_answer))
+    return await evaluate_answer(
+        question.text,
+        transcript,
+        rubric,
+        interview_store.interview_language(interview),
+        timing,
+        question.reference_answer
+    )
 
-    if idx >= len(questions):
+
+@router.post("/{interview_id}/answer")
+async def submit_answer(
+    audio: UploadFile,
+    interview: Interview = Depends(get_interview_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    # Answer time stops when the upload arrives, not after transcription
+    submitted_at = datetime.now(timezone.utc)
+    audio_bytes = await audio.read()
+    transcription = await transcribe_answer(interview, audio_bytes)
+    transcript = transcription.text
+    delivery = analyze_delivery(transcription, interview_store.interview_language(interview))
+
+    question = interview_store.current_question(interview)
+    if question is None:
         raise HTTPException(status_code=400, detail="Interview already completed")
 
-    question = questions[idx]
+    timing = answer_timing(interview, question, submitted_at, retry=False)
+    evaluation = await evaluate(interview, question, transcript, timing)
+    audio_file = save_answer_audio(audio_bytes)
+
+    await interview_store.record_answer(
+        db, interview, question, transcript, evaluation, audio_file, delivery, submitted_at, timing
+    )
+
+    return {
+        "transcript": transcript,
+        "evaluation": evaluation,
+        "delivery": delivery,
+        "timing": timing
+    }
+
+# -------------------------------
+# Retry Answer
+# -------------------------------
+@router.post("/{interview_id}/retry")
+async def retry_answer(
+    audio: UploadFile,
+    interview: Interview = Depends(get_interview_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    """Replace the answer to the most recently answered question."""
+    submitted_at = datetime.now(timezone.utc)
+    question = interview_store.last_answered_question(interview)
+    if question is None:
+        raise HTTPException(status_code=400, detail="No answer to retry")
+
+    audio_bytes = await audio.read()
+    transcription = await transcribe_answer(interview, audio_bytes)
+    transcript = transcription.text
+    delivery = analyze_delivery(transcription, interview_store.interview_language(interview))
+    timing = answer_timing(interview, question, submitted_at, retry=True)
+    evaluation = await evaluate(interview, question, transcript, timing)
+    audio_file = save_answer_audio(audio_bytes)
 
-    evaluation = await evaluate_answer(question, transcript)
+    await interview_store.replace_answer(
+        db, question, transcript, evaluation, audio_file, delivery, submitted_at, timing
+    )
 
-    SESSIONS[interview_id]["answers"].append({
-        "question": question,
+    return {
         "transcript": transcript,
-        "evaluation": evaluation
-    })
+        "evaluation": evaluation,
+        "delivery": delivery,
+        "timing": timing
+    }
+
+# -------------------------------
+# Answer Started
+# -------------------------------
+@router.post("/{interview_id}/answer-started", status_code=204)
+async def answer_started(
+    retry: bool = False,
+    interview: Interview = Depends(get_interview_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    """Called when the candidate starts recording or typing; answer time runs from here."""
+    question = interview_store.answer_target(interview, retry)
+    if question is None:
+        raise HTTPException(status_code=400, detail="No answer to retry" if retry else "Interview already completed")
+    await interview_store.mark_answer_started(db, question)
+    return Response(status_code=204)
 
-    SESSIONS[interview_id]["index"] += 1
+# -------------------------------
+# Typed Answer
+# -------------------------------
+@router.post("/{interview_id}/text-answer")
+async def submit_text_answer(
+    answer: TextAnswer,
+    interview: Interview = Depends(get_interview_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    """Answer the current question in writing; no audio, so no delivery metrics."""
+    submitted_at = datetime.now(timezone.utc)
+    transcript = answer.text.strip()
+    if not transcript:
+        raise HTTPException(status_code=422, detail="Answer is empty")
+
+    if answer.retry:
+        question = interview_store.last_answered_question(interview)
+        if question is None:
+            raise HTTPException(status_code=400, detail="No answer to retry")
+    else:
+        question = interview_store.current_question(interview)
+        if question is None:
+            raise HTTPException(status_code=400, detail="Interview already completed")
+
+    timing = answer_timing(interview, question, submitted_at, answer.retry)
+    evaluation = await evaluate(interview, question, transcript, timing)
+
+    if answer.retry:
+        await interview_store.replace_answer(db, question, transcript, evaluation, None, None, submitted_at, timing)
+    else:
+        await interview_store.record_answer(
+            db, interview, question, transcript, evaluation, None, None, submitted_at, timing
+        )
 
     return {
         "transcript": transcript,
-        "evaluation": evaluation
+        "evaluation": evaluation,
+        "delivery": None,
+        "timing": timing
+    }
+
+# -------------------------------
+# Re-run Evaluation
+# -------------------------------
+@router.post("/{interview_id}/evaluate")
+async def reevaluate_answer(
+    interview: Interview = Depends(get_interview_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    """Evaluate the most recent answer again, e.g. after the evaluator failed."""
+    question = interview_store.last_answered_question(interview)
+    if question is None:
+        raise HTTPException(status_code=400, detail="No answer to evaluate")
+
+    evaluation = await evaluate(interview, question, question.answer.transcript, question.answer.timing)
+    await interview_store.update_evaluation(db, question, evaluation)
+
+    return {
+        "transcript": question.answer.transcript,
+        "evaluation": evaluation,
+        "delivery": question.answer.delivery,
+        "timing": question.answer.timing
     }
 
 # -------------------------------
 # Next Question
 # -------------------------------
-@router.get("/{interview_id}/next")
-async def next_question(interview_id: str):
-    if interview_id not in SESSIONS:
-        raise HTTPException(status_code=404, detail="Invalid interview session")
+async def plan_follow_up(interview: Interview, db: AsyncSession):
+    """Probe the last main answer once if it was vague or scored low."""
+    previous = interview_store.last_answered_question(interview)
+    if previous is None or previous.parent_id is not None:
+        return None
+    if interview_store.follow_ups_of(interview, previous) or not worth_probing(previous.answer.evaluation):
+        return None
+
+    text = await generate_follow_up(previous.text, previous.answer.transcript, interview_store.interview_language(interview))
+    if text is None:
+        return None
+    return await interview_store.add_follow_up(db, interview, previous, text)
 
-    idx = SESSIONS[interview_id]["index"]
-    questions = SESSIONS[interview_id]["questions"]
 
-    if idx >= len(questions):
+@router.get("/{interview_id}/next")
+async def next_question(
+    interview: Interview = Depends(get_interview_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    question = interview_store.current_question(interview)
+
+    # Decide once, before the upcoming question is first served
+    if interview.follow_ups and interview.status != "completed" and (question is None or question.asked_at is None):
+        question = await plan_follow_up(interview, db) or question
+
+    if question is None:
+        await interview_store.mark_completed(db, interview)
         return {"status": "completed"}
 
-    question = questions[idx]
-    audio = await text_to_speech(question)
+    # Questions are synthesized once and reused if /next is called again,
+    # unless cleanup has since removed the file
+    audio = question.audio_file
+    if not audio_exists(audio):
+        audio = await speak(interview, question.text)
+    await interview_store.mark_question_asked(db, question, audio)
+
+    return question_payload(interview, question)
+
+# -------------------------------
+# End Early
+# -------------------------------
+@router.post("/{interview_id}/end", status_code=204)
+async def end_interview(
+    interview: Interview = Depends(get_interview_or_404),
+    db: AsyncSession = Depends(get_db)
+):
+    """Finish before the last question; unanswered questions are left out of the summary."""
+    await interview_store.mark_completed(db, interview)
+    return Response(status_code=204)
+
+# -------------------------------
+# Session State (resume)
+# -------------------------------
+@router.get("/{interview_id}/state")
+async def session_state(interview: Interview = Depends(get_interview_or_404)):
+    """
+    Everything the client needs to restore the interview screen: the question
+    on screen and, if it has been answered but the next one not yet served,
+    the evaluation being reviewed.
+    """
+    current = interview_store.current_question(interview)
+    last_answered = interview_store.last_answered_question(interview)
+
+    if interview.status == "completed":
+        phase, on_screen = "completed", None
+    elif current is not None and (current.asked_at is not None or last_answered is None):
+        phase, on_screen = "asking", current
+    elif last_answered is not None:
+        phase, on_screen = "reviewing", last_answered
+    else:
+        phase, on_screen = "completed", None
 
     return {
-        "question": question,
-        "audio_file": audio
+        "interview_id": str(interview.id),
+        "role": interview.role,
+        "difficulty": interview.difficulty,
+        "interview_type": interview.interview_type,
+        "status": interview.status,
+        "phase": phase,
+        "current_question": question_payload(interview, on_screen) if on_screen else None,
+        "transcript": on_screen.answer.transcript if phase == "reviewing" else None,
+        "evaluation": on_screen.answer.evaluation if phase == "reviewing" else None,
+        "delivery": on_screen.answer.delivery if phase == "reviewing" else None,
+        "timing": on_screen.answer.timing if phase == "reviewing" else None,
+        "answers": interview_store.answer_records(interview)
     }
 
 # -------------------------------
 # Interview Summary
 # -------------------------------
-@router.get("/{interview_id}/summary")
-async def summary(interview_id: str):
-    if interview_id not in SESSIONS:
-        raise HTTPException(status_code=404, detail="Invalid interview session")
-
-    answers = SESSIONS[interview_id]["answers"]
+async def generate_summary(interview: Interview) -> dict:
+    answers = interview_store.answer_records(interview)
     
     if not answers:
         return {
             "overall_feedback": "No answers recorded yet.",
             "strengths": "N/A",
-            "improvements": "N/A"
+            "improvements": "N/A",
+            "interview_type": interview.interview_type
         }
     
     # Build comprehensive interview context for LLM
-    interview_context = "Interview Performance Analysis:\n\n"
-    for i, qa in enumerate(answers, 1):
-        interview_context += f"Question {i}: {qa['question']}\n"
+    interview_context = "Interview Performance Analysis:\n"
+    interview_context += f"Interview type: {interview_modes.LABELS[interview.interview_type]}\n\n"
+    number = 0
+    for qa in answers:
+        if qa['follow_up']:
+            interview_context += f"Follow-up to question {number}: {qa['question']}\n"
+        else:
+            number += 1
+            interview_context += f"Question {number}: {qa['question']}\n"
         interview_context += f"Answer: {qa['transcript']}\n"
-        interview_context += f"Evaluation: Relevance={qa['evaluation']['relevance']}/10, "
-        interview_context += f"Clarity={qa['evaluation']['clarity']}/10, "
-        interview_context += f"Correctness={qa['evaluation']['correctness']}/10\n"
-        interview_context += f"Feedback: {qa['evaluation']['feedback']}\n\n"
+        interview_context += timing_note(qa['timing'])
+        evaluation = qa['evaluation']
+        if evaluation.get("status") == "ok":
+            scores = ", ".join(
+                f"{d['label']}={evaluation['scores'][d['key']]}/10" for d in evaluation["dimensions"]
+            )
+            interview_context += f"Evaluation: {scores}\n"
+            missing = [part for part, covered in evaluation.get("star", {}).items() if not covered]
+            if missing:
+                interview_context += f"Missing STAR parts: {', '.join(missing)}\n"
+            interview_context += f"Feedback: {evaluation['feedback']}\n\n"
+        else:
+            interview_context += "Evaluation: not available\n\n"
     
+    # Judge fit only when there is a posting to judge it against
+    if interview.job_description:
+        interview_context += candidate_context(interview.job_description, interview.resume_text)
+        fit_instructions = "4. Fit: How well the candidate meets each key requirement of the job description, citing their answers (2-3 sentences)\n"
+        summary_format = '{"overall_feedback": "text", "strengths": "text", "improvements": "text", "fit": "text"}'
+    else:
+        fit_instructions = ""
+        summary_format = '{"overall_feedback": "text", "strengths": "text", "improvements": "text"}'
+    fit_instructions += language_instruction(interview_store.interview_language(interview), "every field")
+
     # Generate comprehensive summary using LLM
     summary_prompt = f"""
 {interview_context}
@@ -176,10 +639,10 @@ Based on this complete interview performance, provide a comprehensive summary wi
 
 1. Overall Feedback: A 2-3 sentence summary of the candidate's overall performance
 2. Strengths: Key strengths demonstrated across all answers (2-3 specific points)
-3. Areas for Improvement: Specific actionable suggestions for improvement (2-3 points)
-
+3. Areas for Improvement: Specific actionable suggestions for improvement (2-3 points); if any answer ran over its time limit, say by how much (e.g. "you ran 40% over on question 3")
+{fit_instructions}
 Return ONLY valid JSON, no markdown or extra text:
-{{"overall_feedback": "text", "strengths": "text", "improvements": "text"}}
+{summary_format}
 """
     
     result = await call_llm(summary_prompt)
@@ -197,21 +660,93 @@ Return ONLY valid JSON, no markdown or extra text:
             if json_match:
                 result = json_match.group(0)
         
-        return json.loads(result)
+        return {**json.loads(result), "interview_type": interview.interview_type}
     except (json.JSONDecodeError, AttributeError) as e:
         # Fallback to basic summary if JSON parsing fails
         print(f"JSON parsing error in summary: {e}")
         print(f"LLM response: {result}")
         
-        avg_scores = {
-            "relevance": sum(qa['evaluation']['relevance'] for qa in answers) / len(answers),
-            "clarity": sum(qa['evaluation']['clarity'] for qa in answers) / len(answers),
-            "correctness": sum(qa['evaluation']['correctness'] for qa in answers) / len(answers)
-        }
-        
+        averages = average_scores([qa['evaluation'] for qa in answers])
+        if averages:
+            scores = ", ".join(f"{d['label']} {d['score']:.1f}/10" for d in averages["dimensions"])
+            overall_feedback = f"Completed {len(answers)} questions with average scores: {scores}"
+        else:
+            overall_feedback = f"Completed {len(answers)} questions; no answers could be scored"
+
         return {
-            "overall_feedback": f"Completed {len(answers)} questions with average scores: Relevance {avg_scores['relevance']:.1f}/10, Clarity {avg_scores['clarity']:.1f}/10, Correctness {avg_scores['correctness']:.1f}/10",
+            "overall_feedback": overall_feedback,
             "strengths": "Demonstrated engagement throughout the interview",
-            "improvements": "Continue practicing to improve scores across all evaluation criteria"
+            "improvements": "Continue practicing to improve scores across all evaluation criteria",
+            "interview_type": interview.interview_type
         }
 
+
+@router.get("/{interview_id}/summary")
+async def summary(interview: Interview = Depends(get_interview_or_404)):
+    # Scores come with the summary so hands-free interviews can show them at the end
+    return {
+        **await generate_summary(interview),
+        "average_scores": interview_scores(interview),
+        "overtime": overtime_questions(interview_store.answer_records(interview))
+    }
+
+# -------------------------------
+# Report Export
+# -------------------------------
+@router.get("/{interview_id}/report")
+async def export_report(
+    request: Request,
+    format: ReportFormat = ReportFormat.markdown,
+    include_audio: bool = False,
+    interview: Interview = Depends(get_interview_or_404)
+):
+    summary = await generate_summary(interview)
+
+    def audio_url(audio_file: str) -> str:
+        # Absolute, signed links, since whoever opens the report has no bearer token
+        params = urlencode(auth.sign_audio_link(str(interview.id), audio_file))
+        return f"{request.base_url}interview/{interview.id}/shared-audio/{quote(audio_file)}?{params}"
+
+    if format == ReportFormat.pdf:
+        try:
+            content = render_pdf(interview, summary, audio_url if include_audio else None)
+        except ReportError as e:
+            raise HTTPException(status_code=400, detail=str(e))
+        media_type = "application/pdf"
+    else:
+        content = render_markdown(interview, summary, audio_url if include_audio else None).encode("utf-8")
+        media_type = "text/markdown; charset=utf-8"
+
+    filename = report_filename(interview, format.extension)
+    return Response(
+        content=content,
+        media_type=media_type,
+        headers={"Content-Disposition": f'attachment; filename="{filename}"'}
+    )
+
+
+# -------------------------------
+# Audio
+# -------------------------------
+@router.get("/{interview_id}/audio/{audio_file:path}")
+async def interview_audio(audio_file: str, interview: Interview = Depends(get_interview_or_404)):
+    """Question and answer recordings, served only to the interview's owner."""
+    # Only names the server stored for this interview, which also rules out path tricks
+    if audio_file not in interview_store.audio_files(interview):
+        raise HTTPException(status_code=404, detail="Audio not found")
+    path = audio_path(audio_file)
+    if not os.path.isfile(path):
+        raise HTTPException(status_code=404, detail="Audio not found")
+    return FileResponse(path)
+
+
+@shared_router.get("/{interview_id}/shared-audio/{audio_file:path}")
+async def shared_audio(interview_id: str, audio_file: str, expires: int, signature: str):
+    """A recording linked from an exported report; the signature stands in for signing in."""
+    # The signature names this exact file, so no other path can be reached
+    if not auth.verify_audio_link(interview_id, audio_file, expires, signature):
+        raise HTTPException(status_code=403, detail="Invalid or expired audio link")
+    path = audio_path(audio_file)
+    if not os.path.isfile(path):
+        raise HTTPException(status_code=404, detail="Audio not found")
+    return FileResponse(path)
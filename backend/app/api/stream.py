@@ -0,0 +1,146 @@
+from fastapi import APIRouter, WebSocket, WebSocketDisconnect, Depends
+from sqlalchemy.ext.asyncio import AsyncSession
+from datetime import datetime, timezone
+from typing import Optional
+import asyncio
+import json
+
+from app.core.database import get_db
+from app.services import auth, interview_store
+from app.services.stt import STTError, speech_to_text, transcribe_with_timing
+from app.services.delivery import analyze_delivery
+from app.services.evaluation import stream_evaluate_answer
+from app.services.rubric import rubric_for
+from app.services.timing import answer_timing
+from app.utils.audio import save_answer_audio
+
+router = APIRouter()
+
+# MediaRecorder sends one chunk per timeslice (1s on the client), so this
+# re-transcribes roughly every three seconds of new audio
+PARTIAL_EVERY_CHUNKS = 3
+
+# -------------------------------
+# Streaming Answer (WebSocket)
+# -------------------------------
+# Browsers cannot set headers on a WebSocket, so the bearer token comes as ?token=
+# Client → server: binary webm chunks, then {"type": "submit"}
+# Server → client (JSON):
+#   {"type": "partial_transcript", "text"}   while recording
+#   {"type": "transcript", "text"}           final transcript after submit
+#   {"type": "evaluation_token", "text"}     feedback as it is generated
+#   {"type": "result", "transcript", "evaluation", "delivery", "timing"}
+#   {"type": "error", "detail"}
+@router.websocket("/{interview_id}/stream")
+async def stream_answer(
+    websocket: WebSocket,
+    interview_id: str,
+    mode: str = "answer",
+    token: Optional[str] = None,
+    db: AsyncSession = Depends(get_db)
+):
+    await websocket.accept()
+
+    user = await auth.user_for_token(db, token) if token else None
+    if user is None:
+        await send_error(websocket, "Not authenticated")
+        return
+
+    interview = await interview_store.get_interview(db, interview_id, user.id)
+    if interview is None:
+        await send_error(websocket, "Invalid interview session")
+        return
+
+    replace = mode == "retry"
+    question = interview_store.answer_target(interview, replace)
+    if question is None:
+        await send_error(websocket, "No answer to retry" if replace else "Interview already completed")
+        return
+
+    options = interview_store.transcription_options(interview)
+    language = interview_store.interview_language(interview)
+    buffer = bytearray()
+    chunks_since_partial = 0
+    partial_task = None
+
+    async def send_partial(audio: bytes):
+        try:
+            text = await speech_to_text(audio, options)
+            await websocket.send_json({"type": "partial_transcript", "text": text})
+        except Exception as e:
+            print(f"Partial transcription failed: {e}")
+
+    try:
+        while True:
+            message = await websocket.receive()
+            if message["type"] == "websocket.disconnect":
+                raise WebSocketDisconnect(message.get("code", 1000))
+
+            if message.get("bytes"):
+                buffer.extend(message["bytes"])
+                chunks_since_partial += 1
+                # Skip a round if the previous partial is still transcribing
+                if chunks_since_partial >= PARTIAL_EVERY_CHUNKS and (partial_task is None or partial_task.done()):
+                    chunks_since_partial = 0
+                    partial_task = asyncio.create_task(send_partial(bytes(buffer)))
+            elif message.get("text"):
+                if json.loads(message["text"]).get("type") == "submit":
+                    break
+
+        submitted_at = datetime.now(timezone.utc)
+        if partial_task is not None:
+            partial_task.cancel()
+
+        if not buffer:
+            await send_error(websocket, "No audio received")
+            return
+
+        audio_bytes = bytes(buffer)
+        try:
+            transcription = await transcribe_with_timing(audio_bytes, options)
+        except STTError as e:
+            print(f"Transcription error: {e}")
+            await send_error(websocket, "Could not transcribe the answer")
+            return
+        transcript = transcription.text
+        delivery = analyze_delivery(transcription, language)
+        await websocket.send_json({"type": "transcript", "text": transcript})
+
+        timing = answer_timing(interview, question, submitted_at, replace)
+        rubric = rubric_for(interview.role, question.question_type, bool(question.reference_answer))
+        evaluation = None
+        async for kind, value in stream_evaluate_answer(
+            question.text, transcript, rubric, language, timing, question.reference_answer
+        ):
+            if kind == "feedback":
+                await websocket.send_json({"type": "evaluation_token", "text": value})
+            else:
+                evaluation = value
+
+        audio_file = save_answer_audio(audio_bytes)
+        if replace:
+            await interview_store.replace_answer(
+                db, question, transcript, evaluation, audio_file, delivery, submitted_at, timing
+            )
+        else:
+            await interview_store.record_answer(
+                db, interview, question, transcript, evaluation, audio_file, delivery, submitted_at, timing
+            )
+
+        await websocket.send_json({
+            "type": "result",
+            "transcript": transcript,
+            "evaluation": evaluation,
+            "delivery": delivery,
+            "timing": timing
+        })
+        await websocket.close()
+    except WebSocketDisconnect:
+        # Candidate re-recorded or left; nothing was stored
+        if partial_task is not None:
+            partial_task.cancel()
+
+
+async def send_error(websocket: WebSocket, detail: str):
+    await websocket.send_json({"type": "error", "detail": detail})
+    await websocket.close(code=1008)
@@ -4,12 +4,69 @@ from dotenv import load_dotenv
 load_dotenv()
 
 class Settings:
-    DATABASE_URL = os.getenv("DATABASE_URL")
+    # SQLite keeps local runs and tests dependency-free; use postgresql+asyncpg in production
+    DATABASE_URL = os.getenv("DATABASE_URL", "sqlite+aiosqlite:///./interview.db")
+    DATABASE_ECHO = os.getenv("DATABASE_ECHO", "false").lower() == "true"
+
     OPENAI_API_KEY = os.getenv("OPENAI_API_KEY")
 
+    # openai | openai_compatible | stub (canned offline replies, no key needed)
+    LLM_PROVIDER = os.getenv("LLM_PROVIDER", "openai")
+    LLM_MODEL = os.getenv("LLM_MODEL", "gpt-4o")
+    LLM_TEMPERATURE = float(os.getenv("LLM_TEMPERATURE", "0.2"))
+    LLM_TIMEOUT = float(os.getenv("LLM_TIMEOUT", "60"))
+    # Only used by openai_compatible, e.g. http://localhost:11434/v1 for Ollama
+    LLM_BASE_URL = os.getenv("LLM_BASE_URL")
+    LLM_API_KEY = os.getenv("LLM_API_KEY")
+
+    # Optional JSON file with extra or replacement evaluation rubrics
+    RUBRIC_FILE = os.getenv("RUBRIC_FILE")
+
+    # whisper | faster_whisper | openai | openai_compatible | stub (fixtures, no model needed)
+    STT_PROVIDER = os.getenv("STT_PROVIDER", "whisper")
+    # Default model size for the local engines; interviews may pick another
+    STT_MODEL = os.getenv("STT_MODEL", "small")
+    # Default spoken language (ISO 639-1); set it empty to let the engine detect it
+    STT_LANGUAGE = os.getenv("STT_LANGUAGE", "en") or None
+    # Concurrent transcriptions; local workers share the loaded model, and
+    # openai-whisper runs one transcription per model at a time
+    STT_WORKERS = int(os.getenv("STT_WORKERS", "2"))
+    # cpu | cuda; unset picks automatically
+    STT_DEVICE = os.getenv("STT_DEVICE") or None
+    # faster_whisper only, e.g. int8 on CPU or float16 on GPU
+    STT_COMPUTE_TYPE = os.getenv("STT_COMPUTE_TYPE", "default")
+    # openai and openai_compatible only
+    STT_API_MODEL = os.getenv("STT_API_MODEL", "whisper-1")
+    STT_BASE_URL = os.getenv("STT_BASE_URL")
+    STT_API_KEY = os.getenv("STT_API_KEY")
+    STT_TIMEOUT = float(os.getenv("STT_TIMEOUT", "120"))
+    # stub only: directory of <sha256>.txt / <sha256>.json transcripts
+    STT_FIXTURE_DIR = os.getenv("STT_FIXTURE_DIR")
+
+    # edge (free, no key) | elevenlabs | stub (offline beep)
+    TTS_PROVIDER = os.getenv("TTS_PROVIDER", "edge")
+    EDGE_TTS_VOICE = os.getenv("EDGE_TTS_VOICE", "en-US-AriaNeural")
     ELEVENLABS_API_KEY = os.getenv("ELEVENLABS_API_KEY")
     ELEVENLABS_VOICE_ID = os.getenv("ELEVENLABS_VOICE_ID")
+    # Synthesized question audio unused for this long is deleted; 0 keeps it forever
+    TTS_CACHE_MAX_AGE_HOURS = float(os.getenv("TTS_CACHE_MAX_AGE_HOURS", "72"))
 
-    TTS_PROVIDER = os.getenv("TTS_PROVIDER", "elevenlabs")
+    # How long a sign-in lasts before the user has to log in again
+    AUTH_TOKEN_TTL_HOURS = float(os.getenv("AUTH_TOKEN_TTL_HOURS", "168"))
+    # Let anyone create an account from the login screen
+    AUTH_ALLOW_REGISTRATION = os.getenv("AUTH_ALLOW_REGISTRATION", "true").lower() == "true"
+    # Passwordless one-click login as DEV_LOGIN_EMAIL; never enable in production
+    DEV_LOGIN = os.getenv("DEV_LOGIN", "false").lower() == "true"
+    DEV_LOGIN_EMAIL = os.getenv("DEV_LOGIN_EMAIL", "dev@localhost")
+    # TTF/OTF font for PDF reports, e.g. a Noto Sans build covering Devanagari
+    # and CJK; without it PDFs use Helvetica and only Latin-script languages
+    REPORT_FONT = os.getenv("REPORT_FONT")
+    # Signs the audio links in exported reports; unset uses a random key, so
+    # links stop working when the server restarts
+    AUDIO_LINK_SECRET = os.getenv("AUDIO_LINK_SECRET")
+    # How long the audio links in an exported report keep working
+    AUDIO_LINK_TTL_HOURS = float(os.getenv("AUDIO_LINK_TTL_HOURS", "168"))
+    # Comma-separated emails allowed to manage the question bank
+    ADMIN_EMAILS = {e.strip().lower() for e in os.getenv("ADMIN_EMAILS", "").split(",") if e.strip()}
 
 settings = Settings()
@@ -1,13 +1,91 @@
+from alembic import command
+from alembic.config import Config
+from sqlalchemy import inspect, text
 from sqlalchemy.ext.asyncio import create_async_engine, AsyncSession
 from sqlalchemy.orm import sessionmaker
+import os
+
 from app.core.config import settings
 
-engine = create_async_engine(settings.DATABASE_URL, echo=True)
+engine = create_async_engine(settings.DATABASE_URL, echo=settings.DATABASE_ECHO)
 
 AsyncSessionLocal = sessionmaker(
     engine, class_=AsyncSession, expire_on_commit=False
 )
 
+MIGRATIONS_DIR = os.path.join(os.path.dirname(os.path.dirname(os.path.dirname(__file__))), "migrations")
+
+# Before migrations ran on SQLite, local databases were made with create_all,
+# which adds missing tables but never columns. The newest column present tells
+# how far such a database got; checked newest first.
+LEGACY_MARKERS = [
+    ("0012", "questions", "reference_answer"),
+    ("0011", "answers", "timing"),
+    ("0010", "interviews", "user_id"),
+    ("0009", "interviews", "tts_voice"),
+    ("0008", "interviews", "stt_model"),
+    ("0007", "answers", "delivery"),
+    ("0006", "interviews", "interview_type"),
+    ("0005", "interviews", "job_description"),
+    ("0004", "interviews", "follow_ups"),
+    ("0002", "questions", "asked_at"),
+]
+# Tables a migration creates, which create_all may already have made for newer models
+CREATED_TABLES = {
+    "0010": ("auth_tokens", "users"),
+    "0012": ("question_set_items", "question_sets", "bank_questions"),
+}
+
 async def get_db():
     async with AsyncSessionLocal() as session:
         yield session
+
+
+def _legacy_revision(connection) -> str:
+    inspector = inspect(connection)
+    for revision, table, column in LEGACY_MARKERS:
+        if column in {c["name"] for c in inspector.get_columns(table)}:
+            return revision
+    return "0001"
+
+
+def _adopt_legacy_database(connection, config: Config) -> None:
+    """Stamp a create_all database with the revision it matches, so the rest can be migrated."""
+    revision = _legacy_revision(connection)
+    tables = set(inspect(connection).get_table_names())
+    for later, created in CREATED_TABLES.items():
+        if later <= revision:
+            continue
+        for table in created:
+            if table not in tables:
+                continue
+            if connection.execute(text(f"SELECT 1 FROM {table} LIMIT 1")).first() is not None:
+                raise RuntimeError(
+                    f"The database is at revision {revision} but already has rows in '{table}'; "
+                    "migrate it by hand with `alembic stamp` and `alembic upgrade head`"
+                )
+            # Empty, so the migration can create it again with its own constraints
+            connection.execute(text(f"DROP TABLE {table}"))
+    print(f"Adopting a database created without migrations as revision {revision}")
+    command.stamp(config, revision)
+
+
+def _migrate(connection) -> None:
+    config = Config()
+    config.set_main_option("script_location", MIGRATIONS_DIR)
+    config.attributes["connection"] = connection
+    tables = set(inspect(connection).get_table_names())
+    if "interviews" in tables and "alembic_version" not in tables:
+        _adopt_legacy_database(connection, config)
+    command.upgrade(config, "head")
+
+
+async def init_db():
+    """
+    Bring local SQLite databases up to date with the migrations. Other
+    databases are managed with Alembic (`alembic upgrade head`).
+    """
+    if engine.url.get_backend_name() != "sqlite":
+        return
+    async with engine.begin() as conn:
+        await conn.run_sync(_migrate)
@@ -1,10 +1,38 @@
-from fastapi import FastAPI
+from contextlib import asynccontextmanager
+from fastapi import FastAPI, Depends
 from fastapi.middleware.cors import CORSMiddleware
-from fastapi.staticfiles import StaticFiles
-import os
-from app.api.interview import router
+import asyncio
+from app.api.auth import router as auth_router, current_user
+from app.api.bank import router as bank_router
+from app.api.interview import router, shared_router
+from app.api.stream import router as stream_router
+from app.core.config import settings
+from app.core.database import init_db
+from app.services.tts import cleanup_question_audio
 
-app = FastAPI(title="Voice Mock Interview Agent")
+AUDIO_CLEANUP_INTERVAL_SECONDS = 3600
+
+
+async def clean_question_audio_periodically(max_age_seconds: float):
+    while True:
+        removed = cleanup_question_audio(max_age_seconds)
+        if removed:
+            print(f"Removed {removed} stale question audio files")
+        await asyncio.sleep(AUDIO_CLEANUP_INTERVAL_SECONDS)
+
+
+@asynccontextmanager
+async def lifespan(app: FastAPI):
+    await init_db()
+    cleanup = None
+    if settings.TTS_CACHE_MAX_AGE_HOURS > 0:
+        cleanup = asyncio.create_task(clean_question_audio_periodically(settings.TTS_CACHE_MAX_AGE_HOURS * 3600))
+    yield
+    if cleanup is not None:
+        cleanup.cancel()
+
+
+app = FastAPI(title="Voice Mock Interview Agent", lifespan=lifespan)
 
 # Configure CORS
 app.add_middleware(
@@ -15,10 +43,13 @@ app.add_middleware(
     allow_headers=["*"],
 )
 
-# Create audio directory if it doesn't exist
-os.makedirs("audio", exist_ok=True)
-
-# Mount static files directory
-app.mount("/audio", StaticFiles(directory="audio"), name="audio")
-
-app.include_router(router, prefix="/interview")
+app.include_router(auth_router, prefix="/auth")
+# Every interview route needs a signed-in user; audio is served through
+# GET /interview/{id}/audio/... so recordings stay private to their owner
+app.include_router(router, prefix="/interview", dependencies=[Depends(current_user)])
+# Any user can list the question sets; editing the bank also needs an admin
+app.include_router(bank_router, prefix="/bank", dependencies=[Depends(current_user)])
+# The WebSocket checks its ?token= itself
+app.include_router(stream_router, prefix="/interview")
+# Report audio links are signed instead
+app.include_router(shared_router, prefix="/interview")
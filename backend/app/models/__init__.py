@@ -0,0 +1,11 @@
+from app.models.base import Base
+from app.models.interview import Interview
+from app.models.question import Question
+from app.models.answer import Answer
+from app.models.user import User, AuthToken
+from app.models.bank import BankQuestion, QuestionSet, QuestionSetItem
+
+__all__ = [
+    "Base", "Interview", "Question", "Answer", "User", "AuthToken",
+    "BankQuestion", "QuestionSet", "QuestionSetItem"
+]
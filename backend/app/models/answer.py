@@ -0,0 +1,25 @@
+from sqlalchemy import Column, Text, Integer, ForeignKey, DateTime, JSON, Uuid
+from sqlalchemy.orm import relationship
+from datetime import datetime, timezone
+import uuid
+
+from app.models.base import Base
+
+
+class Answer(Base):
+    __tablename__ = "answers"
+    id = Column(Uuid, primary_key=True, default=uuid.uuid4)
+    # One stored answer per question; retries overwrite it
+    question_id = Column(Uuid, ForeignKey("questions.id", ondelete="CASCADE"), nullable=False, unique=True)
+    transcript = Column(Text, nullable=False, default="")
+    evaluation = Column(JSON, nullable=False)
+    # Pace, pauses, fillers and hedging computed from the recording
+    delivery = Column(JSON)
+    audio_file = Column(Text)
+    attempts = Column(Integer, nullable=False, default=1)
+    # When the latest attempt arrived, and how long it took against the limit
+    submitted_at = Column(DateTime(timezone=True))
+    timing = Column(JSON)
+    created_at = Column(DateTime(timezone=True), default=lambda: datetime.now(timezone.utc))
+
+    question = relationship("Question", back_populates="answer")
@@ -0,0 +1,59 @@
+from sqlalchemy import Column, Text, Integer, ForeignKey, DateTime, JSON, Uuid
+from sqlalchemy.orm import relationship
+from datetime import datetime, timezone
+import uuid
+
+from app.models.base import Base
+
+
+class BankQuestion(Base):
+    """A curated question that interviews can reuse instead of generating one."""
+    __tablename__ = "bank_questions"
+    id = Column(Uuid, primary_key=True, default=uuid.uuid4)
+    text = Column(Text, nullable=False)
+    # None suits any role; otherwise matched case-insensitively
+    role = Column(Text)
+    topic = Column(Text)
+    difficulty = Column(Text, nullable=False, default="medium")
+    # behavioral | technical | system_design
+    question_type = Column(Text, nullable=False, default="technical")
+    # What a strong answer covers; correctness is graded against it
+    reference_answer = Column(Text)
+    # Free-form labels for finding questions, e.g. ["sql", "indexing"]
+    tags = Column(JSON, nullable=False, default=list)
+    created_at = Column(DateTime(timezone=True), default=lambda: datetime.now(timezone.utc))
+
+    set_items = relationship(
+        "QuestionSetItem",
+        back_populates="question",
+        cascade="all, delete-orphan",
+        lazy="selectin"
+    )
+
+
+class QuestionSet(Base):
+    """A named, ordered list of bank questions, so a cohort is asked the same ones."""
+    __tablename__ = "question_sets"
+    id = Column(Uuid, primary_key=True, default=uuid.uuid4)
+    name = Column(Text, nullable=False, unique=True)
+    description = Column(Text)
+    created_at = Column(DateTime(timezone=True), default=lambda: datetime.now(timezone.utc))
+
+    items = relationship(
+        "QuestionSetItem",
+        back_populates="question_set",
+        order_by="QuestionSetItem.position",
+        cascade="all, delete-orphan",
+        lazy="selectin"
+    )
+
+
+class QuestionSetItem(Base):
+    __tablename__ = "question_set_items"
+    set_id = Column(Uuid, ForeignKey("question_sets.id", ondelete="CASCADE"), primary_key=True)
+    question_id = Column(Uuid, ForeignKey("bank_questions.id", ondelete="CASCADE"), primary_key=True)
+    # Order the set's questions are asked in
+    position = Column(Integer, nullable=False)
+
+    question_set = relationship("QuestionSet", back_populates="items", lazy="joined")
+    question = relationship("BankQuestion", back_populates="set_items", lazy="joined")
@@ -1,14 +1,45 @@
-from sqlalchemy import Column, Text, Integer, TIMESTAMP
-from sqlalchemy.dialects.postgresql import UUID
-from sqlalchemy.ext.declarative import declarative_base
+from sqlalchemy import Column, Text, Integer, Boolean, DateTime, Float, ForeignKey, JSON, Uuid
+from sqlalchemy.orm import relationship
+from datetime import datetime, timezone
 import uuid
 
-Base = declarative_base()
+from app.models.base import Base
+
 
 class Interview(Base):
     __tablename__ = "interviews"
-    id = Column(UUID, primary_key=True, default=uuid.uuid4)
-    role = Column(Text)
-    current_question = Column(Integer)
-    status = Column(Text)
-    created_at = Column(TIMESTAMP)
+    id = Column(Uuid, primary_key=True, default=uuid.uuid4)
+    # Only the owner can see or continue an interview; rows from before
+    # accounts existed have no owner and are hidden from everyone
+    user_id = Column(Uuid, ForeignKey("users.id", ondelete="CASCADE"), index=True)
+    role = Column(Text, nullable=False)
+    difficulty = Column(Text, nullable=False, default="medium")
+    # behavioral | technical | system_design | mixed
+    interview_type = Column(Text, nullable=False, default="mixed")
+    # Index of the next unanswered question
+    current_question = Column(Integer, nullable=False, default=0)
+    status = Column(Text, nullable=False, default="in_progress")
+    # Ask follow-ups after vague or weak answers
+    follow_ups = Column(Boolean, nullable=False, default=True)
+    # Optional context used to tailor questions and judge fit
+    job_description = Column(Text)
+    resume_text = Column(Text)
+    # Speech-to-text overrides; None falls back to STT_MODEL / STT_LANGUAGE
+    stt_model = Column(Text)
+    language = Column(Text)
+    # Text-to-speech voice and speed for questions; None uses the provider default
+    tts_voice = Column(Text)
+    tts_rate = Column(Float, nullable=False, default=1.0)
+    # Think time before recording starts; 0 lets the candidate start at will
+    prep_seconds = Column(Integer, nullable=False, default=0)
+    # Answer time limit per question type in seconds; missing types use the defaults
+    time_limits = Column(JSON)
+    created_at = Column(DateTime(timezone=True), default=lambda: datetime.now(timezone.utc))
+
+    questions = relationship(
+        "Question",
+        back_populates="interview",
+        order_by="Question.position",
+        cascade="all, delete-orphan",
+        lazy="selectin"
+    )
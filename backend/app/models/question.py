@@ -0,0 +1,35 @@
+from sqlalchemy import Column, Text, Integer, ForeignKey, DateTime, Uuid
+from sqlalchemy.orm import relationship
+import uuid
+
+from app.models.base import Base
+
+
+class Question(Base):
+    __tablename__ = "questions"
+    id = Column(Uuid, primary_key=True, default=uuid.uuid4)
+    interview_id = Column(Uuid, ForeignKey("interviews.id", ondelete="CASCADE"), nullable=False, index=True)
+    # Set on follow-ups to the main question they probe
+    parent_id = Column(Uuid, ForeignKey("questions.id", ondelete="CASCADE"))
+    position = Column(Integer, nullable=False)
+    text = Column(Text, nullable=False)
+    # behavioral | technical | system_design; picks the evaluation rubric
+    question_type = Column(Text, nullable=False, default="technical")
+    audio_file = Column(Text)
+    # Set once the question has been served to the candidate
+    asked_at = Column(DateTime(timezone=True))
+    # When the latest take started recording (or typing); reset on every take
+    answer_started_at = Column(DateTime(timezone=True))
+    # Set when the question came from the question bank; the reference answer
+    # is copied so later edits to the bank do not change how it was graded
+    bank_question_id = Column(Uuid, ForeignKey("bank_questions.id", ondelete="SET NULL"))
+    reference_answer = Column(Text)
+
+    interview = relationship("Interview", back_populates="questions")
+    answer = relationship(
+        "Answer",
+        back_populates="question",
+        uselist=False,
+        cascade="all, delete-orphan",
+        lazy="selectin"
+    )
@@ -0,0 +1,28 @@
+from sqlalchemy import Column, Text, ForeignKey, DateTime, Uuid
+from sqlalchemy.orm import relationship
+from datetime import datetime, timezone
+import uuid
+
+from app.models.base import Base
+
+
+class User(Base):
+    __tablename__ = "users"
+    id = Column(Uuid, primary_key=True, default=uuid.uuid4)
+    # Stored lower-cased so sign-in is case-insensitive
+    email = Column(Text, nullable=False, unique=True)
+    # pbkdf2_sha256$<iterations>$<salt>$<hash>; None for the passwordless dev account
+    password_hash = Column(Text)
+    created_at = Column(DateTime(timezone=True), default=lambda: datetime.now(timezone.utc))
+
+
+class AuthToken(Base):
+    __tablename__ = "auth_tokens"
+    id = Column(Uuid, primary_key=True, default=uuid.uuid4)
+    user_id = Column(Uuid, ForeignKey("users.id", ondelete="CASCADE"), nullable=False, index=True)
+    # Only a SHA-256 digest is kept, so the table alone cannot be used to sign in
+    token_hash = Column(Text, nullable=False, unique=True)
+    created_at = Column(DateTime(timezone=True), default=lambda: datetime.now(timezone.utc))
+    expires_at = Column(DateTime(timezone=True), nullable=False)
+
+    user = relationship("User", lazy="joined")
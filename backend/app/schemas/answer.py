@@ -0,0 +1,8 @@
+from pydantic import BaseModel, Field
+
+
+class TextAnswer(BaseModel):
+    # Typed instead of spoken, e.g. without a working microphone
+    text: str = Field(min_length=1, max_length=10000)
+    # Replace the most recent answer, like POST /retry
+    retry: bool = False
@@ -0,0 +1,12 @@
+from pydantic import BaseModel, Field
+
+
+class Credentials(BaseModel):
+    email: str = Field(pattern=r"^[^@\s]+@[^@\s]+$", max_length=254)
+    password: str = Field(min_length=8, max_length=256)
+
+
+class LoginCredentials(BaseModel):
+    # Unvalidated, so a wrong guess gets the same 401 whatever its shape
+    email: str
+    password: str
@@ -0,0 +1,87 @@
+from enum import Enum
+from typing import List, Optional
+
+from pydantic import BaseModel, Field, field_validator
+
+from app.schemas.interview import Difficulty, QuestionType
+
+
+SET_NAME_MAX_LENGTH = 100
+
+
+class BankFormat(str, Enum):
+    json = "json"
+    csv = "csv"
+
+
+def _blank_to_none(value: Optional[str]) -> Optional[str]:
+    if value is None:
+        return None
+    return value.strip() or None
+
+
+def _labels(values: List[str]) -> List[str]:
+    """Stripped, without blanks or repeats, in their original order."""
+    seen = []
+    for value in values:
+        value = value.strip()
+        if value and value not in seen:
+            seen.append(value)
+    return seen
+
+
+class BankQuestionIn(BaseModel):
+    text: str = Field(min_length=1, max_length=2000)
+    # Empty suits any role
+    role: Optional[str] = Field(None, max_length=200)
+    topic: Optional[str] = Field(None, max_length=200)
+    difficulty: Difficulty = Difficulty.medium
+    question_type: QuestionType = QuestionType.technical
+    reference_answer: Optional[str] = Field(None, max_length=10000)
+    tags: List[str] = Field(default_factory=list, max_length=20)
+    # Names of the sets the question belongs to; unknown names create a set
+    sets: List[str] = Field(default_factory=list, max_length=20)
+
+    @field_validator("text")
+    @classmethod
+    def _strip_text(cls, value: str) -> str:
+        value = value.strip()
+        if not value:
+            raise ValueError("Question text is empty")
+        return value
+
+    @field_validator("role", "topic", "reference_answer")
+    @classmethod
+    def _strip_optional(cls, value: Optional[str]) -> Optional[str]:
+        return _blank_to_none(value)
+
+    @field_validator("tags")
+    @classmethod
+    def _normalize_tags(cls, value: List[str]) -> List[str]:
+        return _labels([tag.lower() for tag in value])
+
+    @field_validator("sets")
+    @classmethod
+    def _normalize_sets(cls, value: List[str]) -> List[str]:
+        names = _labels(value)
+        if any(len(name) > SET_NAME_MAX_LENGTH for name in names):
+            raise ValueError(f"Set names are at most {SET_NAME_MAX_LENGTH} characters")
+        return names
+
+
+class QuestionSetIn(BaseModel):
+    name: str = Field(min_length=1, max_length=SET_NAME_MAX_LENGTH)
+    description: Optional[str] = Field(None, max_length=1000)
+
+    @field_validator("name")
+    @classmethod
+    def _strip_name(cls, value: str) -> str:
+        value = value.strip()
+        if not value:
+            raise ValueError("Set name is empty")
+        return value
+
+    @field_validator("description")
+    @classmethod
+    def _strip_description(cls, value: Optional[str]) -> Optional[str]:
+        return _blank_to_none(value)
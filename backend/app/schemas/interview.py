@@ -0,0 +1,39 @@
+from enum import Enum
+
+
+class Difficulty(str, Enum):
+    easy = "easy"
+    medium = "medium"
+    hard = "hard"
+
+
+class InterviewType(str, Enum):
+    behavioral = "behavioral"
+    technical = "technical"
+    system_design = "system_design"
+    # Rotates through the other three
+    mixed = "mixed"
+
+
+class QuestionType(str, Enum):
+    behavioral = "behavioral"
+    technical = "technical"
+    system_design = "system_design"
+
+
+class QuestionSource(str, Enum):
+    # Generated fresh for the interview
+    llm = "llm"
+    # Drawn from the question bank by role, difficulty and type
+    bank = "bank"
+    # Every question of a named set, in order
+    set = "set"
+
+
+class ReportFormat(str, Enum):
+    markdown = "markdown"
+    pdf = "pdf"
+
+    @property
+    def extension(self) -> str:
+        return "md" if self is ReportFormat.markdown else "pdf"
@@ -0,0 +1,164 @@
+from sqlalchemy import select, delete
+from sqlalchemy.exc import IntegrityError
+from sqlalchemy.ext.asyncio import AsyncSession
+from datetime import datetime, timedelta, timezone
+from functools import lru_cache
+from typing import Optional, Tuple
+import asyncio
+import base64
+import hashlib
+import hmac
+import secrets
+
+from app.core.config import settings
+from app.models import User, AuthToken
+
+# OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+PASSWORD_ITERATIONS = 600_000
+PASSWORD_SCHEME = "pbkdf2_sha256"
+
+
+class EmailTaken(Exception):
+    pass
+
+
+def normalize_email(email: str) -> str:
+    return email.strip().lower()
+
+
+# -------------------------------
+# Passwords
+# -------------------------------
+def _b64(data: bytes) -> str:
+    return base64.b64encode(data).decode("ascii")
+
+
+def hash_password(password: str) -> str:
+    salt = secrets.token_bytes(16)
+    digest = hashlib.pbkdf2_hmac("sha256", password.encode("utf-8"), salt, PASSWORD_ITERATIONS)
+    return f"{PASSWORD_SCHEME}${PASSWORD_ITERATIONS}${_b64(salt)}${_b64(digest)}"
+
+
+def verify_password(password: str, password_hash: Optional[str]) -> bool:
+    try:
+        scheme, iterations, salt, expected = (password_hash or "").split("$")
+    except ValueError:
+        return False
+    if scheme != PASSWORD_SCHEME:
+        return False
+    digest = hashlib.pbkdf2_hmac("sha256", password.encode("utf-8"), base64.b64decode(salt), int(iterations))
+    return hmac.compare_digest(digest, base64.b64decode(expected))
+
+
+@lru_cache(maxsize=1)
+def _decoy_hash() -> str:
+    # Checked against when the email is unknown, so the response time does
+    # not reveal which emails have accounts
+    return hash_password(secrets.token_urlsafe(16))
+
+
+async def register(db: AsyncSession, email: str, password: str) -> User:
+    email = normalize_email(email)
+    if await get_user_by_email(db, email) is not None:
+        raise EmailTaken(email)
+    # Hashing takes a noticeable fraction of a second; keep it off the event loop
+    password_hash = await asyncio.to_thread(hash_password, password)
+    user = User(email=email, password_hash=password_hash)
+    db.add(user)
+    try:
+        await db.commit()
+    except IntegrityError:
+        # Another registration for the same email committed first
+        await db.rollback()
+        raise EmailTaken(email)
+    return user
+
+
+async def authenticate(db: AsyncSession, email: str, password: str) -> Optional[User]:
+    user = await get_user_by_email(db, normalize_email(email))
+    password_hash = user.password_hash if user is not None and user.password_hash else _decoy_hash()
+    valid = await asyncio.to_thread(verify_password, password, password_hash)
+    return user if valid and user is not None else None
+
+
+async def get_user_by_email(db: AsyncSession, email: str) -> Optional[User]:
+    result = await db.execute(select(User).where(User.email == email))
+    return result.scalar_one_or_none()
+
+
+def is_admin(user: User) -> bool:
+    """Admins manage the shared question bank; listed in ADMIN_EMAILS."""
+    return user.email in settings.ADMIN_EMAILS
+
+
+async def dev_user(db: AsyncSession) -> User:
+    """The shared local development account, created on first use."""
+    email = normalize_email(settings.DEV_LOGIN_EMAIL)
+    user = await get_user_by_email(db, email)
+    if user is None:
+        user = User(email=email, password_hash=None)
+        db.add(user)
+        await db.commit()
+    return user
+
+
+# -------------------------------
+# Bearer tokens
+# -------------------------------
+def _digest(token: str) -> str:
+    return hashlib.sha256(token.encode("utf-8")).hexdigest()
+
+
+def _as_utc(value: datetime) -> datetime:
+    # SQLite hands timezone-aware columns back without a timezone
+    return value if value.tzinfo is not None else value.replace(tzinfo=timezone.utc)
+
+
+async def issue_token(db: AsyncSession, user: User) -> Tuple[str, datetime]:
+    """Start a session for `user`; only the token's digest is stored."""
+    token = secrets.token_urlsafe(32)
+    expires_at = datetime.now(timezone.utc) + timedelta(hours=settings.AUTH_TOKEN_TTL_HOURS)
+    db.add(AuthToken(user_id=user.id, token_hash=_digest(token), expires_at=expires_at))
+    await db.commit()
+    return token, expires_at
+
+
+async def user_for_token(db: AsyncSession, token: str) -> Optional[User]:
+    result = await db.execute(select(AuthToken).where(AuthToken.token_hash == _digest(token)))
+    record = result.scalar_one_or_none()
+    if record is None or _as_utc(record.expires_at) <= datetime.now(timezone.utc):
+        return None
+    return record.user
+
+
+async def revoke_token(db: AsyncSession, token: str) -> None:
+    await db.execute(delete(AuthToken).where(AuthToken.token_hash == _digest(token)))
+    await db.commit()
+
+
+# -------------------------------
+# Signed audio links
+# -------------------------------
+# Exported reports are read outside the app, where no bearer token is sent, so
+# their audio links carry an expiring signature instead
+@lru_cache(maxsize=1)
+def _audio_link_key() -> bytes:
+    secret = settings.AUDIO_LINK_SECRET
+    return secret.encode("utf-8") if secret else secrets.token_bytes(32)
+
+
+def _audio_signature(interview_id: str, audio_file: str, expires: int) -> str:
+    message = f"{interview_id}:{audio_file}:{expires}".encode("utf-8")
+    return hmac.new(_audio_link_key(), message, hashlib.sha256).hexdigest()
+
+
+def sign_audio_link(interview_id: str, audio_file: str) -> dict:
+    """Query parameters that let anyone holding the link fetch this one file until it expires."""
+    expires = int((datetime.now(timezone.utc) + timedelta(hours=settings.AUDIO_LINK_TTL_HOURS)).timestamp())
+    return {"expires": expires, "signature": _audio_signature(interview_id, audio_file, expires)}
+
+
+def verify_audio_link(interview_id: str, audio_file: str, expires: int, signature: str) -> bool:
+    if expires < datetime.now(timezone.utc).timestamp():
+        return False
+    return hmac.compare_digest(_audio_signature(interview_id, audio_file, expires), signature)
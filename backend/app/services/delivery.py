@@ -0,0 +1,82 @@
+from typing import Dict, List, Optional
+import re
+
+from app.services.stt import Transcription
+
+# Gaps between words longer than this count as a long pause
+LONG_PAUSE_SECONDS = 2.0
+
+# Per language; answers in other languages only get pace and pause metrics
+FILLERS = {
+    "en": ("um", "uh", "erm", "er", "ah", "hmm", "like", "you know", "i mean", "basically", "literally", "actually"),
+    "es": ("eh", "em", "este", "o sea", "pues", "bueno", "vale", "digamos", "en plan", "tipo"),
+    "de": ("äh", "ähm", "hm", "also", "halt", "sozusagen", "quasi", "irgendwie", "na ja", "eigentlich"),
+}
+HEDGES = {
+    "en": ("i think", "i guess", "i believe", "i'm not sure", "maybe", "probably", "perhaps", "sort of", "kind of", "hopefully"),
+    "es": ("creo que", "supongo", "quizás", "quizá", "tal vez", "a lo mejor", "no estoy seguro", "no estoy segura", "más o menos", "probablemente"),
+    "de": ("ich glaube", "ich denke", "vielleicht", "wahrscheinlich", "ich bin mir nicht sicher", "möglicherweise", "hoffentlich", "ungefähr"),
+}
+
+
+def _pattern(phrases) -> re.Pattern:
+    # Longest first so "i'm not sure" wins over shorter overlaps
+    alternatives = sorted((re.escape(p) for p in phrases), key=len, reverse=True)
+    return re.compile(rf"\b(?:{'|'.join(alternatives)})\b", re.IGNORECASE)
+
+
+FILLER_PATTERNS = {language: _pattern(phrases) for language, phrases in FILLERS.items()}
+HEDGE_PATTERNS = {language: _pattern(phrases) for language, phrases in HEDGES.items()}
+
+
+def _matches(pattern: Optional[re.Pattern], text: str, kind: str):
+    counts: Dict[str, int] = {}
+    highlights: List[dict] = []
+    if pattern is None:
+        return counts, highlights
+    for match in pattern.finditer(text):
+        term = match.group(0).lower()
+        counts[term] = counts.get(term, 0) + 1
+        highlights.append({"start": match.start(), "end": match.end(), "kind": kind})
+    return counts, highlights
+
+
+def analyze_delivery(transcription: Transcription, language: Optional[str] = None) -> dict:
+    """
+    Pace, pauses, fillers and hedging for one answer. Timing metrics are None
+    when the transcription has no word timings.
+    """
+    text = transcription.text
+    word_count = len(re.findall(r"\b[\w']+\b", text))
+    language = language or "en"
+    fillers, filler_spans = _matches(FILLER_PATTERNS.get(language), text, "filler")
+    hedges, hedge_spans = _matches(HEDGE_PATTERNS.get(language), text, "hedge")
+
+    speaking_seconds: Optional[float] = None
+    words_per_minute: Optional[float] = None
+    long_pauses: Optional[int] = None
+    longest_pause: Optional[float] = None
+
+    words = transcription.words
+    if words:
+        speaking_seconds = max(words[-1].end - words[0].start, 0.0)
+        if speaking_seconds > 0:
+            words_per_minute = round(len(words) / speaking_seconds * 60)
+        gaps = [b.start - a.end for a, b in zip(words, words[1:])]
+        long_pauses = sum(1 for gap in gaps if gap >= LONG_PAUSE_SECONDS)
+        longest_pause = round(max(gaps, default=0.0), 1)
+        speaking_seconds = round(speaking_seconds, 1)
+
+    return {
+        "word_count": word_count,
+        "speaking_seconds": speaking_seconds,
+        "words_per_minute": words_per_minute,
+        "filler_count": sum(fillers.values()),
+        "fillers": fillers,
+        "hedge_count": sum(hedges.values()),
+        "hedges": hedges,
+        "long_pauses": long_pauses,
+        "longest_pause_seconds": longest_pause,
+        # Character ranges in the transcript, in order, for highlighting
+        "highlights": sorted(filler_spans + hedge_spans, key=lambda span: span["start"])
+    }
@@ -1,42 +1,252 @@
-from app.services.llm import call_llm
+from functools import lru_cache
+from statistics import mean
+from typing import Annotated, List, Optional
 import json
 import re
 
-async def evaluate_answer(question, answer):
-    prompt = f"""
+from pydantic import BaseModel, ConfigDict, Field, StrictInt, ValidationError, create_model
+
+from app.services.languages import language_instruction
+from app.services.timing import ran_over, timing_note
+from app.services.llm import LLMError, ResponseSchema, call_llm, stream_llm
+from app.services.rubric import Rubric, dimension_payload
+
+# Attempts per answer, including the first; later ones are told what was wrong
+EVALUATION_ATTEMPTS = 3
+
+FEEDBACK_PREFIX = re.compile(r'"feedback"\s*:\s*"((?:[^"\\]|\\.)*)')
+
+Score = Annotated[StrictInt, Field(ge=0, le=10)]
+
+
+STAR_PARTS = ("situation", "task", "action", "result")
+
+
+class EvaluationReply(BaseModel):
+    model_config = ConfigDict(extra="forbid")
+
+    feedback: str = Field(min_length=1)
+
+
+class StarCoverage(BaseModel):
+    model_config = ConfigDict(extra="forbid")
+
+    situation: bool
+    task: bool
+    action: bool
+    result: bool
+
+
+@lru_cache
+def reply_model(rubric: Rubric) -> type:
+    """Pydantic model for the reply: one 0-10 integer per rubric dimension plus feedback."""
+    fields = {d.key: (Score, ...) for d in rubric.dimensions}
+    if rubric.checks_star:
+        fields["star"] = (StarCoverage, ...)
+    return create_model(f"{rubric.name.title()}Evaluation", __base__=EvaluationReply, **fields)
+
+
+def evaluation_schema(rubric: Rubric) -> ResponseSchema:
+    properties = {
+        d.key: {"type": "integer", "description": f"{d.label} from 0 to 10: {d.description}"}
+        for d in rubric.dimensions
+    }
+    if rubric.checks_star:
+        properties["star"] = {
+            "type": "object",
+            "description": "Whether the answer covers each part of the STAR method",
+            "properties": {part: {"type": "boolean"} for part in STAR_PARTS},
+            "required": list(STAR_PARTS),
+            "additionalProperties": False
+        }
+    properties["feedback"] = {"type": "string", "description": "Specific, actionable feedback on the answer"}
+    return ResponseSchema(
+        name="answer_evaluation",
+        schema={
+            "type": "object",
+            "properties": properties,
+            "required": list(properties),
+            "additionalProperties": False
+        }
+    )
+
+
+def build_evaluation_prompt(
+    question,
+    answer,
+    rubric: Rubric,
+    language: Optional[str] = None,
+    timing: Optional[dict] = None,
+    reference_answer: Optional[str] = None
+):
+    criteria = "\n".join(f"- {d.key} ({d.label}): {d.description}" for d in rubric.dimensions)
+    star = ""
+    if rubric.checks_star:
+        star = (
+            "\nAlso report in \"star\" whether the answer covers each STAR part (situation, task, action, result), "
+            "and name any missing part in the feedback.\n"
+        )
+    overrun = ""
+    if ran_over(timing):
+        overrun = (
+            "\nThe answer ran over its time limit. Say so in the feedback and judge it as an interviewer "
+            "who had to cut the candidate off would, favouring what was covered in time.\n"
+        )
+    reference = ""
+    if reference_answer:
+        reference = (
+            f"\nReference answer from the interviewers:\n\"\"\"\n{reference_answer}\n\"\"\"\n"
+            "Score correctness by how well the answer matches the reference answer's key points, giving credit "
+            "for other approaches that are also correct, and name any key point missed or got wrong in the feedback.\n"
+        )
+    return f"""
 Question: {question}
 Answer: {answer}
+{timing_note(timing)}{reference}
+Evaluate the answer with an integer score from 0 to 10 on each of these dimensions:
+{criteria}
+{star}{overrun}{language_instruction(language, 'the feedback')}
+Return ONLY valid JSON with one integer per dimension key and a "feedback" string, no markdown or extra text.
+"""
 
-Evaluate from 0-10 on:
-- Relevance
-- Clarity
-- Correctness
 
-Return ONLY valid JSON, no markdown or extra text:
-{{"relevance": int, "clarity": int, "correctness": int, "feedback": "text"}}
-"""
-    result = await call_llm(prompt)
-    
-    # Try to extract JSON from markdown code blocks or find JSON object
+def retry_prompt(prompt: str, error: Optional[str]) -> str:
+    if error is None:
+        return prompt
+    return f"{prompt}\nYour previous reply was rejected ({error}). Reply again with JSON that matches the schema exactly.\n"
+
+
+def scored_evaluation(rubric: Rubric, scores: dict, feedback: str, star: Optional[dict] = None) -> dict:
+    total_weight = sum(d.weight for d in rubric.dimensions)
+    overall = sum(scores[d.key] * d.weight for d in rubric.dimensions) / total_weight
+    evaluation = {
+        "status": "ok",
+        "rubric": rubric.name,
+        "dimensions": dimension_payload(rubric),
+        "scores": scores,
+        "overall": round(overall, 1),
+        "feedback": feedback
+    }
+    if star is not None:
+        evaluation["star"] = star
+    return evaluation
+
+
+def failed_evaluation(rubric: Rubric, error: str) -> dict:
+    """Stored instead of made-up scores when the evaluator never produced a valid reply."""
+    return {
+        "status": "failed",
+        "rubric": rubric.name,
+        "dimensions": dimension_payload(rubric),
+        "error": error
+    }
+
+
+def parse_evaluation(reply: str, rubric: Rubric) -> dict:
+    """Validate a reply against the rubric; raises ValueError if it does not conform."""
+    parsed = reply_model(rubric).model_validate_json(reply)
+    scores = {d.key: getattr(parsed, d.key) for d in rubric.dimensions}
+    star = parsed.star.model_dump() if rubric.checks_star else None
+    return scored_evaluation(rubric, scores, parsed.feedback, star)
+
+
+def _short_error(e: Exception) -> str:
+    if isinstance(e, ValidationError):
+        return "; ".join(f"{'.'.join(map(str, err['loc'])) or 'reply'}: {err['msg']}" for err in e.errors())
+    return str(e)
+
+
+async def _evaluate_with_retries(prompt: str, rubric: Rubric, attempts: int, error: Optional[str] = None) -> dict:
+    for attempt in range(attempts):
+        try:
+            reply = await call_llm(retry_prompt(prompt, error), evaluation_schema(rubric))
+            return parse_evaluation(reply, rubric)
+        except ValidationError as e:
+            error = _short_error(e)
+            print(f"Evaluation attempt {attempt + 1} rejected: {error}")
+        except LLMError as e:
+            print(f"Evaluation attempt {attempt + 1} failed: {e}")
+    return failed_evaluation(rubric, "The evaluator did not return a valid result.")
+
+
+async def evaluate_answer(
+    question,
+    answer,
+    rubric: Rubric,
+    language: Optional[str] = None,
+    timing: Optional[dict] = None,
+    reference_answer: Optional[str] = None
+):
+    prompt = build_evaluation_prompt(question, answer, rubric, language, timing, reference_answer)
+    return await _evaluate_with_retries(prompt, rubric, EVALUATION_ATTEMPTS)
+
+
+def _partial_feedback(text):
+    """The feedback string decoded as far as it has been generated."""
+    match = FEEDBACK_PREFIX.search(text)
+    if not match:
+        return ""
+    raw = match.group(1)
+    # Drop a dangling escape so the partial value still decodes
+    if raw.endswith("\\") and not raw.endswith("\\\\"):
+        raw = raw[:-1]
     try:
-        # Remove markdown code blocks if present
-        json_match = re.search(r'```(?:json)?\s*(\{.*?\})\s*```', result, re.DOTALL)
-        if json_match:
-            result = json_match.group(1)
-        else:
-            # Try to find JSON object in the response
-            json_match = re.search(r'\{.*\}', result, re.DOTALL)
-            if json_match:
-                result = json_match.group(0)
-        
-        return json.loads(result)
-    except (json.JSONDecodeError, AttributeError) as e:
-        # Fallback to default values if JSON parsing fails
-        print(f"JSON parsing error: {e}")
-        print(f"LLM response: {result}")
-        return {
-            "relevance": 5,
-            "clarity": 5,
-            "correctness": 5,
-            "feedback": "Unable to evaluate answer properly. Please try again."
-        }
+        return json.loads(f'"{raw}"')
+    except json.JSONDecodeError:
+        return raw
+
+
+async def stream_evaluate_answer(
+    question,
+    answer,
+    rubric: Rubric,
+    language: Optional[str] = None,
+    timing: Optional[dict] = None,
+    reference_answer: Optional[str] = None
+):
+    """
+    Async generator over ("feedback", delta) pairs while the model writes the
+    feedback field, finishing with a single ("result", evaluation) pair. A
+    malformed streamed reply falls back to the regular retries.
+    """
+    prompt = build_evaluation_prompt(question, answer, rubric, language, timing, reference_answer)
+    text = ""
+    sent = ""
+    try:
+        async for token in stream_llm(prompt, evaluation_schema(rubric)):
+            text += token
+            feedback = _partial_feedback(text)
+            if len(feedback) > len(sent):
+                yield "feedback", feedback[len(sent):]
+                sent = feedback
+        yield "result", parse_evaluation(text, rubric)
+        return
+    except ValidationError as e:
+        error = _short_error(e)
+        print(f"Streamed evaluation rejected: {error}")
+    except LLMError as e:
+        error = None
+        print(f"Streamed evaluation failed: {e}")
+    yield "result", await _evaluate_with_retries(prompt, rubric, EVALUATION_ATTEMPTS - 1, error)
+
+
+def average_scores(evaluations: List[dict]) -> Optional[dict]:
+    """Per-dimension and overall averages across successful evaluations."""
+    scored = [e for e in evaluations if e.get("status") == "ok"]
+    if not scored:
+        return None
+    labels = {}
+    for evaluation in scored:
+        for dimension in evaluation["dimensions"]:
+            labels.setdefault(dimension["key"], dimension["label"])
+    return {
+        "overall": round(mean(e["overall"] for e in scored), 1),
+        "dimensions": [
+            {
+                "key": key,
+                "label": label,
+                "score": round(mean(e["scores"][key] for e in scored if key in e["scores"]), 1)
+            }
+            for key, label in labels.items()
+        ]
+    }
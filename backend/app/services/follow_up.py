@@ -0,0 +1,66 @@
+from typing import Optional
+
+from pydantic import BaseModel, ConfigDict, ValidationError
+
+from app.services.languages import language_instruction
+from app.services.llm import LLMError, ResponseSchema, call_llm
+
+# Answers scoring at least this overall are strong enough to move on from
+STRONG_ANSWER_SCORE = 7.5
+
+FOLLOW_UP_SCHEMA = ResponseSchema(
+    name="follow_up",
+    schema={
+        "type": "object",
+        "properties": {
+            "follow_up": {
+                "type": "boolean",
+                "description": "Whether the answer is vague or incomplete enough to probe further"
+            },
+            "question": {
+                "type": "string",
+                "description": "A single follow-up question that probes the gaps in the answer"
+            }
+        },
+        "required": ["follow_up", "question"],
+        "additionalProperties": False
+    }
+)
+
+
+class FollowUpReply(BaseModel):
+    model_config = ConfigDict(extra="forbid")
+
+    follow_up: bool
+    question: str
+
+
+def worth_probing(evaluation: dict) -> bool:
+    """Skip the LLM call entirely for answers that scored well."""
+    return evaluation.get("status") != "ok" or evaluation["overall"] < STRONG_ANSWER_SCORE
+
+
+async def generate_follow_up(question: str, answer: str, language: Optional[str] = None) -> Optional[str]:
+    """A probing follow-up question, or None if the interviewer should move on."""
+    prompt = f"""
+You are an interviewer deciding whether to probe the candidate's last answer.
+
+Question: {question}
+Answer: {answer}
+
+If the answer is vague, generic, incomplete or avoids the question, ask ONE short,
+spoken follow-up that digs into what is missing (e.g. a concrete example, the
+reasoning behind a decision, or the result). If the answer is already specific
+and complete, set follow_up to false and leave question empty.
+{language_instruction(language, 'the follow-up question')}
+Return ONLY valid JSON, no markdown or extra text:
+{{"follow_up": bool, "question": "text"}}
+"""
+    try:
+        reply = FollowUpReply.model_validate_json(await call_llm(prompt, FOLLOW_UP_SCHEMA))
+    except (ValidationError, LLMError) as e:
+        # A missing follow-up only means the interview moves on
+        print(f"Follow-up generation failed: {e}")
+        return None
+    text = reply.question.strip()
+    return text if reply.follow_up and text else None
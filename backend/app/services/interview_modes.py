@@ -0,0 +1,69 @@
+from typing import List
+
+from app.schemas.interview import InterviewType
+
+# How questions of each type should be asked
+QUESTION_STRATEGIES = {
+    InterviewType.behavioral.value: (
+        "Behavioral: ask about a specific past experience (e.g. \"Tell me about a time...\") "
+        "that the candidate can answer with Situation, Task, Action and Result"
+    ),
+    InterviewType.technical.value: (
+        "Technical: test concrete knowledge, reasoning and problem solving needed in the role"
+    ),
+    InterviewType.system_design.value: (
+        "System design: ask the candidate to design a system relevant to the role, leaving room "
+        "to discuss requirements, trade-offs and scaling"
+    ),
+}
+
+MIXED_ROTATION = (InterviewType.behavioral, InterviewType.technical, InterviewType.system_design)
+
+LABELS = {
+    InterviewType.behavioral.value: "Behavioral",
+    InterviewType.technical.value: "Technical",
+    InterviewType.system_design.value: "System Design",
+    InterviewType.mixed.value: "Mixed",
+}
+
+
+def question_types(interview_type: InterviewType, count: int) -> List[str]:
+    """The type of each question to generate; mixed interviews rotate through all three."""
+    if interview_type == InterviewType.mixed:
+        return [MIXED_ROTATION[i % len(MIXED_ROTATION)].value for i in range(count)]
+    return [interview_type.value] * count
+
+
+def question_guidance(types: List[str]) -> str:
+    """Prompt lines telling the model which kind of question goes where."""
+    if len(set(types)) == 1:
+        return f"Question style - {QUESTION_STRATEGIES[types[0]]}\n"
+    lines = "\n".join(f"{i}. {QUESTION_STRATEGIES[t]}" for i, t in enumerate(types, 1))
+    return f"Return the questions in this order, one of each style listed:\n{lines}\n"
+
+
+# Used when the model's reply cannot be parsed; {role} is filled in
+FALLBACK_QUESTIONS = {
+    InterviewType.behavioral.value: [
+        "Tell me about a time you disagreed with a teammate and how you resolved it.",
+        "Describe a challenging project you've worked on and your part in its outcome.",
+        "Tell me about a time you had to deliver under a tight deadline.",
+    ],
+    InterviewType.technical.value: [
+        "What technical skills do you bring to the {role} position?",
+        "Tell me about your experience with {role} responsibilities.",
+        "How do you keep your {role} skills up to date?",
+    ],
+    InterviewType.system_design.value: [
+        "Design a system a {role} would build to handle a sudden tenfold increase in traffic.",
+        "How would you design a notification service that sends millions of messages a day?",
+        "Design a URL shortener. What are the requirements and how would it scale?",
+    ],
+}
+
+
+def fallback_questions(role: str, types: List[str]) -> List[str]:
+    return [
+        FALLBACK_QUESTIONS[t][i % len(FALLBACK_QUESTIONS[t])].format(role=role)
+        for i, t in enumerate(types)
+    ]
@@ -0,0 +1,239 @@
+from sqlalchemy import select
+from sqlalchemy.ext.asyncio import AsyncSession
+from datetime import datetime, timezone
+from typing import List, Optional, Set
+import uuid
+
+from app.core.config import settings
+from app.models import BankQuestion, Interview, Question, Answer
+from app.services.stt import TranscriptionOptions
+
+
+async def create_interview(
+    db: AsyncSession,
+    user_id: uuid.UUID,
+    role: str,
+    difficulty: str,
+    questions: List[str],
+    interview_type: str,
+    question_types: List[str],
+    follow_ups: bool = True,
+    job_description: Optional[str] = None,
+    resume_text: Optional[str] = None,
+    stt_model: Optional[str] = None,
+    language: Optional[str] = None,
+    tts_voice: Optional[str] = None,
+    tts_rate: float = 1.0,
+    prep_seconds: int = 0,
+    time_limits: Optional[dict] = None,
+    bank_questions: Optional[List[BankQuestion]] = None
+) -> Interview:
+    """
+    `bank_questions`, when the questions come from the bank, lines up with
+    `questions`; their reference answers are copied so that later edits to
+    the bank do not change how this interview is graded.
+    """
+    interview = Interview(
+        user_id=user_id,
+        role=role,
+        difficulty=difficulty,
+        interview_type=interview_type,
+        current_question=0,
+        status="in_progress",
+        follow_ups=follow_ups,
+        job_description=job_description,
+        resume_text=resume_text,
+        stt_model=stt_model,
+        language=language,
+        tts_voice=tts_voice,
+        tts_rate=tts_rate,
+        prep_seconds=prep_seconds,
+        time_limits=time_limits
+    )
+    interview.questions = [
+        Question(position=i, text=text, question_type=question_type)
+        for i, (text, question_type) in enumerate(zip(questions, question_types))
+    ]
+    for question, bank_question in zip(interview.questions, bank_questions or []):
+        question.bank_question_id = bank_question.id
+        question.reference_answer = bank_question.reference_answer
+    db.add(interview)
+    await db.commit()
+    return interview
+
+
+async def get_interview(db: AsyncSession, interview_id: str, user_id: uuid.UUID) -> Optional[Interview]:
+    """The interview, if it exists and belongs to `user_id`."""
+    try:
+        key = uuid.UUID(interview_id)
+    except ValueError:
+        return None
+    result = await db.execute(
+        select(Interview).where(Interview.id == key, Interview.user_id == user_id)
+    )
+    return result.scalar_one_or_none()
+
+
+async def list_interviews(db: AsyncSession, user_id: uuid.UUID) -> List[Interview]:
+    result = await db.execute(
+        select(Interview).where(Interview.user_id == user_id).order_by(Interview.created_at.desc())
+    )
+    return list(result.scalars().all())
+
+
+def current_question(interview: Interview) -> Optional[Question]:
+    # An interview ended early keeps its unanswered questions but asks none of them
+    if interview.status == "completed" or interview.current_question >= len(interview.questions):
+        return None
+    return interview.questions[interview.current_question]
+
+
+def last_answered_question(interview: Interview) -> Optional[Question]:
+    if interview.current_question == 0:
+        return None
+    return interview.questions[interview.current_question - 1]
+
+
+def main_questions(interview: Interview) -> List[Question]:
+    """The planned questions, without follow-ups."""
+    return [q for q in interview.questions if q.parent_id is None]
+
+
+def main_index(interview: Interview, question: Question) -> int:
+    """Index of the main question this question is, or follows up on."""
+    root = question.parent_id or question.id
+    return next(i for i, q in enumerate(main_questions(interview)) if q.id == root)
+
+
+def follow_ups_of(interview: Interview, question: Question) -> List[Question]:
+    return [q for q in interview.questions if q.parent_id == question.id]
+
+
+async def add_follow_up(db: AsyncSession, interview: Interview, parent: Question, text: str) -> Question:
+    """Insert a follow-up so it is the next question asked."""
+    follow_up = Question(
+        interview_id=interview.id,
+        parent_id=parent.id,
+        text=text,
+        question_type=parent.question_type
+    )
+    interview.questions.insert(interview.current_question, follow_up)
+    for position, question in enumerate(interview.questions):
+        question.position = position
+    await db.commit()
+    return follow_up
+
+
+def interview_language(interview: Interview) -> Optional[str]:
+    """The language questions, answers and feedback are in; None lets speech-to-text detect it."""
+    return interview.language or settings.STT_LANGUAGE
+
+
+def transcription_options(interview: Interview) -> TranscriptionOptions:
+    return TranscriptionOptions(model=interview.stt_model, language=interview_language(interview))
+
+
+def audio_files(interview: Interview) -> Set[str]:
+    """Every question and answer recording that belongs to the interview."""
+    files = set()
+    for question in interview.questions:
+        if question.audio_file:
+            files.add(question.audio_file)
+        if question.answer is not None and question.answer.audio_file:
+            files.add(question.answer.audio_file)
+    return files
+
+
+def answer_target(interview: Interview, replace: bool) -> Optional[Question]:
+    """The question a new recording answers: the current one, or the last answered one on retry."""
+    return last_answered_question(interview) if replace else current_question(interview)
+
+
+async def record_answer(
+    db: AsyncSession,
+    interview: Interview,
+    question: Question,
+    transcript: str,
+    evaluation: dict,
+    audio_file: Optional[str],
+    delivery: Optional[dict] = None,
+    submitted_at: Optional[datetime] = None,
+    timing: Optional[dict] = None
+) -> Answer:
+    """Store the answer to the current question and advance the interview."""
+    question.answer = Answer(
+        transcript=transcript,
+        evaluation=evaluation,
+        audio_file=audio_file,
+        delivery=delivery,
+        submitted_at=submitted_at or datetime.now(timezone.utc),
+        timing=timing
+    )
+    interview.current_question += 1
+    await db.commit()
+    return question.answer
+
+
+async def replace_answer(
+    db: AsyncSession,
+    question: Question,
+    transcript: str,
+    evaluation: dict,
+    audio_file: Optional[str],
+    delivery: Optional[dict] = None,
+    submitted_at: Optional[datetime] = None,
+    timing: Optional[dict] = None
+) -> Answer:
+    """Overwrite an existing answer in place, keeping count of attempts."""
+    answer = question.answer
+    answer.transcript = transcript
+    answer.evaluation = evaluation
+    answer.audio_file = audio_file
+    answer.delivery = delivery
+    answer.submitted_at = submitted_at or datetime.now(timezone.utc)
+    answer.timing = timing
+    answer.attempts += 1
+    await db.commit()
+    return answer
+
+
+async def update_evaluation(db: AsyncSession, question: Question, evaluation: dict) -> Answer:
+    """Replace only the evaluation of an answer, e.g. after re-running a failed one."""
+    question.answer.evaluation = evaluation
+    await db.commit()
+    return question.answer
+
+
+async def mark_question_asked(db: AsyncSession, question: Question, audio_file: Optional[str]) -> None:
+    question.audio_file = audio_file
+    if question.asked_at is None:
+        question.asked_at = datetime.now(timezone.utc)
+    await db.commit()
+
+
+async def mark_answer_started(db: AsyncSession, question: Question) -> None:
+    """Note when the candidate began a take; answer time runs from here."""
+    question.answer_started_at = datetime.now(timezone.utc)
+    await db.commit()
+
+
+async def mark_completed(db: AsyncSession, interview: Interview) -> None:
+    if interview.status != "completed":
+        interview.status = "completed"
+        await db.commit()
+
+
+def answer_records(interview: Interview) -> List[dict]:
+    """Answered questions in order, in the shape the summary prompt expects."""
+    return [
+        {
+            "question": q.text,
+            "follow_up": q.parent_id is not None,
+            "question_type": q.question_type,
+            "transcript": q.answer.transcript,
+            "evaluation": q.answer.evaluation,
+            "timing": q.answer.timing
+        }
+        for q in interview.questions
+        if q.answer is not None
+    ]
@@ -0,0 +1,42 @@
+from typing import Dict, NamedTuple, Optional
+
+
+class Language(NamedTuple):
+    code: str
+    # English name, as the LLM is instructed in English
+    name: str
+    # Written in Latin script, so the PDF report's built-in font can show it
+    latin_script: bool = True
+
+
+LANGUAGES: Dict[str, Language] = {
+    language.code: language
+    for language in (
+        Language("en", "English"),
+        Language("es", "Spanish"),
+        Language("de", "German"),
+        Language("fr", "French"),
+        Language("pt", "Portuguese"),
+        Language("it", "Italian"),
+        Language("nl", "Dutch"),
+        Language("hi", "Hindi", latin_script=False),
+        Language("ja", "Japanese", latin_script=False),
+        Language("zh", "Chinese", latin_script=False),
+    )
+}
+
+DEFAULT_LANGUAGE = "en"
+
+
+def is_supported(code: str) -> bool:
+    return code in LANGUAGES
+
+
+def language_instruction(code: Optional[str], subject: str) -> str:
+    """
+    Prompt line asking for `subject` in the interview language. Prompts stay
+    unchanged for English.
+    """
+    if not code or code == DEFAULT_LANGUAGE or code not in LANGUAGES:
+        return ""
+    return f"Write {subject} in {LANGUAGES[code].name}, whatever language this prompt is in.\n"
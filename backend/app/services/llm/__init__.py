@@ -0,0 +1,47 @@
+from functools import lru_cache
+from typing import AsyncIterator, Optional
+
+from app.core.config import settings
+from app.services.llm.base import LLMError, LLMProvider, ResponseSchema
+from app.services.llm.openai_provider import OpenAIProvider
+from app.services.llm.stub import StubProvider
+
+PROVIDERS = ("openai", "openai_compatible", "stub")
+
+
+@lru_cache
+def get_llm_provider() -> LLMProvider:
+    """Build the provider selected by LLM_PROVIDER once and reuse it."""
+    provider = settings.LLM_PROVIDER
+    if provider == "stub":
+        return StubProvider()
+    if provider == "openai":
+        return OpenAIProvider(
+            api_key=settings.OPENAI_API_KEY,
+            model=settings.LLM_MODEL,
+            temperature=settings.LLM_TEMPERATURE,
+            timeout=settings.LLM_TIMEOUT
+        )
+    if provider == "openai_compatible":
+        if not settings.LLM_BASE_URL:
+            raise ValueError("LLM_BASE_URL is required for the openai_compatible provider")
+        return OpenAIProvider(
+            # Local servers usually ignore the key, but the client insists on one
+            api_key=settings.LLM_API_KEY or "not-needed",
+            model=settings.LLM_MODEL,
+            temperature=settings.LLM_TEMPERATURE,
+            timeout=settings.LLM_TIMEOUT,
+            base_url=settings.LLM_BASE_URL,
+            name="openai_compatible"
+        )
+    raise ValueError(f"Unknown LLM_PROVIDER '{provider}', expected one of {', '.join(PROVIDERS)}")
+
+
+async def call_llm(prompt: str, response_schema: Optional[ResponseSchema] = None) -> str:
+    return await get_llm_provider().complete(prompt, response_schema)
+
+
+async def stream_llm(prompt: str, response_schema: Optional[ResponseSchema] = None) -> AsyncIterator[str]:
+    """Yield the completion text piece by piece as the model produces it."""
+    async for token in get_llm_provider().stream(prompt, response_schema):
+        yield token
@@ -0,0 +1,28 @@
+from abc import ABC, abstractmethod
+from dataclasses import dataclass
+from typing import AsyncIterator, Optional
+
+
+class LLMError(Exception):
+    """The provider could not produce a completion (network, auth, timeout...)."""
+
+
+@dataclass(frozen=True)
+class ResponseSchema:
+    """A JSON schema the reply must follow (structured output)."""
+    name: str
+    schema: dict
+
+
+class LLMProvider(ABC):
+    """A chat model that answers a single user prompt."""
+
+    name: str
+
+    @abstractmethod
+    async def complete(self, prompt: str, response_schema: Optional[ResponseSchema] = None) -> str:
+        """Return the full completion text."""
+
+    @abstractmethod
+    def stream(self, prompt: str, response_schema: Optional[ResponseSchema] = None) -> AsyncIterator[str]:
+        """Yield the completion text piece by piece as it is produced."""
@@ -0,0 +1,58 @@
+from typing import AsyncIterator, Optional
+
+from openai import AsyncOpenAI, OpenAIError
+
+from app.services.llm.base import LLMError, LLMProvider, ResponseSchema
+
+
+class OpenAIProvider(LLMProvider):
+    """
+    OpenAI chat completions. Passing base_url points it at any server that
+    speaks the same API (Ollama, LM Studio, vLLM, llama.cpp).
+    """
+
+    def __init__(
+        self,
+        api_key: Optional[str],
+        model: str,
+        temperature: float,
+        timeout: float,
+        base_url: Optional[str] = None,
+        name: str = "openai"
+    ):
+        self.name = name
+        self.model = model
+        self.temperature = temperature
+        self.client = AsyncOpenAI(api_key=api_key, base_url=base_url, timeout=timeout)
+
+    def _request(self, prompt: str, response_schema: Optional[ResponseSchema]) -> dict:
+        request = {
+            "model": self.model,
+            "messages": [{"role": "user", "content": prompt}],
+            "temperature": self.temperature
+        }
+        if response_schema is not None:
+            request["response_format"] = {
+                "type": "json_schema",
+                "json_schema": {"name": response_schema.name, "schema": response_schema.schema, "strict": True}
+            }
+        return request
+
+    async def complete(self, prompt: str, response_schema: Optional[ResponseSchema] = None) -> str:
+        try:
+            response = await self.client.chat.completions.create(**self._request(prompt, response_schema))
+        except OpenAIError as e:
+            raise LLMError(str(e)) from e
+        return response.choices[0].message.content or ""
+
+    async def stream(self, prompt: str, response_schema: Optional[ResponseSchema] = None) -> AsyncIterator[str]:
+        try:
+            stream = await self.client.chat.completions.create(
+                **self._request(prompt, response_schema),
+                stream=True
+            )
+            async for chunk in stream:
+                if chunk.choices and chunk.choices[0].delta.content:
+                    yield chunk.choices[0].delta.content
+        except OpenAIError as e:
+            raise LLMError(str(e)) from e
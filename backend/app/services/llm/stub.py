@@ -0,0 +1,86 @@
+import json
+import re
+from typing import AsyncIterator, Optional
+
+from app.services.llm.base import LLMProvider, ResponseSchema
+
+QUESTION_REQUEST = re.compile(r"Generate (\d+) interview questions for the role: (.+?)\.\n")
+
+STUB_QUESTIONS = [
+    "Tell me about a project you are proud of as a {role}.",
+    "Walk me through how you would approach an unfamiliar problem in this role.",
+    "Describe a time you disagreed with a teammate and how you resolved it.",
+    "What trade-offs do you weigh most often in your day-to-day work as a {role}?",
+    "How do you keep your skills current?",
+]
+
+
+def _questions(prompt: str) -> str:
+    match = QUESTION_REQUEST.search(prompt)
+    count, role = (int(match.group(1)), match.group(2)) if match else (3, "candidate")
+    questions = [
+        STUB_QUESTIONS[i % len(STUB_QUESTIONS)].format(role=role)
+        for i in range(count)
+    ]
+    return json.dumps(questions)
+
+
+def _summary(prompt: str) -> str:
+    summary = {
+        "overall_feedback": "Stub summary: answers were on topic and reasonably clear.",
+        "strengths": "Stayed relevant to each question.",
+        "improvements": "Support claims with specific examples and outcomes."
+    }
+    if '"fit"' in prompt:
+        summary["fit"] = "Stub fit: covers the core requirements of the job description."
+    return json.dumps(summary)
+
+
+def _from_schema(schema: dict, index: int = 0):
+    """A value that satisfies a JSON schema, varied a little by position."""
+    kind = schema.get("type")
+    if kind == "object":
+        return {
+            key: _from_schema(value, i)
+            for i, (key, value) in enumerate(schema.get("properties", {}).items())
+        }
+    if kind == "array":
+        return [_from_schema(schema.get("items", {}), 0)]
+    if kind == "integer":
+        return 6 + index % 3
+    if kind == "number":
+        return 6.5
+    if kind == "boolean":
+        return True
+    if "enum" in schema:
+        return schema["enum"][0]
+    return f"Stub {schema.get('description', 'text').rstrip('.').lower()}."
+
+
+# Matched in order against the prompt; the first marker found picks the reply
+RESPONDERS = [
+    ('"overall_feedback"', _summary),
+    ("JSON array of strings", _questions),
+]
+
+
+class StubProvider(LLMProvider):
+    """
+    Offline provider returning canned, schema-valid JSON for each prompt the
+    app sends. Replies depend only on the prompt, so runs are reproducible.
+    """
+
+    name = "stub"
+
+    async def complete(self, prompt: str, response_schema: Optional[ResponseSchema] = None) -> str:
+        if response_schema is not None:
+            return json.dumps(_from_schema(response_schema.schema))
+        for marker, respond in RESPONDERS:
+            if marker in prompt:
+                return respond(prompt)
+        return "Stub response."
+
+    async def stream(self, prompt: str, response_schema: Optional[ResponseSchema] = None) -> AsyncIterator[str]:
+        text = await self.complete(prompt, response_schema)
+        for piece in re.findall(r"\S+\s*", text):
+            yield piece
@@ -0,0 +1,297 @@
+from sqlalchemy import select, func
+from sqlalchemy.ext.asyncio import AsyncSession
+from typing import Dict, List, Optional
+import csv
+import io
+import json
+import random
+import uuid
+
+from pydantic import ValidationError
+
+from app.models import BankQuestion, QuestionSet, QuestionSetItem
+from app.schemas.bank import BankFormat, BankQuestionIn, QuestionSetIn
+from app.schemas.interview import InterviewType
+
+# Columns of a CSV export, and what an import reads; tags and sets are
+# separated by semicolons within their cell
+CSV_FIELDS = ["text", "role", "topic", "difficulty", "question_type", "reference_answer", "tags", "sets"]
+LIST_SEPARATOR = ";"
+
+
+class SetNameTaken(Exception):
+    pass
+
+
+class InvalidImport(Exception):
+    pass
+
+
+def _parse_id(value: str) -> Optional[uuid.UUID]:
+    try:
+        return uuid.UUID(value)
+    except ValueError:
+        return None
+
+
+# -------------------------------
+# Questions
+# -------------------------------
+async def list_questions(
+    db: AsyncSession,
+    role: Optional[str] = None,
+    topic: Optional[str] = None,
+    difficulty: Optional[str] = None,
+    question_type: Optional[str] = None,
+    tag: Optional[str] = None,
+    search: Optional[str] = None
+) -> List[BankQuestion]:
+    query = select(BankQuestion).order_by(BankQuestion.created_at)
+    if role:
+        query = query.where(func.lower(BankQuestion.role) == role.strip().lower())
+    if topic:
+        query = query.where(func.lower(BankQuestion.topic) == topic.strip().lower())
+    if difficulty:
+        query = query.where(BankQuestion.difficulty == difficulty)
+    if question_type:
+        query = query.where(BankQuestion.question_type == question_type)
+    if search:
+        query = query.where(BankQuestion.text.ilike(f"%{search.strip()}%"))
+    result = await db.execute(query)
+    questions = list(result.scalars().all())
+    # Tags are a JSON list, which databases query differently; the bank is small
+    if tag:
+        questions = [q for q in questions if tag.strip().lower() in q.tags]
+    return questions
+
+
+async def get_question(db: AsyncSession, question_id: str) -> Optional[BankQuestion]:
+    key = _parse_id(question_id)
+    return await db.get(BankQuestion, key) if key else None
+
+
+def set_names(question: BankQuestion) -> List[str]:
+    return [item.question_set.name for item in question.set_items]
+
+
+async def _sets_by_name(db: AsyncSession, names: List[str]) -> List[QuestionSet]:
+    """The sets with these names, creating any that do not exist yet."""
+    if not names:
+        return []
+    result = await db.execute(select(QuestionSet).where(QuestionSet.name.in_(names)))
+    existing = {s.name: s for s in result.scalars().all()}
+    sets = []
+    for name in names:
+        if name not in existing:
+            existing[name] = QuestionSet(name=name, items=[])
+            db.add(existing[name])
+        sets.append(existing[name])
+    return sets
+
+
+async def _assign_sets(db: AsyncSession, question: BankQuestion, names: List[str]) -> None:
+    """Keep the question's place in sets it stays in; new sets get it last."""
+    wanted = await _sets_by_name(db, names)
+    for item in [i for i in question.set_items if i.question_set.name not in names]:
+        # Out of both collections, or the stale one would still list it
+        question.set_items.remove(item)
+        item.question_set.items.remove(item)
+        await db.delete(item)
+    kept = {item.question_set.name for item in question.set_items}
+    for question_set in wanted:
+        if question_set.name not in kept:
+            position = max((item.position for item in question_set.items), default=-1) + 1
+            question.set_items.append(QuestionSetItem(question_set=question_set, position=position))
+
+
+def _apply(question: BankQuestion, data: BankQuestionIn) -> None:
+    question.text = data.text
+    question.role = data.role
+    question.topic = data.topic
+    question.difficulty = data.difficulty.value
+    question.question_type = data.question_type.value
+    question.reference_answer = data.reference_answer
+    question.tags = data.tags
+
+
+async def create_question(db: AsyncSession, data: BankQuestionIn) -> BankQuestion:
+    question = BankQuestion(set_items=[])
+    _apply(question, data)
+    db.add(question)
+    await _assign_sets(db, question, data.sets)
+    await db.commit()
+    return question
+
+
+async def update_question(db: AsyncSession, question: BankQuestion, data: BankQuestionIn) -> BankQuestion:
+    _apply(question, data)
+    await _assign_sets(db, question, data.sets)
+    await db.commit()
+    return question
+
+
+async def delete_question(db: AsyncSession, question: BankQuestion) -> None:
+    await db.delete(question)
+    await db.commit()
+
+# -------------------------------
+# Sets
+# -------------------------------
+async def list_sets(db: AsyncSession) -> List[QuestionSet]:
+    result = await db.execute(select(QuestionSet).order_by(QuestionSet.name))
+    return list(result.scalars().all())
+
+
+async def get_set(db: AsyncSession, set_id: str) -> Optional[QuestionSet]:
+    key = _parse_id(set_id)
+    return await db.get(QuestionSet, key) if key else None
+
+
+async def _ensure_name_free(db: AsyncSession, name: str, current: Optional[QuestionSet] = None) -> None:
+    result = await db.execute(select(QuestionSet).where(QuestionSet.name == name))
+    match = result.scalar_one_or_none()
+    if match is not None and match is not current:
+        raise SetNameTaken(name)
+
+
+async def create_set(db: AsyncSession, data: QuestionSetIn) -> QuestionSet:
+    await _ensure_name_free(db, data.name)
+    question_set = QuestionSet(name=data.name, description=data.description, items=[])
+    db.add(question_set)
+    await db.commit()
+    return question_set
+
+
+async def update_set(db: AsyncSession, question_set: QuestionSet, data: QuestionSetIn) -> QuestionSet:
+    await _ensure_name_free(db, data.name, question_set)
+    question_set.name = data.name
+    question_set.description = data.description
+    await db.commit()
+    return question_set
+
+
+async def delete_set(db: AsyncSession, question_set: QuestionSet) -> None:
+    """Remove the set; its questions stay in the bank."""
+    await db.delete(question_set)
+    await db.commit()
+
+
+def set_questions(question_set: QuestionSet) -> List[BankQuestion]:
+    return [item.question for item in question_set.items]
+
+
+def set_interview_type(questions: List[BankQuestion]) -> InterviewType:
+    """The interview type a set amounts to: its only question type, or mixed."""
+    types = {q.question_type for q in questions}
+    return InterviewType(types.pop()) if len(types) == 1 else InterviewType.mixed
+
+# -------------------------------
+# Building interviews
+# -------------------------------
+async def pick_questions(db: AsyncSession, role: str, difficulty: str, types: List[str]) -> List[BankQuestion]:
+    """
+    A random bank question of each requested type that suits the role and
+    difficulty, without repeats. Types the bank runs out of are skipped, so
+    fewer questions than asked for may come back.
+    """
+    result = await db.execute(
+        select(BankQuestion).where(
+            BankQuestion.difficulty == difficulty,
+            (BankQuestion.role.is_(None)) | (func.lower(BankQuestion.role) == role.strip().lower())
+        )
+    )
+    pools: Dict[str, List[BankQuestion]] = {}
+    for question in result.scalars().all():
+        pools.setdefault(question.question_type, []).append(question)
+    for pool in pools.values():
+        random.shuffle(pool)
+    return [pools[t].pop() for t in types if pools.get(t)]
+
+# -------------------------------
+# Import / Export
+# -------------------------------
+def question_record(question: BankQuestion) -> dict:
+    """The portable form of a question, as exported and imported."""
+    return {
+        "text": question.text,
+        "role": question.role,
+        "topic": question.topic,
+        "difficulty": question.difficulty,
+        "question_type": question.question_type,
+        "reference_answer": question.reference_answer,
+        "tags": list(question.tags),
+        "sets": set_names(question)
+    }
+
+
+def export_questions(questions: List[BankQuestion], format: BankFormat) -> str:
+    records = [question_record(q) for q in questions]
+    if format == BankFormat.json:
+        return json.dumps(records, ensure_ascii=False, indent=2)
+    output = io.StringIO()
+    writer = csv.DictWriter(output, fieldnames=CSV_FIELDS)
+    writer.writeheader()
+    for record in records:
+        writer.writerow({
+            **{key: value or "" for key, value in record.items()},
+            "tags": LIST_SEPARATOR.join(record["tags"]),
+            "sets": LIST_SEPARATOR.join(record["sets"])
+        })
+    return output.getvalue()
+
+
+def _csv_records(text: str) -> List[dict]:
+    reader = csv.DictReader(io.StringIO(text))
+    if not reader.fieldnames or "text" not in reader.fieldnames:
+        raise InvalidImport("CSV needs a header row with at least a 'text' column")
+    records = []
+    for row in reader:
+        record = {key: value for key, value in row.items() if key in CSV_FIELDS and value not in (None, "")}
+        for key in ("tags", "sets"):
+            if key in record:
+                record[key] = record[key].split(LIST_SEPARATOR)
+        records.append(record)
+    return records
+
+
+def parse_import(filename: str, content: bytes) -> List[BankQuestionIn]:
+    """Questions from a JSON list or a CSV file; raises InvalidImport naming the bad row."""
+    try:
+        text = content.decode("utf-8-sig")
+    except UnicodeDecodeError:
+        raise InvalidImport("The file is not UTF-8 text")
+
+    if filename.lower().endswith(".csv"):
+        records = _csv_records(text)
+        # Row 1 is the header
+        first_row = 2
+    else:
+        try:
+            records = json.loads(text)
+        except json.JSONDecodeError as e:
+            raise InvalidImport(f"Invalid JSON: {e}")
+        if not isinstance(records, list):
+            raise InvalidImport("Expected a JSON list of questions")
+        first_row = 1
+
+    questions = []
+    for row, record in enumerate(records, first_row):
+        try:
+            questions.append(BankQuestionIn.model_validate(record))
+        except ValidationError as e:
+            problems = "; ".join(f"{'.'.join(map(str, err['loc'])) or 'row'}: {err['msg']}" for err in e.errors())
+            raise InvalidImport(f"Row {row}: {problems}")
+    if not questions:
+        raise InvalidImport("The file has no questions")
+    return questions
+
+
+async def import_questions(db: AsyncSession, questions: List[BankQuestionIn]) -> int:
+    """Add every question; an import never changes questions already in the bank."""
+    for data in questions:
+        question = BankQuestion(set_items=[])
+        _apply(question, data)
+        db.add(question)
+        await _assign_sets(db, question, data.sets)
+    await db.commit()
+    return len(questions)
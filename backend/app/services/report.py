@@ -0,0 +1,251 @@
+from typing import Callable, List, Optional
+
+from fpdf import FPDF
+
+from app.core.config import settings
+from app.models import Interview
+from app.services import interview_store
+from app.services import interview_modes
+from app.services.evaluation import average_scores
+from app.services.languages import LANGUAGES
+
+SUMMARY_SECTIONS = (
+    ("overall_feedback", "Overall Feedback"),
+    ("strengths", "Strengths"),
+    ("improvements", "Areas for Improvement"),
+    ("fit", "Fit for the Role"),
+)
+
+
+def report_filename(interview: Interview, extension: str) -> str:
+    slug = "-".join("".join(c if c.isalnum() else " " for c in interview.role.lower()).split()) or "interview"
+    return f"interview-report-{slug}-{interview.created_at:%Y-%m-%d}.{extension}"
+
+
+# Turns a stored audio file name into a link that opens from outside the app
+AudioLink = Callable[[str], str]
+
+
+def audio_link(audio_url: Optional[AudioLink], audio_file: Optional[str]) -> Optional[str]:
+    if audio_url is None or not audio_file:
+        return None
+    return audio_url(audio_file)
+
+
+def _entries(interview: Interview, audio_url: Optional[AudioLink]) -> List[dict]:
+    """Questions in the order they were asked, follow-ups after their main question."""
+    entries = []
+    for number, main in enumerate(interview_store.main_questions(interview), start=1):
+        for question in [main, *interview_store.follow_ups_of(interview, main)]:
+            answer = question.answer
+            follow_up = question.parent_id is not None
+            entries.append({
+                "title": f"Follow-up to Question {number}" if follow_up else f"Question {number}",
+                "follow_up": follow_up,
+                "question_type": interview_modes.LABELS.get(question.question_type, question.question_type),
+                "question": question.text,
+                "transcript": answer.transcript if answer else None,
+                "evaluation": answer.evaluation if answer else None,
+                "delivery": answer.delivery if answer else None,
+                "timing": answer.timing if answer else None,
+                "audio_url": audio_link(audio_url, answer.audio_file if answer else None)
+            })
+    return entries
+
+
+def _overview(interview: Interview) -> List[tuple]:
+    averages = average_scores([q.answer.evaluation for q in interview.questions if q.answer is not None])
+    return [
+        ("Role", interview.role),
+        ("Date", f"{interview.created_at:%B %d, %Y %H:%M}"),
+        ("Interview type", interview_modes.LABELS.get(interview.interview_type, interview.interview_type)),
+        ("Difficulty", interview.difficulty.capitalize()),
+        ("Status", interview.status.replace("_", " ").capitalize()),
+        ("Overall score", f"{averages['overall']:.1f}/10" if averages else "N/A"),
+    ]
+
+
+def _score_rows(evaluation: dict) -> List[tuple]:
+    return [(d["label"], evaluation["scores"][d["key"]]) for d in evaluation["dimensions"]]
+
+
+def _delivery_line(delivery: Optional[dict]) -> Optional[str]:
+    if not delivery:
+        return None
+    parts = []
+    if delivery.get("words_per_minute") is not None:
+        parts.append(f"{round(delivery['words_per_minute'])} words/min")
+    parts.append(f"{delivery['filler_count']} fillers")
+    parts.append(f"{delivery['hedge_count']} hedges")
+    if delivery.get("long_pauses") is not None:
+        parts.append(f"{delivery['long_pauses']} long pauses")
+    return ", ".join(parts)
+
+
+def _clock(seconds: float) -> str:
+    seconds = round(seconds)
+    return f"{seconds // 60}:{seconds % 60:02d}"
+
+
+def _timing_line(timing: Optional[dict]) -> Optional[str]:
+    if not timing or timing.get("answer_seconds") is None:
+        return None
+    line = f"{_clock(timing['answer_seconds'])} of {_clock(timing['limit_seconds'])}"
+    if timing.get("overtime_ratio"):
+        line += f" ({round(timing['overtime_ratio'] * 100)}% over)"
+    if timing.get("think_seconds") is not None:
+        line += f", after {_clock(timing['think_seconds'])} to think"
+    return line
+
+
+# -------------------------------
+# Markdown
+# -------------------------------
+def render_markdown(interview: Interview, summary: dict, audio_url: Optional[AudioLink] = None) -> str:
+    lines = [f"# Interview Report: {interview.role}", ""]
+    lines += [f"- **{label}:** {value}" for label, value in _overview(interview)]
+
+    lines += ["", "## Summary", ""]
+    for key, title in SUMMARY_SECTIONS:
+        if summary.get(key):
+            lines += [f"### {title}", "", summary[key], ""]
+
+    lines += ["## Questions", ""]
+    for entry in _entries(interview, audio_url):
+        heading = "####" if entry["follow_up"] else "###"
+        lines += [f"{heading} {entry['title']} ({entry['question_type']})", ""]
+        lines += [f"> {entry['question']}", ""]
+
+        if entry["transcript"] is None:
+            lines += ["_Not answered._", ""]
+            continue
+        lines += ["**Answer:**", "", entry["transcript"], ""]
+        if entry["audio_url"]:
+            lines += [f"[Listen to the recording]({entry['audio_url']})", ""]
+
+        evaluation = entry["evaluation"] or {}
+        if evaluation.get("status") == "ok":
+            lines += ["| Dimension | Score |", "| --- | --- |"]
+            lines += [f"| {label} | {score}/10 |" for label, score in _score_rows(evaluation)]
+            lines += [f"| **Overall** | **{evaluation['overall']:.1f}/10** |", ""]
+            lines += [f"**Feedback:** {evaluation['feedback']}", ""]
+        else:
+            lines += ["_Evaluation not available._", ""]
+
+        delivery = _delivery_line(entry["delivery"])
+        if delivery:
+            lines += [f"**Delivery:** {delivery}", ""]
+
+        timing = _timing_line(entry["timing"])
+        if timing:
+            lines += [f"**Time:** {timing}", ""]
+
+    return "\n".join(lines).rstrip() + "\n"
+
+
+# -------------------------------
+# PDF
+# -------------------------------
+# The built-in PDF fonts only cover Latin-1
+PDF_REPLACEMENTS = {"‘": "'", "’": "'", "“": '"', "”": '"', "–": "-", "—": "-", "…": "..."}
+BUILTIN_FONT = "Helvetica"
+REPORT_FONT = "report"
+
+
+class ReportError(Exception):
+    """The report cannot be rendered in the requested format."""
+
+
+def _latin_text(text: str) -> str:
+    for char, replacement in PDF_REPLACEMENTS.items():
+        text = text.replace(char, replacement)
+    return text.encode("latin-1", "replace").decode("latin-1")
+
+
+class _ReportPDF(FPDF):
+    def __init__(self, font_file: Optional[str] = None):
+        super().__init__()
+        self.report_font = BUILTIN_FONT
+        if font_file:
+            # One file serves every style; Devanagari needs shaping to join its letters
+            for style in ("", "B", "I"):
+                self.add_font(REPORT_FONT, style, font_file)
+            self.set_text_shaping(True)
+            self.report_font = REPORT_FONT
+
+    def _text(self, text: str) -> str:
+        return _latin_text(text) if self.report_font == BUILTIN_FONT else text
+
+    def heading(self, text: str, size: int):
+        self.set_font(self.report_font, "B", size)
+        self.multi_cell(0, size * 0.5, self._text(text), new_x="LMARGIN", new_y="NEXT")
+        self.ln(2)
+
+    def paragraph(self, text: str, style: str = "", link: str = ""):
+        self.set_font(self.report_font, style, 11)
+        self.multi_cell(0, 6, self._text(text), new_x="LMARGIN", new_y="NEXT", link=link)
+        self.ln(2)
+
+    def row(self, label: str, value: str):
+        self.set_font(self.report_font, "B", 11)
+        self.cell(45, 6, self._text(label))
+        self.set_font(self.report_font, "", 11)
+        self.multi_cell(0, 6, self._text(value), new_x="LMARGIN", new_y="NEXT")
+
+
+def render_pdf(interview: Interview, summary: dict, audio_url: Optional[AudioLink] = None) -> bytes:
+    """Raises ReportError when the interview language needs REPORT_FONT and it is not set."""
+    language = LANGUAGES.get(interview_store.interview_language(interview) or "")
+    if not settings.REPORT_FONT and language is not None and not language.latin_script:
+        raise ReportError(
+            f"PDF reports in {language.name} need REPORT_FONT set to a font that covers it; "
+            "export the report as Markdown instead"
+        )
+    pdf = _ReportPDF(settings.REPORT_FONT)
+    pdf.set_auto_page_break(auto=True, margin=15)
+    pdf.add_page()
+
+    pdf.heading(f"Interview Report: {interview.role}", 18)
+    for label, value in _overview(interview):
+        pdf.row(label, value)
+    pdf.ln(4)
+
+    pdf.heading("Summary", 15)
+    for key, title in SUMMARY_SECTIONS:
+        if summary.get(key):
+            pdf.heading(title, 12)
+            pdf.paragraph(summary[key])
+
+    pdf.heading("Questions", 15)
+    for entry in _entries(interview, audio_url):
+        pdf.heading(f"{entry['title']} ({entry['question_type']})", 11 if entry["follow_up"] else 13)
+        pdf.paragraph(entry["question"], "I")
+
+        if entry["transcript"] is None:
+            pdf.paragraph("Not answered.")
+            continue
+        pdf.paragraph(f"Answer: {entry['transcript']}")
+        if entry["audio_url"]:
+            pdf.set_text_color(85, 104, 211)
+            pdf.paragraph("Listen to the recording", "U", link=entry["audio_url"])
+            pdf.set_text_color(0, 0, 0)
+
+        evaluation = entry["evaluation"] or {}
+        if evaluation.get("status") == "ok":
+            for label, score in _score_rows(evaluation):
+                pdf.row(label, f"{score}/10")
+            pdf.row("Overall", f"{evaluation['overall']:.1f}/10")
+            pdf.ln(2)
+            pdf.paragraph(f"Feedback: {evaluation['feedback']}")
+        else:
+            pdf.paragraph("Evaluation not available.")
+
+        delivery = _delivery_line(entry["delivery"])
+        if delivery:
+            pdf.paragraph(f"Delivery: {delivery}")
+        timing = _timing_line(entry["timing"])
+        if timing:
+            pdf.paragraph(f"Time: {timing}")
+        pdf.ln(2)
+
+    return bytes(pdf.output())
@@ -0,0 +1,164 @@
+from dataclasses import dataclass, replace
+from functools import lru_cache
+from typing import List, Tuple
+import json
+import re
+
+from app.core.config import settings
+
+
+@dataclass(frozen=True)
+class Dimension:
+    key: str
+    label: str
+    description: str
+    weight: float = 1.0
+
+
+@dataclass(frozen=True)
+class Rubric:
+    name: str
+    dimensions: Tuple[Dimension, ...]
+    # Lowercase words or phrases in the role that select this rubric
+    role_keywords: Tuple[str, ...] = ()
+    # Also report which parts of Situation/Task/Action/Result were covered
+    checks_star: bool = False
+
+
+RELEVANCE = Dimension("relevance", "Relevance", "How directly the answer addresses the question asked")
+CLARITY = Dimension("clarity", "Clarity", "How clear, structured and easy to follow the answer is")
+CORRECTNESS = Dimension("correctness", "Correctness", "Whether the facts, reasoning and claims are accurate")
+COMMUNICATION = Dimension("communication", "Communication", "How well ideas are explained for the audience")
+
+DEFAULT_RUBRIC = Rubric("general", (RELEVANCE, CLARITY, CORRECTNESS))
+
+# Question types that are graded the same whatever the role
+TYPE_RUBRICS = {
+    "behavioral": Rubric(
+        "behavioral",
+        (
+            RELEVANCE,
+            Dimension("star_structure", "STAR Structure", "Walks through the situation, task, actions taken and result", 1.5),
+            Dimension("impact", "Impact", "Makes the candidate's own contribution and its measurable outcome clear"),
+            COMMUNICATION,
+        ),
+        checks_star=True
+    ),
+    "system_design": Rubric(
+        "system_design",
+        (
+            Dimension("requirements", "Requirements", "Clarifies functional and non-functional requirements and constraints"),
+            Dimension("tradeoffs", "Trade-offs", "Compares alternatives and justifies design decisions", 1.5),
+            Dimension("scaling", "Scaling", "Addresses load, data growth, bottlenecks and failure modes", 1.5),
+            COMMUNICATION,
+        )
+    ),
+}
+
+# Checked in order, so more specific families come first
+BUILTIN_RUBRICS = [
+    Rubric(
+        "management",
+        (
+            RELEVANCE,
+            Dimension("structured_thinking", "Structured Thinking", "Frames the problem and reasons through trade-offs methodically", 1.5),
+            Dimension("leadership", "Leadership", "Shows ownership, influence and care for the team"),
+            Dimension(COMMUNICATION.key, COMMUNICATION.label, COMMUNICATION.description, 1.5),
+        ),
+        ("manager", "director", "lead", "head of", "product owner", "scrum master")
+    ),
+    Rubric(
+        "engineering",
+        (
+            RELEVANCE,
+            Dimension(CORRECTNESS.key, CORRECTNESS.label, CORRECTNESS.description, 1.5),
+            Dimension("problem_solving", "Problem Solving", "Breaks the problem down and arrives at a workable approach", 1.5),
+            Dimension("system_design_depth", "System Design Depth", "Considers architecture, scale, failure modes and trade-offs"),
+            COMMUNICATION,
+        ),
+        ("engineer", "developer", "programmer", "architect", "devops", "sre", "backend", "frontend", "full stack")
+    ),
+    Rubric(
+        "data",
+        (
+            RELEVANCE,
+            Dimension(CORRECTNESS.key, CORRECTNESS.label, CORRECTNESS.description, 1.5),
+            Dimension("analytical_rigor", "Analytical Rigor", "Uses data, metrics and sound methodology to support conclusions", 1.5),
+            COMMUNICATION,
+        ),
+        ("data", "analyst", "scientist", "machine learning", "ml", "statistician")
+    ),
+    Rubric(
+        "customer_facing",
+        (
+            RELEVANCE,
+            Dimension(COMMUNICATION.key, COMMUNICATION.label, COMMUNICATION.description, 1.5),
+            Dimension("empathy", "Empathy", "Understands and responds to the other person's needs"),
+            Dimension("persuasion", "Persuasion", "Builds a convincing case and handles objections"),
+        ),
+        ("sales", "account", "customer", "support", "marketing", "recruiter")
+    ),
+]
+
+
+def _rubric_from_dict(data: dict) -> Rubric:
+    dimensions = tuple(
+        Dimension(d["key"], d.get("label", d["key"].replace("_", " ").title()), d.get("description", ""), float(d.get("weight", 1.0)))
+        for d in data["dimensions"]
+    )
+    if not dimensions:
+        raise ValueError(f"Rubric '{data['name']}' has no dimensions")
+    return Rubric(
+        data["name"],
+        dimensions,
+        tuple(k.lower() for k in data.get("role_keywords", [])),
+        bool(data.get("checks_star", False))
+    )
+
+
+@lru_cache
+def available_rubrics() -> List[Rubric]:
+    """
+    Built-in rubrics, preceded by any defined in RUBRIC_FILE (a JSON list of
+    {name, role_keywords, dimensions: [{key, label, description, weight}]}).
+    A custom rubric replaces the built-in one with the same name.
+    """
+    if not settings.RUBRIC_FILE:
+        return list(BUILTIN_RUBRICS)
+    with open(settings.RUBRIC_FILE, encoding="utf-8") as f:
+        custom = [_rubric_from_dict(item) for item in json.load(f)]
+    names = {rubric.name for rubric in custom}
+    return custom + [rubric for rubric in BUILTIN_RUBRICS if rubric.name not in names]
+
+
+def rubric_for_role(role: str) -> Rubric:
+    words = role.lower()
+    for rubric in available_rubrics():
+        if any(re.search(rf"\b{re.escape(keyword)}\b", words) for keyword in rubric.role_keywords):
+            return rubric
+    # RUBRIC_FILE may redefine the general rubric too
+    return next((r for r in available_rubrics() if r.name == DEFAULT_RUBRIC.name), DEFAULT_RUBRIC)
+
+
+def _with_correctness(rubric: Rubric) -> Rubric:
+    if any(d.key == CORRECTNESS.key for d in rubric.dimensions):
+        return rubric
+    return replace(rubric, dimensions=rubric.dimensions + (CORRECTNESS,))
+
+
+def rubric_for(role: str, question_type: str, has_reference: bool = False) -> Rubric:
+    """
+    Behavioral and system design questions have their own rubric; others
+    follow the role. Questions with a reference answer are always graded on
+    correctness against it.
+    """
+    builtin = TYPE_RUBRICS.get(question_type)
+    if builtin is None:
+        rubric = rubric_for_role(role)
+    else:
+        rubric = next((r for r in available_rubrics() if r.name == builtin.name), builtin)
+    return _with_correctness(rubric) if has_reference else rubric
+
+
+def dimension_payload(rubric: Rubric) -> List[dict]:
+    return [{"key": d.key, "label": d.label, "weight": d.weight} for d in rubric.dimensions]
@@ -0,0 +1,89 @@
+from concurrent.futures import ThreadPoolExecutor
+from functools import lru_cache
+import asyncio
+import os
+import tempfile
+
+from app.core.config import settings
+from app.services.stt.base import STTError, STTProvider, TimedWord, Transcription, TranscriptionOptions
+from app.utils.audio import audio_extension
+
+PROVIDERS = ("whisper", "faster_whisper", "openai", "openai_compatible", "stub")
+
+
+@lru_cache
+def get_stt_provider() -> STTProvider:
+    """
+    Build the provider selected by STT_PROVIDER once; it keeps its models
+    loaded. A missing engine or bad settings raise STTError, which answers
+    report as a failed transcription.
+    """
+    provider = settings.STT_PROVIDER
+    if provider == "stub":
+        from app.services.stt.stub import StubProvider
+        return StubProvider(settings.STT_FIXTURE_DIR)
+    if provider == "whisper":
+        from app.services.stt.whisper_local import WhisperProvider
+        return WhisperProvider(settings.STT_MODEL, settings.STT_DEVICE)
+    if provider == "faster_whisper":
+        from app.services.stt.faster_whisper_provider import FasterWhisperProvider
+        return FasterWhisperProvider(settings.STT_MODEL, settings.STT_DEVICE or "auto", settings.STT_COMPUTE_TYPE)
+    if provider == "openai":
+        from app.services.stt.openai_provider import OpenAITranscriptionProvider
+        return OpenAITranscriptionProvider(
+            api_key=settings.OPENAI_API_KEY,
+            default_model=settings.STT_API_MODEL,
+            timeout=settings.STT_TIMEOUT
+        )
+    if provider == "openai_compatible":
+        from app.services.stt.openai_provider import OpenAITranscriptionProvider
+        if not settings.STT_BASE_URL:
+            raise STTError("STT_BASE_URL is required for the openai_compatible STT provider")
+        return OpenAITranscriptionProvider(
+            api_key=settings.STT_API_KEY or "not-needed",
+            default_model=settings.STT_API_MODEL,
+            timeout=settings.STT_TIMEOUT,
+            base_url=settings.STT_BASE_URL,
+            name="openai_compatible"
+        )
+    raise STTError(f"Unknown STT_PROVIDER '{provider}', expected one of {', '.join(PROVIDERS)}")
+
+
+@lru_cache
+def _worker_pool() -> ThreadPoolExecutor:
+    return ThreadPoolExecutor(max_workers=settings.STT_WORKERS, thread_name_prefix="stt")
+
+
+def supports_model(model: str) -> bool:
+    try:
+        models = get_stt_provider().models
+    except STTError:
+        # Nothing can be transcribed anyway; answers report the failure
+        return True
+    return models is None or model in models
+
+
+def _transcribe_file(audio_bytes: bytes, options: TranscriptionOptions) -> Transcription:
+    fd, path = tempfile.mkstemp(prefix="answer_", suffix=f".{audio_extension(audio_bytes)}")
+    try:
+        with os.fdopen(fd, "wb") as f:
+            f.write(audio_bytes)
+        return get_stt_provider().transcribe(path, options)
+    finally:
+        os.remove(path)
+
+
+async def transcribe(audio_bytes: bytes, options: TranscriptionOptions = TranscriptionOptions()) -> Transcription:
+    """Run the configured engine in the worker pool, off the event loop."""
+    loop = asyncio.get_running_loop()
+    return await loop.run_in_executor(_worker_pool(), _transcribe_file, audio_bytes, options)
+
+
+async def speech_to_text(audio_bytes: bytes, options: TranscriptionOptions = TranscriptionOptions()) -> str:
+    transcription = await transcribe(audio_bytes, TranscriptionOptions(options.model, options.language, word_timestamps=False))
+    return transcription.text
+
+
+async def transcribe_with_timing(audio_bytes: bytes, options: TranscriptionOptions = TranscriptionOptions()) -> Transcription:
+    """Transcript plus per-word timings, used for delivery analytics."""
+    return await transcribe(audio_bytes, TranscriptionOptions(options.model, options.language, word_timestamps=True))
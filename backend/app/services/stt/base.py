@@ -0,0 +1,45 @@
+from abc import ABC, abstractmethod
+from dataclasses import dataclass, field
+from typing import List, Optional, Tuple
+
+
+class STTError(Exception):
+    """The engine could not transcribe the audio (missing model, bad file, API failure...)."""
+
+
+@dataclass
+class TimedWord:
+    text: str
+    start: float
+    end: float
+
+
+@dataclass
+class Transcription:
+    text: str
+    # Empty when the engine did not report word timings
+    words: List[TimedWord] = field(default_factory=list)
+
+
+@dataclass(frozen=True)
+class TranscriptionOptions:
+    # None uses the provider's default model
+    model: Optional[str] = None
+    # ISO 639-1 code; None lets the engine detect the language
+    language: Optional[str] = None
+    word_timestamps: bool = True
+
+
+class STTProvider(ABC):
+    """
+    A speech-to-text engine. Transcription is blocking and runs in the STT
+    worker pool, so implementations may load models and call synchronous SDKs.
+    """
+
+    name: str
+    # Model names accepted per interview; None accepts anything
+    models: Optional[Tuple[str, ...]] = None
+
+    @abstractmethod
+    def transcribe(self, audio_path: str, options: TranscriptionOptions) -> Transcription:
+        """Transcribe the audio file at `audio_path`."""
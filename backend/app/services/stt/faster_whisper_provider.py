@@ -0,0 +1,38 @@
+from app.services.stt.base import STTError, STTProvider, TimedWord, Transcription, TranscriptionOptions
+from app.services.stt.whisper_local import WHISPER_MODELS, ModelCache
+
+
+class FasterWhisperProvider(STTProvider):
+    """faster-whisper (CTranslate2): same models as Whisper, several times faster on CPU."""
+
+    name = "faster_whisper"
+    models = WHISPER_MODELS + ("distil-large-v3",)
+
+    def __init__(self, default_model: str, device: str = "auto", compute_type: str = "default"):
+        try:
+            from faster_whisper import WhisperModel
+        except ImportError as e:
+            raise STTError(f"faster-whisper is not installed: {e}") from e
+
+        self.default_model = default_model
+        self._cache = ModelCache(lambda size: WhisperModel(size, device=device, compute_type=compute_type))
+
+    def transcribe(self, audio_path: str, options: TranscriptionOptions) -> Transcription:
+        model = self._cache.get(options.model or self.default_model)
+        try:
+            # Segments are generated lazily; the work happens while iterating
+            segments, _ = model.transcribe(
+                audio_path,
+                language=options.language,
+                word_timestamps=options.word_timestamps
+            )
+            segments = list(segments)
+        except Exception as e:
+            raise STTError(f"faster-whisper transcription failed: {e}") from e
+
+        words = [
+            TimedWord(word.word.strip(), word.start, word.end)
+            for segment in segments
+            for word in (segment.words or [])
+        ]
+        return Transcription("".join(segment.text for segment in segments).strip(), words)
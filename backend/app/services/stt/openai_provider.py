@@ -0,0 +1,43 @@
+from typing import Optional
+
+from openai import OpenAI, OpenAIError
+
+from app.services.stt.base import STTError, STTProvider, TimedWord, Transcription, TranscriptionOptions
+
+
+class OpenAITranscriptionProvider(STTProvider):
+    """The /audio/transcriptions endpoint of OpenAI or a compatible server."""
+
+    def __init__(
+        self,
+        api_key: str,
+        default_model: str,
+        timeout: float,
+        base_url: Optional[str] = None,
+        name: str = "openai"
+    ):
+        self.name = name
+        self.default_model = default_model
+        self._client = OpenAI(api_key=api_key, base_url=base_url, timeout=timeout)
+
+    def transcribe(self, audio_path: str, options: TranscriptionOptions) -> Transcription:
+        request = {
+            "model": options.model or self.default_model,
+            "response_format": "verbose_json",
+        }
+        if options.language:
+            request["language"] = options.language
+        if options.word_timestamps:
+            request["timestamp_granularities"] = ["word"]
+
+        try:
+            with open(audio_path, "rb") as audio:
+                result = self._client.audio.transcriptions.create(file=audio, **request)
+        except OpenAIError as e:
+            raise STTError(f"{self.name} transcription failed: {e}") from e
+
+        words = [
+            TimedWord(word.word.strip(), word.start, word.end)
+            for word in (getattr(result, "words", None) or [])
+        ]
+        return Transcription(result.text.strip(), words)
@@ -0,0 +1,54 @@
+import hashlib
+import json
+import os
+from typing import Optional
+
+from app.services.stt.base import STTProvider, TimedWord, Transcription, TranscriptionOptions
+
+DEFAULT_TRANSCRIPT = (
+    "In my last project I led the migration of our billing service to a queue based design, "
+    "which cut failed payments by about a third."
+)
+# Synthetic timing for transcripts without recorded word timings
+SECONDS_PER_WORD = 0.4
+
+
+def _timed_words(text: str):
+    return [
+        TimedWord(word, round(i * SECONDS_PER_WORD, 2), round((i + 1) * SECONDS_PER_WORD, 2))
+        for i, word in enumerate(text.split())
+    ]
+
+
+class StubProvider(STTProvider):
+    """
+    Offline transcriber for tests and demos. Looks up a fixture named after the
+    SHA-256 of the audio in STT_FIXTURE_DIR: `<hash>.txt` holds the transcript,
+    `<hash>.json` holds {"text", "words": [{"text", "start", "end"}]}. Audio
+    without a fixture gets a canned answer.
+    """
+
+    name = "stub"
+
+    def __init__(self, fixture_dir: Optional[str] = None):
+        self.fixture_dir = fixture_dir
+
+    def transcribe(self, audio_path: str, options: TranscriptionOptions) -> Transcription:
+        with open(audio_path, "rb") as f:
+            digest = hashlib.sha256(f.read()).hexdigest()
+
+        if self.fixture_dir:
+            json_path = os.path.join(self.fixture_dir, f"{digest}.json")
+            if os.path.exists(json_path):
+                with open(json_path, encoding="utf-8") as f:
+                    fixture = json.load(f)
+                words = [TimedWord(w["text"], w["start"], w["end"]) for w in fixture.get("words", [])]
+                return Transcription(fixture["text"], words)
+
+            text_path = os.path.join(self.fixture_dir, f"{digest}.txt")
+            if os.path.exists(text_path):
+                with open(text_path, encoding="utf-8") as f:
+                    text = f.read().strip()
+                return Transcription(text, _timed_words(text))
+
+        return Transcription(DEFAULT_TRANSCRIPT, _timed_words(DEFAULT_TRANSCRIPT))
@@ -0,0 +1,86 @@
+from threading import Lock
+from typing import Dict, Optional
+
+from app.services.stt.base import STTError, STTProvider, TimedWord, Transcription, TranscriptionOptions
+
+WHISPER_MODELS = (
+    "tiny", "tiny.en", "base", "base.en", "small", "small.en", "medium", "medium.en",
+    "large", "large-v1", "large-v2", "large-v3", "turbo"
+)
+
+
+class ModelCache:
+    """Loads each model size once and shares it across requests and workers."""
+
+    def __init__(self, load):
+        self._load = load
+        self._models: Dict[str, object] = {}
+        self._load_locks: Dict[str, Lock] = {}
+        self._model_locks: Dict[str, Lock] = {}
+        self._lock = Lock()
+
+    def _lock_for(self, locks: Dict[str, Lock], size: str) -> Lock:
+        with self._lock:
+            return locks.setdefault(size, Lock())
+
+    def get(self, size: str):
+        """The loaded model; raises STTError if it cannot be loaded."""
+        with self._lock:
+            if size in self._models:
+                return self._models[size]
+        # Loading can mean a download, so it only holds up requests for this size
+        with self._lock_for(self._load_locks, size):
+            with self._lock:
+                if size in self._models:
+                    return self._models[size]
+            print(f"Loading speech-to-text model '{size}'")
+            try:
+                model = self._load(size)
+            except Exception as e:
+                raise STTError(f"Could not load speech-to-text model '{size}': {e}") from e
+            with self._lock:
+                self._models[size] = model
+            return model
+
+    def model_lock(self, size: str) -> Lock:
+        """Serializes calls into a model that cannot run two decodes at once."""
+        return self._lock_for(self._model_locks, size)
+
+
+class WhisperProvider(STTProvider):
+    """openai-whisper running locally."""
+
+    name = "whisper"
+    models = WHISPER_MODELS
+
+    def __init__(self, default_model: str, device: Optional[str] = None):
+        try:
+            import whisper
+        except ImportError as e:
+            raise STTError(f"openai-whisper is not installed: {e}") from e
+
+        self._whisper = whisper
+        self.default_model = default_model
+        self._cache = ModelCache(lambda size: whisper.load_model(size, device=device))
+
+    def transcribe(self, audio_path: str, options: TranscriptionOptions) -> Transcription:
+        size = options.model or self.default_model
+        model = self._cache.get(size)
+        try:
+            # Whisper hooks a key/value cache into the model for each call, so
+            # workers sharing a model would corrupt each other's decodes
+            with self._cache.model_lock(size):
+                result = model.transcribe(
+                    audio_path,
+                    language=options.language,
+                    word_timestamps=options.word_timestamps
+                )
+        except Exception as e:
+            raise STTError(f"Whisper transcription failed: {e}") from e
+
+        words = [
+            TimedWord(word["word"].strip(), word["start"], word["end"])
+            for segment in result.get("segments", [])
+            for word in segment.get("words", [])
+        ]
+        return Transcription(result["text"].strip(), words)
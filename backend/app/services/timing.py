@@ -0,0 +1,99 @@
+from datetime import datetime, timezone
+from typing import List, Optional
+
+from app.models import Interview, Question
+from app.schemas.interview import InterviewType
+
+# Seconds to answer each question type unless the interview sets its own
+DEFAULT_TIME_LIMITS = {
+    InterviewType.behavioral.value: 120,
+    InterviewType.technical.value: 180,
+    InterviewType.system_design.value: 300,
+}
+
+# Uploading and transcribing add a few seconds to answers stopped right at the
+# limit, so overruns this small are not counted
+OVERTIME_GRACE_SECONDS = 5
+
+
+def _as_utc(moment: datetime) -> datetime:
+    # SQLite hands timezone-aware columns back naive
+    return moment if moment.tzinfo else moment.replace(tzinfo=timezone.utc)
+
+
+def _seconds_between(start: Optional[datetime], end: Optional[datetime]) -> Optional[float]:
+    if start is None or end is None:
+        return None
+    return round((_as_utc(end) - _as_utc(start)).total_seconds(), 1)
+
+
+def time_limits(interview: Interview) -> dict:
+    """Answer time limit in seconds for every question type."""
+    return {**DEFAULT_TIME_LIMITS, **(interview.time_limits or {})}
+
+
+def time_limit(interview: Interview, question_type: str) -> int:
+    return time_limits(interview).get(question_type, DEFAULT_TIME_LIMITS[InterviewType.technical.value])
+
+
+def answer_timing(interview: Interview, question: Question, submitted_at: datetime, retry: bool) -> dict:
+    """
+    How long the candidate thought and answered, measured from the server's
+    timestamps: question served, answer started, answer submitted. Think time
+    only counts on the first attempt, since a retry follows the review rather
+    than the question. Anything not measured is None.
+    """
+    started = question.answer_started_at
+    # A start mark left over from before the question was served is stale
+    if started is not None and question.asked_at is not None and _as_utc(started) < _as_utc(question.asked_at):
+        started = None
+
+    limit = time_limit(interview, question.question_type)
+    answer_seconds = _seconds_between(started, submitted_at)
+    overtime = None
+    if answer_seconds is not None:
+        overtime = answer_seconds - limit if answer_seconds - limit > OVERTIME_GRACE_SECONDS else 0.0
+    return {
+        "prep_seconds": interview.prep_seconds or 0,
+        "limit_seconds": limit,
+        "think_seconds": None if retry else _seconds_between(question.asked_at, started),
+        "answer_seconds": answer_seconds,
+        "overtime_seconds": overtime,
+        "overtime_ratio": round(overtime / limit, 2) if overtime is not None else None,
+    }
+
+
+def timing_note(timing: Optional[dict]) -> str:
+    """Prompt line saying how long the answer took against its limit."""
+    if not timing or timing.get("answer_seconds") is None:
+        return ""
+    note = f"Time: {round(timing['answer_seconds'])} of {timing['limit_seconds']} seconds"
+    if timing["overtime_ratio"]:
+        note += f" ({round(timing['overtime_ratio'] * 100)}% over the limit)"
+    return note + "\n"
+
+
+def ran_over(timing: Optional[dict]) -> bool:
+    return bool(timing and timing.get("overtime_ratio"))
+
+
+def overtime_questions(records: List[dict]) -> List[dict]:
+    """
+    Answers that ran over their limit, numbered like the summary prompt:
+    follow-ups carry the number of the question they probe.
+    """
+    overruns = []
+    number = 0
+    for record in records:
+        if not record["follow_up"]:
+            number += 1
+        timing = record.get("timing") or {}
+        percent = round((timing.get("overtime_ratio") or 0) * 100)
+        if percent > 0:
+            overruns.append({
+                "question_number": number,
+                "follow_up": record["follow_up"],
+                "overtime_percent": percent,
+                "overtime_seconds": round(timing["overtime_seconds"]),
+            })
+    return overruns
@@ -0,0 +1,109 @@
+from functools import lru_cache
+from typing import Optional
+import glob
+import hashlib
+import os
+import time
+
+from app.core.config import settings
+from app.services.tts.base import TTSError, TTSProvider, Voice
+from app.utils.audio import AUDIO_DIR, QUESTION_AUDIO_DIR
+
+PROVIDERS = ("edge", "elevenlabs", "stub")
+
+
+@lru_cache
+def get_tts_provider() -> TTSProvider:
+    """
+    Build the provider selected by TTS_PROVIDER once and reuse it. A
+    misconfigured provider raises TTSError, so questions fall back to text.
+    """
+    provider = settings.TTS_PROVIDER
+    if provider == "stub":
+        from app.services.tts.stub import StubProvider
+        return StubProvider()
+    if provider == "edge":
+        from app.services.tts.edge import EdgeProvider
+        return EdgeProvider(settings.EDGE_TTS_VOICE)
+    if provider == "elevenlabs":
+        from app.services.tts.elevenlabs import ElevenLabsProvider
+        if not settings.ELEVENLABS_API_KEY:
+            raise TTSError("ELEVENLABS_API_KEY is required for the elevenlabs TTS provider")
+        return ElevenLabsProvider(settings.ELEVENLABS_API_KEY, settings.ELEVENLABS_VOICE_ID)
+    raise TTSError(f"Unknown TTS_PROVIDER '{provider}', expected one of {', '.join(PROVIDERS)}")
+
+
+def supports_voice(voice: str) -> bool:
+    try:
+        provider = get_tts_provider()
+    except TTSError:
+        # Nothing is spoken without a provider, so no voice is turned away
+        return True
+    return any(v.id == voice for v in provider.voices)
+
+
+def _cache_key(provider: TTSProvider, text: str, voice: str, rate: float) -> str:
+    return hashlib.sha256(f"{provider.name}\n{voice}\n{rate:.2f}\n{text}".encode("utf-8")).hexdigest()
+
+
+def audio_exists(audio_file: Optional[str]) -> bool:
+    return bool(audio_file) and os.path.exists(os.path.join(AUDIO_DIR, audio_file))
+
+
+async def text_to_speech(
+    text: str,
+    voice: Optional[str] = None,
+    rate: float = 1.0,
+    language: Optional[str] = None
+) -> Optional[str]:
+    """
+    Speak a question and return its path relative to the /audio mount, or
+    None if synthesis failed (the question is still shown as text). Without a
+    voice, one that speaks `language` is picked. Identical text, voice and
+    rate reuse the cached file.
+    """
+    try:
+        provider = get_tts_provider()
+    except TTSError as e:
+        print(f"TTS error: {e}")
+        return None
+    voice = voice or provider.voice_for(language)
+    filename = f"{_cache_key(provider, text, voice, rate)}.{provider.extension}"
+    path = os.path.join(QUESTION_AUDIO_DIR, filename)
+
+    if os.path.exists(path):
+        # Reset its age so cleanup keeps audio that is still in use
+        os.utime(path)
+    else:
+        try:
+            audio = await provider.synthesize(text, voice, rate)
+        except TTSError as e:
+            print(f"TTS error: {e}")
+            return None
+        os.makedirs(QUESTION_AUDIO_DIR, exist_ok=True)
+        # Write then rename so a concurrent request never serves a partial file
+        partial = f"{path}.{os.getpid()}.part"
+        with open(partial, "wb") as f:
+            f.write(audio)
+        os.replace(partial, path)
+
+    return os.path.relpath(path, AUDIO_DIR).replace(os.sep, "/")
+
+
+def cleanup_question_audio(max_age_seconds: float) -> int:
+    """
+    Delete synthesized question audio not used for `max_age_seconds`. Answer
+    recordings are kept; they back the interview history.
+    """
+    cutoff = time.time() - max_age_seconds
+    # Older releases wrote question audio straight into audio/
+    candidates = glob.glob(os.path.join(QUESTION_AUDIO_DIR, "*")) + glob.glob(os.path.join(AUDIO_DIR, "audio_*.mp3"))
+    removed = 0
+    for path in candidates:
+        try:
+            if os.path.getmtime(path) < cutoff:
+                os.remove(path)
+                removed += 1
+        except FileNotFoundError:
+            continue
+    return removed
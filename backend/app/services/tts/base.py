@@ -0,0 +1,40 @@
+from abc import ABC, abstractmethod
+from dataclasses import dataclass
+from typing import Optional, Tuple
+
+
+class TTSError(Exception):
+    """The provider could not synthesize speech (network, auth, quota...)."""
+
+
+@dataclass(frozen=True)
+class Voice:
+    id: str
+    label: str
+    # None for multilingual voices
+    language: Optional[str] = None
+
+
+class TTSProvider(ABC):
+    """Turns question text into an audio file's bytes."""
+
+    name: str
+    # File extension of the audio this provider produces
+    extension: str = "mp3"
+    voices: Tuple[Voice, ...] = ()
+    default_voice: str
+
+    def voices_for(self, language: Optional[str]) -> Tuple[Voice, ...]:
+        """Voices that can speak `language`."""
+        return tuple(v for v in self.voices if language is None or v.language in (None, language))
+
+    def voice_for(self, language: Optional[str]) -> str:
+        """The default voice, unless it cannot speak `language`."""
+        candidates = self.voices_for(language)
+        if not candidates or any(v.id == self.default_voice for v in candidates):
+            return self.default_voice
+        return candidates[0].id
+
+    @abstractmethod
+    async def synthesize(self, text: str, voice: str, rate: float) -> bytes:
+        """Speak `text` with `voice`; `rate` 1.0 is normal speed."""
@@ -0,0 +1,51 @@
+import edge_tts
+
+from app.services.tts.base import TTSError, TTSProvider, Voice
+
+# The first voice of each language is used when none is picked
+EDGE_VOICES = (
+    Voice("en-US-AriaNeural", "Aria (US)", "en"),
+    Voice("en-US-GuyNeural", "Guy (US)", "en"),
+    Voice("en-US-JennyNeural", "Jenny (US)", "en"),
+    Voice("en-GB-SoniaNeural", "Sonia (UK)", "en"),
+    Voice("en-GB-RyanNeural", "Ryan (UK)", "en"),
+    Voice("en-AU-NatashaNeural", "Natasha (Australia)", "en"),
+    Voice("en-IN-NeerjaNeural", "Neerja (India)", "en"),
+    Voice("es-ES-ElviraNeural", "Elvira (Spain)", "es"),
+    Voice("es-ES-AlvaroNeural", "Álvaro (Spain)", "es"),
+    Voice("es-MX-DaliaNeural", "Dalia (Mexico)", "es"),
+    Voice("de-DE-KatjaNeural", "Katja (Germany)", "de"),
+    Voice("de-DE-ConradNeural", "Conrad (Germany)", "de"),
+    Voice("de-CH-LeniNeural", "Leni (Switzerland)", "de"),
+    Voice("fr-FR-DeniseNeural", "Denise (France)", "fr"),
+    Voice("pt-BR-FranciscaNeural", "Francisca (Brazil)", "pt"),
+    Voice("it-IT-ElsaNeural", "Elsa (Italy)", "it"),
+    Voice("nl-NL-ColetteNeural", "Colette (Netherlands)", "nl"),
+    Voice("hi-IN-SwaraNeural", "Swara (India)", "hi"),
+    Voice("ja-JP-NanamiNeural", "Nanami (Japan)", "ja"),
+    Voice("zh-CN-XiaoxiaoNeural", "Xiaoxiao (China)", "zh"),
+)
+
+
+class EdgeProvider(TTSProvider):
+    """Microsoft Edge's online voices; free and needs no key."""
+
+    name = "edge"
+    voices = EDGE_VOICES
+
+    def __init__(self, default_voice: str = "en-US-AriaNeural"):
+        self.default_voice = default_voice
+
+    async def synthesize(self, text: str, voice: str, rate: float) -> bytes:
+        # Edge expects the rate as a signed percentage, e.g. "+10%"
+        communicate = edge_tts.Communicate(text, voice=voice, rate=f"{round((rate - 1) * 100):+d}%")
+        audio = bytearray()
+        try:
+            async for chunk in communicate.stream():
+                if chunk["type"] == "audio":
+                    audio.extend(chunk["data"])
+        except Exception as e:
+            raise TTSError(f"Edge TTS failed: {e}") from e
+        if not audio:
+            raise TTSError("Edge TTS returned no audio")
+        return bytes(audio)
@@ -0,0 +1,59 @@
+from typing import Optional
+import asyncio
+
+import requests
+
+from app.services.tts.base import TTSError, TTSProvider, Voice
+
+ELEVENLABS_URL = "https://api.elevenlabs.io/v1/text-to-speech/{voice_id}"
+
+# Premade voices available on every account
+PREMADE_VOICES = (
+    Voice("21m00Tcm4TlvDq8ikWAM", "Rachel"),
+    Voice("EXAVITQu4vr4xnSDxMaL", "Bella"),
+    Voice("pNInz6obpgDQGcFmaJgB", "Adam"),
+    Voice("ErXwobaYiR6FEKfUQ4Ig", "Antoni"),
+)
+
+# ElevenLabs only accepts speeds in this range
+MIN_SPEED = 0.7
+MAX_SPEED = 1.2
+
+
+class ElevenLabsProvider(TTSProvider):
+    name = "elevenlabs"
+
+    def __init__(self, api_key: str, voice_id: Optional[str] = None, model: str = "eleven_multilingual_v2", timeout: float = 30):
+        self.api_key = api_key
+        self.model = model
+        self.timeout = timeout
+        self.default_voice = voice_id or PREMADE_VOICES[0].id
+        known = {voice.id for voice in PREMADE_VOICES}
+        configured = (Voice(voice_id, "Configured voice"),) if voice_id and voice_id not in known else ()
+        self.voices = configured + PREMADE_VOICES
+
+    def _request(self, text: str, voice: str, rate: float) -> bytes:
+        try:
+            response = requests.post(
+                ELEVENLABS_URL.format(voice_id=voice),
+                headers={"xi-api-key": self.api_key, "Accept": "audio/mpeg"},
+                json={
+                    "text": text,
+                    "model_id": self.model,
+                    "voice_settings": {
+                        "stability": 0.5,
+                        "similarity_boost": 0.75,
+                        "speed": min(max(rate, MIN_SPEED), MAX_SPEED)
+                    }
+                },
+                timeout=self.timeout
+            )
+            response.raise_for_status()
+        except requests.RequestException as e:
+            raise TTSError(f"ElevenLabs request failed: {e}") from e
+        return response.content
+
+    async def synthesize(self, text: str, voice: str, rate: float) -> bytes:
+        # requests is blocking; keep it off the event loop
+        loop = asyncio.get_running_loop()
+        return await loop.run_in_executor(None, self._request, text, voice, rate)
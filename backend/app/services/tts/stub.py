@@ -0,0 +1,38 @@
+import io
+import math
+import struct
+import wave
+
+from app.services.tts.base import TTSProvider, Voice
+
+SAMPLE_RATE = 8000
+TONE_HZ = 440
+# A short beep followed by silence roughly as long as reading the text aloud
+TONE_SECONDS = 0.3
+SECONDS_PER_WORD = 0.35
+MAX_SECONDS = 20
+
+
+class StubProvider(TTSProvider):
+    """Offline provider for development and tests: a beep, then silence."""
+
+    name = "stub"
+    extension = "wav"
+    voices = (Voice("tone", "Tone"),)
+    default_voice = "tone"
+
+    async def synthesize(self, text: str, voice: str, rate: float) -> bytes:
+        seconds = min(TONE_SECONDS + len(text.split()) * SECONDS_PER_WORD / rate, MAX_SECONDS)
+        tone_frames = int(TONE_SECONDS * SAMPLE_RATE)
+        frames = bytearray()
+        for i in range(int(seconds * SAMPLE_RATE)):
+            sample = int(8000 * math.sin(2 * math.pi * TONE_HZ * i / SAMPLE_RATE)) if i < tone_frames else 0
+            frames.extend(struct.pack("<h", sample))
+
+        buffer = io.BytesIO()
+        with wave.open(buffer, "wb") as wav:
+            wav.setnchannels(1)
+            wav.setsampwidth(2)
+            wav.setframerate(SAMPLE_RATE)
+            wav.writeframes(bytes(frames))
+        return buffer.getvalue()
@@ -0,0 +1,43 @@
+import os
+import uuid
+from typing import Optional
+
+AUDIO_DIR = "audio"
+ANSWER_AUDIO_DIR = os.path.join(AUDIO_DIR, "answers")
+# Synthesized questions, named by a hash of their text and voice
+QUESTION_AUDIO_DIR = os.path.join(AUDIO_DIR, "questions")
+
+
+def audio_path(audio_file: str) -> str:
+    """Location on disk of a stored question or answer audio file."""
+    return os.path.join(AUDIO_DIR, audio_file)
+
+
+def audio_extension(audio_bytes: bytes) -> str:
+    """
+    File extension matching the container, so decoders don't have to guess.
+    Browsers record webm, except Safari, which records mp4.
+    """
+    if audio_bytes.startswith(b"\x1aE\xdf\xa3"):
+        return "webm"
+    if audio_bytes.startswith(b"OggS"):
+        return "ogg"
+    if audio_bytes.startswith(b"RIFF"):
+        return "wav"
+    if audio_bytes[4:8] == b"ftyp":
+        return "m4a"
+    if audio_bytes.startswith(b"ID3") or audio_bytes[:2] == b"\xff\xfb":
+        return "mp3"
+    return "webm"
+
+
+def save_answer_audio(audio_bytes: bytes, extension: Optional[str] = None) -> str:
+    """
+    Store a recorded answer under audio/answers and return its path relative
+    to the audio directory.
+    """
+    os.makedirs(ANSWER_AUDIO_DIR, exist_ok=True)
+    filename = f"answer_{uuid.uuid4()}.{extension or audio_extension(audio_bytes)}"
+    with open(os.path.join(ANSWER_AUDIO_DIR, filename), "wb") as f:
+        f.write(audio_bytes)
+    return f"answers/{filename}"
@@ -0,0 +1,53 @@
+import io
+import os
+
+# Keeps prompts within a sensible budget; longer documents are truncated
+MAX_DOCUMENT_CHARS = 12000
+
+SUPPORTED_EXTENSIONS = (".pdf", ".docx", ".txt")
+
+
+class UnsupportedDocument(ValueError):
+    pass
+
+
+def _pdf_text(content: bytes) -> str:
+    from pypdf import PdfReader
+
+    reader = PdfReader(io.BytesIO(content))
+    return "\n".join(page.extract_text() or "" for page in reader.pages)
+
+
+def _docx_text(content: bytes) -> str:
+    from docx import Document
+
+    document = Document(io.BytesIO(content))
+    return "\n".join(paragraph.text for paragraph in document.paragraphs)
+
+
+def extract_text(filename: str, content: bytes) -> str:
+    """
+    Plain text of an uploaded PDF, DOCX or TXT document, whitespace-trimmed
+    and capped at MAX_DOCUMENT_CHARS.
+    """
+    extension = os.path.splitext(filename or "")[1].lower()
+    try:
+        if extension == ".pdf":
+            text = _pdf_text(content)
+        elif extension == ".docx":
+            text = _docx_text(content)
+        elif extension == ".txt":
+            text = content.decode("utf-8", errors="replace")
+        else:
+            raise UnsupportedDocument(
+                f"Unsupported file type '{extension or filename}', expected one of {', '.join(SUPPORTED_EXTENSIONS)}"
+            )
+    except UnsupportedDocument:
+        raise
+    except Exception as e:
+        raise UnsupportedDocument(f"Could not read {filename}: {e}") from e
+
+    text = "\n".join(line.strip() for line in text.splitlines() if line.strip())
+    if not text:
+        raise UnsupportedDocument(f"No text found in {filename}")
+    return text[:MAX_DOCUMENT_CHARS]
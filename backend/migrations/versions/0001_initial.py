@@ -0,0 +1,52 @@
+"""create interviews, questions and answers
+
+Revision ID: 0001
+Revises:
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0001"
+down_revision = None
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "interviews",
+        sa.Column("id", sa.Uuid(), primary_key=True),
+        sa.Column("role", sa.Text(), nullable=False),
+        sa.Column("difficulty", sa.Text(), nullable=False),
+        sa.Column("current_question", sa.Integer(), nullable=False),
+        sa.Column("status", sa.Text(), nullable=False),
+        sa.Column("created_at", sa.DateTime(timezone=True)),
+    )
+    op.create_table(
+        "questions",
+        sa.Column("id", sa.Uuid(), primary_key=True),
+        sa.Column("interview_id", sa.Uuid(), sa.ForeignKey("interviews.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("position", sa.Integer(), nullable=False),
+        sa.Column("text", sa.Text(), nullable=False),
+        sa.Column("audio_file", sa.Text()),
+    )
+    op.create_index("ix_questions_interview_id", "questions", ["interview_id"])
+    op.create_table(
+        "answers",
+        sa.Column("id", sa.Uuid(), primary_key=True),
+        sa.Column("question_id", sa.Uuid(), sa.ForeignKey("questions.id", ondelete="CASCADE"), nullable=False, unique=True),
+        sa.Column("transcript", sa.Text(), nullable=False),
+        sa.Column("evaluation", sa.JSON(), nullable=False),
+        sa.Column("audio_file", sa.Text()),
+        sa.Column("attempts", sa.Integer(), nullable=False),
+        sa.Column("created_at", sa.DateTime(timezone=True)),
+    )
+
+
+def downgrade() -> None:
+    op.drop_table("answers")
+    op.drop_index("ix_questions_interview_id", table_name="questions")
+    op.drop_table("questions")
+    op.drop_table("interviews")
@@ -0,0 +1,63 @@
+"""convert flat relevance/clarity/correctness evaluations to the rubric format
+
+Revision ID: 0003
+Revises: 0002
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0003"
+down_revision = "0002"
+branch_labels = None
+depends_on = None
+
+answers = sa.table(
+    "answers",
+    sa.column("id", sa.Uuid()),
+    sa.column("evaluation", sa.JSON()),
+)
+
+LEGACY_KEYS = ("relevance", "clarity", "correctness")
+LEGACY_DIMENSIONS = [
+    {"key": key, "label": key.title(), "weight": 1.0} for key in LEGACY_KEYS
+]
+# What the old parser stored when it could not read the model's reply
+LEGACY_FALLBACK_FEEDBACK = "Unable to evaluate answer properly. Please try again."
+
+
+def upgrade() -> None:
+    conn = op.get_bind()
+    for answer_id, evaluation in conn.execute(sa.select(answers.c.id, answers.c.evaluation)).all():
+        if not evaluation or "status" in evaluation:
+            continue
+        if evaluation.get("feedback") == LEGACY_FALLBACK_FEEDBACK:
+            converted = {
+                "status": "failed",
+                "rubric": "general",
+                "dimensions": LEGACY_DIMENSIONS,
+                "error": "The evaluator did not return a valid result."
+            }
+        else:
+            scores = {key: int(evaluation.get(key, 0)) for key in LEGACY_KEYS}
+            converted = {
+                "status": "ok",
+                "rubric": "general",
+                "dimensions": LEGACY_DIMENSIONS,
+                "scores": scores,
+                "overall": round(sum(scores.values()) / len(scores), 1),
+                "feedback": evaluation.get("feedback", "")
+            }
+        conn.execute(answers.update().where(answers.c.id == answer_id).values(evaluation=converted))
+
+
+def downgrade() -> None:
+    conn = op.get_bind()
+    for answer_id, evaluation in conn.execute(sa.select(answers.c.id, answers.c.evaluation)).all():
+        if not evaluation or "status" not in evaluation:
+            continue
+        scores = evaluation.get("scores", {})
+        converted = {key: scores.get(key, 5) for key in LEGACY_KEYS}
+        converted["feedback"] = evaluation.get("feedback", LEGACY_FALLBACK_FEEDBACK)
+        conn.execute(answers.update().where(answers.c.id == answer_id).values(evaluation=converted))
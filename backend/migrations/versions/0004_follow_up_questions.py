@@ -0,0 +1,32 @@
+"""follow-up questions and the per-interview switch for them
+
+Revision ID: 0004
+Revises: 0003
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0004"
+down_revision = "0003"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.add_column(sa.Column("follow_ups", sa.Boolean(), nullable=False, server_default=sa.true()))
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.add_column(sa.Column("parent_id", sa.Uuid()))
+        batch_op.create_foreign_key(
+            "fk_questions_parent_id", "questions", ["parent_id"], ["id"], ondelete="CASCADE"
+        )
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.drop_constraint("fk_questions_parent_id", type_="foreignkey")
+        batch_op.drop_column("parent_id")
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.drop_column("follow_ups")
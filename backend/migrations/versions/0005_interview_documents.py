@@ -0,0 +1,26 @@
+"""store the job description and résumé an interview was tailored to
+
+Revision ID: 0005
+Revises: 0004
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0005"
+down_revision = "0004"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.add_column(sa.Column("job_description", sa.Text()))
+        batch_op.add_column(sa.Column("resume_text", sa.Text()))
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.drop_column("resume_text")
+        batch_op.drop_column("job_description")
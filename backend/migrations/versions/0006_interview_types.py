@@ -0,0 +1,29 @@
+"""interview type per session and question type per question
+
+Revision ID: 0006
+Revises: 0005
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0006"
+down_revision = "0005"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    # Earlier interviews were all graded like today's technical questions
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.add_column(sa.Column("interview_type", sa.Text(), nullable=False, server_default="technical"))
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.add_column(sa.Column("question_type", sa.Text(), nullable=False, server_default="technical"))
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.drop_column("question_type")
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.drop_column("interview_type")
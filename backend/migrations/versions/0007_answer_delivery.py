@@ -0,0 +1,24 @@
+"""delivery analytics per answer
+
+Revision ID: 0007
+Revises: 0006
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0007"
+down_revision = "0006"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    with op.batch_alter_table("answers") as batch_op:
+        batch_op.add_column(sa.Column("delivery", sa.JSON()))
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("answers") as batch_op:
+        batch_op.drop_column("delivery")
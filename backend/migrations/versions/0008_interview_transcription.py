@@ -0,0 +1,26 @@
+"""per-interview speech-to-text model and language
+
+Revision ID: 0008
+Revises: 0007
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0008"
+down_revision = "0007"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.add_column(sa.Column("stt_model", sa.Text()))
+        batch_op.add_column(sa.Column("language", sa.Text()))
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.drop_column("language")
+        batch_op.drop_column("stt_model")
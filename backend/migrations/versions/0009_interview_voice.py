@@ -0,0 +1,26 @@
+"""per-interview text-to-speech voice and rate
+
+Revision ID: 0009
+Revises: 0008
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0009"
+down_revision = "0008"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.add_column(sa.Column("tts_voice", sa.Text()))
+        batch_op.add_column(sa.Column("tts_rate", sa.Float(), nullable=False, server_default="1.0"))
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.drop_column("tts_rate")
+        batch_op.drop_column("tts_voice")
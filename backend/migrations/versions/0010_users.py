@@ -0,0 +1,49 @@
+"""user accounts, auth tokens and interview ownership
+
+Revision ID: 0010
+Revises: 0009
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0010"
+down_revision = "0009"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "users",
+        sa.Column("id", sa.Uuid(), primary_key=True),
+        sa.Column("email", sa.Text(), nullable=False, unique=True),
+        sa.Column("password_hash", sa.Text()),
+        sa.Column("created_at", sa.DateTime(timezone=True)),
+    )
+    op.create_table(
+        "auth_tokens",
+        sa.Column("id", sa.Uuid(), primary_key=True),
+        sa.Column("user_id", sa.Uuid(), sa.ForeignKey("users.id", ondelete="CASCADE"), nullable=False),
+        sa.Column("token_hash", sa.Text(), nullable=False, unique=True),
+        sa.Column("created_at", sa.DateTime(timezone=True)),
+        sa.Column("expires_at", sa.DateTime(timezone=True), nullable=False),
+    )
+    op.create_index("ix_auth_tokens_user_id", "auth_tokens", ["user_id"])
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.add_column(sa.Column("user_id", sa.Uuid()))
+        batch_op.create_foreign_key(
+            "fk_interviews_user_id", "users", ["user_id"], ["id"], ondelete="CASCADE"
+        )
+        batch_op.create_index("ix_interviews_user_id", ["user_id"])
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.drop_index("ix_interviews_user_id")
+        batch_op.drop_constraint("fk_interviews_user_id", type_="foreignkey")
+        batch_op.drop_column("user_id")
+    op.drop_index("ix_auth_tokens_user_id", table_name="auth_tokens")
+    op.drop_table("auth_tokens")
+    op.drop_table("users")
@@ -0,0 +1,36 @@
+"""prep time, per-type answer time limits and answer timestamps
+
+Revision ID: 0011
+Revises: 0010
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0011"
+down_revision = "0010"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.add_column(sa.Column("prep_seconds", sa.Integer(), nullable=False, server_default="0"))
+        batch_op.add_column(sa.Column("time_limits", sa.JSON()))
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.add_column(sa.Column("answer_started_at", sa.DateTime(timezone=True)))
+    with op.batch_alter_table("answers") as batch_op:
+        batch_op.add_column(sa.Column("submitted_at", sa.DateTime(timezone=True)))
+        batch_op.add_column(sa.Column("timing", sa.JSON()))
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("answers") as batch_op:
+        batch_op.drop_column("timing")
+        batch_op.drop_column("submitted_at")
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.drop_column("answer_started_at")
+    with op.batch_alter_table("interviews") as batch_op:
+        batch_op.drop_column("time_limits")
+        batch_op.drop_column("prep_seconds")
@@ -0,0 +1,58 @@
+"""question bank, named question sets and bank questions in interviews
+
+Revision ID: 0012
+Revises: 0011
+Create Date: 2026-10-19
+
+"""
+from alembic import op
+import sqlalchemy as sa
+
+revision = "0012"
+down_revision = "0011"
+branch_labels = None
+depends_on = None
+
+
+def upgrade() -> None:
+    op.create_table(
+        "bank_questions",
+        sa.Column("id", sa.Uuid(), primary_key=True),
+        sa.Column("text", sa.Text(), nullable=False),
+        sa.Column("role", sa.Text()),
+        sa.Column("topic", sa.Text()),
+        sa.Column("difficulty", sa.Text(), nullable=False, server_default="medium"),
+        sa.Column("question_type", sa.Text(), nullable=False, server_default="technical"),
+        sa.Column("reference_answer", sa.Text()),
+        sa.Column("tags", sa.JSON(), nullable=False),
+        sa.Column("created_at", sa.DateTime(timezone=True)),
+    )
+    op.create_table(
+        "question_sets",
+        sa.Column("id", sa.Uuid(), primary_key=True),
+        sa.Column("name", sa.Text(), nullable=False, unique=True),
+        sa.Column("description", sa.Text()),
+        sa.Column("created_at", sa.DateTime(timezone=True)),
+    )
+    op.create_table(
+        "question_set_items",
+        sa.Column("set_id", sa.Uuid(), sa.ForeignKey("question_sets.id", ondelete="CASCADE"), primary_key=True),
+        sa.Column("question_id", sa.Uuid(), sa.ForeignKey("bank_questions.id", ondelete="CASCADE"), primary_key=True),
+        sa.Column("position", sa.Integer(), nullable=False),
+    )
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.add_column(sa.Column("bank_question_id", sa.Uuid()))
+        batch_op.add_column(sa.Column("reference_answer", sa.Text()))
+        batch_op.create_foreign_key(
+            "fk_questions_bank_question_id", "bank_questions", ["bank_question_id"], ["id"], ondelete="SET NULL"
+        )
+
+
+def downgrade() -> None:
+    with op.batch_alter_table("questions") as batch_op:
+        batch_op.drop_constraint("fk_questions_bank_question_id", type_="foreignkey")
+        batch_op.drop_column("reference_answer")
+        batch_op.drop_column("bank_question_id")
+    op.drop_table("question_set_items")
+    op.drop_table("question_sets")
+    op.drop_table("bank_questions")
@@ -0,0 +1,31 @@
+import os
+import tempfile
+
+import pytest
+
+# Settings are read when app.core.config is imported, so the offline
+# providers and a throwaway SQLite database are configured before that
+WORK_DIR = tempfile.mkdtemp(prefix="interview-tests-")
+os.environ.update({
+    "DATABASE_URL": f"sqlite+aiosqlite:///{os.path.join(WORK_DIR, 'interview.db')}",
+    "LLM_PROVIDER": "stub",
+    "STT_PROVIDER": "stub",
+    "TTS_PROVIDER": "stub",
+    "DEV_LOGIN": "true",
+    "TTS_CACHE_MAX_AGE_HOURS": "0",
+})
+# Audio is written relative to the working directory
+os.chdir(WORK_DIR)
+
+from fastapi.testclient import TestClient  # noqa: E402
+
+from app.main import app  # noqa: E402
+
+
+@pytest.fixture
+def client():
+    # Entering the client runs startup, which migrates the database
+    with TestClient(app) as client:
+        token = client.post("/auth/dev-login").json()["token"]
+        client.headers["Authorization"] = f"Bearer {token}"
+        yield client
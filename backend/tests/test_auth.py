@@ -0,0 +1,7 @@
+def test_login_rejects_a_short_password_like_any_wrong_one(client):
+    credentials = {"email": "short-password@example.com", "password": "long enough password"}
+    assert client.post("/auth/register", json=credentials).status_code == 201
+
+    response = client.post("/auth/login", json={**credentials, "password": "short"})
+    assert response.status_code == 401
+    assert response.json()["detail"] == "Invalid email or password"
@@ -0,0 +1,59 @@
+def start(client, count):
+    response = client.post(
+        "/interview/start",
+        params={"role": "Backend Engineer", "count": count, "follow_ups": False}
+    )
+    assert response.status_code == 200
+    return response.json()
+
+
+def answer(client, interview_id, text):
+    response = client.post(f"/interview/{interview_id}/text-answer", json={"text": text})
+    assert response.status_code == 200
+    return response.json()
+
+
+def test_full_interview_with_typed_answers(client):
+    started = start(client, count=2)
+    interview_id = started["interview_id"]
+    assert started["question_index"] == 0
+    assert started["total_questions"] == 2
+    assert "Backend Engineer" in started["question"]
+
+    for index in range(2):
+        result = answer(client, interview_id, f"Answer number {index + 1} with a concrete example.")
+        assert result["transcript"] == f"Answer number {index + 1} with a concrete example."
+        assert result["evaluation"]["status"] == "ok"
+        # Typed answers have no delivery to analyse
+        assert result["delivery"] is None
+
+        next_question = client.get(f"/interview/{interview_id}/next").json()
+        if index == 0:
+            assert next_question["question_index"] == 1
+        else:
+            assert next_question == {"status": "completed"}
+
+    summary = client.get(f"/interview/{interview_id}/summary").json()
+    assert summary["overall_feedback"].startswith("Stub summary")
+    assert summary["average_scores"]["dimensions"]
+
+    detail = client.get(f"/interview/{interview_id}").json()
+    assert detail["status"] == "completed"
+
+
+def test_ending_early_completes_the_interview(client):
+    interview_id = start(client, count=3)["interview_id"]
+    answer(client, interview_id, "The only answer before ending early.")
+
+    assert client.post(f"/interview/{interview_id}/end").status_code == 204
+    assert client.get(f"/interview/{interview_id}/next").json() == {"status": "completed"}
+
+    late = client.post(f"/interview/{interview_id}/text-answer", json={"text": "Too late."})
+    assert late.status_code == 400
+    assert late.json()["detail"] == "Interview already completed"
+
+    summary = client.get(f"/interview/{interview_id}/summary").json()
+    assert summary["average_scores"] is not None
+
+    listed = {item["interview_id"]: item for item in client.get("/interview").json()}
+    assert listed[interview_id]["status"] == "completed"
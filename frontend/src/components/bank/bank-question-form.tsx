@@ -0,0 +1,223 @@
+import { FormEvent, useState } from "react";
+
+import {
+  BankQuestion,
+  BankQuestionInput,
+  Difficulty,
+  QuestionSet,
+  QuestionType,
+} from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import {
+  DIFFICULTY_LABEL_KEYS,
+  DIFFICULTY_OPTIONS,
+  INTERVIEW_TYPE_LABEL_KEYS,
+  QUESTION_TYPES,
+} from "@/lib/interview-types";
+
+interface BankQuestionFormProps {
+  // Omitted when adding a new question
+  question?: BankQuestion;
+  sets: QuestionSet[];
+  saving: boolean;
+  onSave: (input: BankQuestionInput) => void;
+  onCancel: () => void;
+}
+
+const splitTags = (value: string) =>
+  value
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+
+/**
+ * Adds or edits a bank question. Sets are chosen from the existing ones;
+ * new sets are created in the sets panel.
+ */
+export function BankQuestionForm({
+  question,
+  sets,
+  saving,
+  onSave,
+  onCancel,
+}: BankQuestionFormProps) {
+  const { t } = useTranslation();
+  const [text, setText] = useState(question?.text ?? "");
+  const [role, setRole] = useState(question?.role ?? "");
+  const [topic, setTopic] = useState(question?.topic ?? "");
+  const [difficulty, setDifficulty] = useState<Difficulty>(question?.difficulty ?? "medium");
+  const [questionType, setQuestionType] = useState<QuestionType>(
+    question?.question_type ?? "technical",
+  );
+  const [referenceAnswer, setReferenceAnswer] = useState(question?.reference_answer ?? "");
+  const [tags, setTags] = useState(question?.tags.join(", ") ?? "");
+  const [setNames, setSetNames] = useState<string[]>(question?.sets ?? []);
+
+  const toggleSet = (name: string, checked: boolean) =>
+    setSetNames((names) => (checked ? [...names, name] : names.filter((n) => n !== name)));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({
+      text,
+      role: role.trim() || null,
+      topic: topic.trim() || null,
+      difficulty,
+      question_type: questionType,
+      reference_answer: referenceAnswer.trim() || null,
+      tags: splitTags(tags),
+      sets: setNames,
+    });
+  };
+
+  return (
+    <form className="bank-form" onSubmit={handleSubmit} data-testid="bank-question-form">
+      <h3 className="subsection-title">
+        {question ? t("bank.form.editTitle") : t("bank.form.addTitle")}
+      </h3>
+
+      <div className="input-group">
+        <label htmlFor="bank-text-input">{t("bank.form.text")}</label>
+        <textarea
+          id="bank-text-input"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="input-field"
+          rows={3}
+          maxLength={2000}
+          required
+          data-testid="bank-text-input"
+        />
+      </div>
+
+      <div className="input-row">
+        <div className="input-group">
+          <label htmlFor="bank-role-input">{t("bank.form.role")}</label>
+          <input
+            id="bank-role-input"
+            type="text"
+            value={role}
+            onChange={(e) => setRole(e.target.value)}
+            placeholder={t("bank.form.rolePlaceholder")}
+            className="input-field"
+            maxLength={200}
+            data-testid="bank-role-input"
+          />
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="bank-topic-input">{t("bank.form.topic")}</label>
+          <input
+            id="bank-topic-input"
+            type="text"
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            className="input-field"
+            maxLength={200}
+            data-testid="bank-topic-input"
+          />
+        </div>
+      </div>
+
+      <div className="input-row">
+        <div className="input-group">
+          <label htmlFor="bank-type-select">{t("start.type.label")}</label>
+          <select
+            id="bank-type-select"
+            value={questionType}
+            onChange={(e) => setQuestionType(e.target.value as QuestionType)}
+            className="input-field"
+            data-testid="bank-type-select"
+          >
+            {QUESTION_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t(INTERVIEW_TYPE_LABEL_KEYS[type])}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="bank-difficulty-select">{t("start.difficulty.label")}</label>
+          <select
+            id="bank-difficulty-select"
+            value={difficulty}
+            onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+            className="input-field"
+            data-testid="bank-difficulty-select"
+          >
+            {DIFFICULTY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t(DIFFICULTY_LABEL_KEYS[option])}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="bank-reference-input">{t("bank.form.reference")}</label>
+        <textarea
+          id="bank-reference-input"
+          value={referenceAnswer}
+          onChange={(e) => setReferenceAnswer(e.target.value)}
+          className="input-field"
+          rows={5}
+          maxLength={10000}
+          data-testid="bank-reference-input"
+        />
+        <p className="input-hint">{t("bank.form.referenceHint")}</p>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="bank-tags-input">{t("bank.form.tags")}</label>
+        <input
+          id="bank-tags-input"
+          type="text"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          placeholder={t("bank.form.tagsPlaceholder")}
+          className="input-field"
+          data-testid="bank-tags-input"
+        />
+      </div>
+
+      {sets.length > 0 && (
+        <fieldset className="bank-form-sets">
+          <legend>{t("bank.form.sets")}</legend>
+          {sets.map((questionSet) => (
+            <label key={questionSet.id} className="checkbox-field">
+              <input
+                type="checkbox"
+                checked={setNames.includes(questionSet.name)}
+                onChange={(e) => toggleSet(questionSet.name, e.target.checked)}
+              />
+              {questionSet.name}
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      <div className="bank-form-actions">
+        <button
+          type="submit"
+          className="btn btn-primary"
+          disabled={saving || !text.trim()}
+          data-testid="bank-save-btn"
+        >
+          {saving ? (
+            <>
+              <span className="spinner"></span>
+              {t("bank.saving")}
+            </>
+          ) : (
+            t("bank.save")
+          )}
+        </button>
+        <button type="button" className="btn btn-tertiary" onClick={onCancel} disabled={saving}>
+          {t("bank.cancel")}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,108 @@
+import { useState } from "react";
+
+import { bankApi, BankFormat, getErrorMessage } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import { saveFile } from "@/lib/save-file";
+import { ErrorMessage } from "@/components/interview/error-message";
+
+const BANK_FORMATS: { format: BankFormat; label: string }[] = [
+  { format: "json", label: "JSON" },
+  { format: "csv", label: "CSV" },
+];
+
+/**
+ * Moves the whole bank in and out as JSON or CSV, e.g. to share it between
+ * deployments or edit it in a spreadsheet. Imports add questions and never
+ * change existing ones.
+ */
+export function BankTransfer({ onImported }: { onImported: () => void }) {
+  const { t } = useTranslation();
+  const [exporting, setExporting] = useState<BankFormat | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  const handleExport = async (format: BankFormat) => {
+    setExporting(format);
+    setError("");
+    try {
+      const { blob, filename } = await bankApi.exportQuestions(format);
+      saveFile(blob, filename);
+    } catch (err) {
+      setError(getErrorMessage(err, t("error.bankExport")));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setImporting(true);
+    setImported(null);
+    setError("");
+    try {
+      const result = await bankApi.importQuestions(file);
+      setImported(result.imported);
+      onImported();
+    } catch (err) {
+      setError(getErrorMessage(err, t("error.bankImport")));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="report-export" data-testid="bank-transfer">
+      <strong className="report-export-title">{t("bank.transfer.title")}</strong>
+      <div className="report-export-actions">
+        {BANK_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            className="btn btn-tertiary"
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            data-testid={`bank-export-${format}-btn`}
+          >
+            {exporting === format ? (
+              <>
+                <span className="spinner"></span>
+                {t("report.exporting")}
+              </>
+            ) : (
+              t("bank.transfer.export", { format: label })
+            )}
+          </button>
+        ))}
+      </div>
+      <div className="input-group">
+        <label htmlFor="bank-import-file">{t("bank.transfer.import")}</label>
+        <input
+          id="bank-import-file"
+          type="file"
+          accept=".json,.csv"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            // Cleared so the same file can be picked again after fixing it
+            e.target.value = "";
+            if (file) handleImport(file);
+          }}
+          disabled={importing}
+          className="file-input"
+          data-testid="bank-import-file"
+        />
+        <p className="input-hint">{t("bank.transfer.importHint")}</p>
+      </div>
+      {importing && (
+        <p className="completed-text">
+          <span className="spinner"></span>
+          {t("bank.transfer.importing")}
+        </p>
+      )}
+      {imported !== null && (
+        <p className="bank-imported" role="status">
+          {t("bank.transfer.imported", { count: imported })}
+        </p>
+      )}
+      <ErrorMessage message={error} />
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { FormEvent, useState } from "react";
+
+import { bankApi, getErrorMessage, QuestionSet } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import { ErrorMessage } from "@/components/interview/error-message";
+
+interface QuestionSetsPanelProps {
+  sets: QuestionSet[];
+  // Called after any change, since renames and deletions show up on questions too
+  onChange: () => void;
+}
+
+/**
+ * Named sets of bank questions. A set is asked in full and in order, so
+ * everyone in a cohort who starts it gets the same interview.
+ */
+export function QuestionSetsPanel({ sets, onChange }: QuestionSetsPanelProps) {
+  const { t } = useTranslation();
+  // The set being edited; null while adding a new one
+  const [editing, setEditing] = useState<QuestionSet | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const resetForm = () => {
+    setEditing(null);
+    setName("");
+    setDescription("");
+  };
+
+  const startEditing = (questionSet: QuestionSet) => {
+    setEditing(questionSet);
+    setName(questionSet.name);
+    setDescription(questionSet.description ?? "");
+    setError("");
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError("");
+    const input = { name, description: description.trim() || null };
+    try {
+      if (editing) {
+        await bankApi.updateSet(editing.id, input);
+      } else {
+        await bankApi.createSet(input);
+      }
+      resetForm();
+      onChange();
+    } catch (err) {
+      setError(getErrorMessage(err, t("error.saveSet")));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (questionSet: QuestionSet) => {
+    if (!window.confirm(t("bank.sets.confirmDelete", { name: questionSet.name }))) return;
+    setError("");
+    try {
+      await bankApi.deleteSet(questionSet.id);
+      if (editing?.id === questionSet.id) resetForm();
+      onChange();
+    } catch (err) {
+      setError(getErrorMessage(err, t("error.deleteSet")));
+    }
+  };
+
+  return (
+    <div className="history-panel" data-testid="question-sets-panel">
+      <h2 className="section-title">{t("bank.sets.title")}</h2>
+      <p className="input-hint">{t("bank.sets.hint")}</p>
+      <ErrorMessage message={error} />
+
+      {sets.length === 0 ? (
+        <p className="empty-text">{t("bank.sets.empty")}</p>
+      ) : (
+        <ul className="history-list" data-testid="question-set-list">
+          {sets.map((questionSet) => (
+            <li key={questionSet.id} className="bank-item">
+              <div>
+                <strong>{questionSet.name}</strong>
+                <span className="history-meta">
+                  {t("bank.sets.count", { count: questionSet.question_count })}
+                  {questionSet.description && ` · ${questionSet.description}`}
+                </span>
+              </div>
+              <div className="bank-item-actions">
+                <button
+                  type="button"
+                  className="btn btn-tertiary"
+                  onClick={() => startEditing(questionSet)}
+                >
+                  {t("bank.edit")}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-tertiary"
+                  onClick={() => handleDelete(questionSet)}
+                >
+                  {t("bank.delete")}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form className="bank-form" onSubmit={handleSubmit} data-testid="question-set-form">
+        <div className="input-row">
+          <div className="input-group">
+            <label htmlFor="set-name-input">{t("bank.sets.name")}</label>
+            <input
+              id="set-name-input"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="input-field"
+              maxLength={100}
+              required
+              data-testid="set-name-input"
+            />
+          </div>
+          <div className="input-group">
+            <label htmlFor="set-description-input">{t("bank.sets.description")}</label>
+            <input
+              id="set-description-input"
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="input-field"
+              maxLength={1000}
+              data-testid="set-description-input"
+            />
+          </div>
+        </div>
+        <div className="bank-form-actions">
+          <button
+            type="submit"
+            className="btn btn-secondary"
+            disabled={saving || !name.trim()}
+            data-testid="set-save-btn"
+          >
+            {editing ? t("bank.sets.rename") : t("bank.sets.add")}
+          </button>
+          {editing && (
+            <button type="button" className="btn btn-tertiary" onClick={resetForm}>
+              {t("bank.cancel")}
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { format } from "date-fns";
+
+import { InterviewListItem } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+
+const OVERALL_COLOR = "#667eea";
+const DIMENSION_COLORS = ["#10b981", "#f59e0b", "#ef4444", "#0ea5e9", "#a855f7", "#64748b"];
+
+interface Series {
+  key: string;
+  label: string;
+  color: string;
+}
+
+export function ScoreTrendChart({ interviews }: { interviews: InterviewListItem[] }) {
+  const { t, dateLocale } = useTranslation();
+
+  // Oldest first so the line reads left to right
+  const scored = interviews
+    .filter((interview) => interview.average_scores)
+    .slice()
+    .reverse();
+
+  // Rubrics differ between roles, so plot every dimension seen in any interview
+  const series: Series[] = [{
+    key: "overall",
+    label: t("history.chart.overall"),
+    color: OVERALL_COLOR,
+  }];
+  scored.forEach((interview) =>
+    interview.average_scores?.dimensions.forEach((dimension) => {
+      if (series.some((item) => item.key === dimension.key)) return;
+      series.push({
+        key: dimension.key,
+        label: dimension.label,
+        color: DIMENSION_COLORS[(series.length - 1) % DIMENSION_COLORS.length],
+      });
+    }),
+  );
+
+  const points = scored.map((interview) => ({
+    label: format(new Date(interview.created_at), "MMM d", { locale: dateLocale }),
+    role: interview.role,
+    overall: interview.average_scores?.overall,
+    ...Object.fromEntries(
+      (interview.average_scores?.dimensions ?? []).map((d) => [d.key, d.score]),
+    ),
+  }));
+
+  if (points.length < 2) {
+    return (
+      <p className="empty-text" data-testid="score-trend-empty">
+        {t("history.chart.empty")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="trend-chart" data-testid="score-trend-chart">
+      <ResponsiveContainer width="100%" height={260}>
+        <LineChart data={points} margin={{ top: 8, right: 16, bottom: 8, left: -16 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis domain={[0, 10]} tick={{ fontSize: 12 }} />
+          <Tooltip />
+          <Legend />
+          {series.map((item) => (
+            <Line
+              key={item.key}
+              type="monotone"
+              dataKey={item.key}
+              name={item.label}
+              stroke={item.color}
+              strokeWidth={item.key === "overall" ? 3 : 2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useMemo } from "react";
+
+import { useTranslation } from "@/lib/i18n";
+
+interface AnswerPreviewProps {
+  recording: Blob;
+  replacesAnswer: boolean;
+  onSubmit: () => void;
+  onRerecord: () => void;
+}
+
+export function AnswerPreview({
+  recording,
+  replacesAnswer,
+  onSubmit,
+  onRerecord,
+}: AnswerPreviewProps) {
+  const { t } = useTranslation();
+  const url = useMemo(() => URL.createObjectURL(recording), [recording]);
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  return (
+    <div className="answer-preview fade-in" data-testid="answer-preview">
+      <p className="answer-preview-title">{t("preview.title")}</p>
+      <audio
+        src={url}
+        controls
+        className="audio-player"
+        data-testid="answer-preview-player"
+      />
+      <div className="action-buttons">
+        <button
+          className="btn btn-primary btn-large"
+          onClick={onSubmit}
+          aria-keyshortcuts="S"
+          data-testid="submit-answer-btn"
+        >
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M22 2L11 13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+            <path d="M22 2L15 22L11 13L2 9L22 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+          {replacesAnswer ? t("preview.replace") : t("preview.submit")}
+        </button>
+        <button
+          className="btn btn-tertiary btn-large"
+          onClick={onRerecord}
+          aria-keyshortcuts="R"
+          data-testid="rerecord-btn"
+        >
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M1 4V10H7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+            <path d="M3.51 15C4.16 16.84 5.38 18.42 7 19.5C8.62 20.58 10.54 21.1 12.48 20.98C14.42 20.86 16.27 20.11 17.74 18.83C19.22 17.56 20.24 15.84 20.66 13.94C21.08 12.04 20.87 10.05 20.06 8.27C19.26 6.5 17.9 5.03 16.2 4.08C14.5 3.13 12.54 2.76 10.61 3.01C8.68 3.27 6.89 4.14 5.5 5.5L1 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+          {t("preview.rerecord")}
+        </button>
+      </div>
+    </div>
+  );
+}
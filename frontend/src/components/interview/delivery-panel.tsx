@@ -0,0 +1,90 @@
+import { DeliveryMetrics } from "@/lib/api";
+import { MessageKey, useTranslation } from "@/lib/i18n";
+import { formatDuration } from "@/hooks/use-elapsed-seconds";
+
+interface DeliveryPanelProps {
+  delivery: DeliveryMetrics;
+}
+
+// Conversational pace for interview answers, in words per minute
+const SLOW_PACE_WPM = 110;
+const FAST_PACE_WPM = 170;
+
+const paceHint = (wpm: number): MessageKey => {
+  if (wpm < SLOW_PACE_WPM) return "delivery.pace.slow";
+  if (wpm > FAST_PACE_WPM) return "delivery.pace.fast";
+  return "delivery.pace.good";
+};
+
+const formatCounts = (counts: Record<string, number>): string =>
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([term, count]) => `“${term}” ×${count}`)
+    .join(", ");
+
+function DeliveryStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="delivery-stat">
+      <span className="delivery-stat-value">{value}</span>
+      <span className="delivery-stat-label">{label}</span>
+    </div>
+  );
+}
+
+export function DeliveryPanel({ delivery }: DeliveryPanelProps) {
+  const { t } = useTranslation();
+  const wpm = delivery.words_per_minute;
+
+  return (
+    <div className="delivery-panel" data-testid="delivery-panel">
+      <h4 className="delivery-title">{t("delivery.title")}</h4>
+
+      <div className="delivery-stats">
+        <DeliveryStat
+          label={t("delivery.wordsPerMinute")}
+          value={wpm === null ? "—" : String(Math.round(wpm))}
+        />
+        <DeliveryStat
+          label={t("delivery.speakingTime")}
+          value={
+            delivery.speaking_seconds === null
+              ? "—"
+              : formatDuration(Math.round(delivery.speaking_seconds))
+          }
+        />
+        <DeliveryStat label={t("delivery.words")} value={String(delivery.word_count)} />
+        <DeliveryStat label={t("delivery.fillers")} value={String(delivery.filler_count)} />
+        <DeliveryStat label={t("delivery.hedges")} value={String(delivery.hedge_count)} />
+        <DeliveryStat
+          label={t("delivery.longPauses")}
+          value={delivery.long_pauses === null ? "—" : String(delivery.long_pauses)}
+        />
+      </div>
+
+      <ul className="delivery-notes">
+        {wpm !== null && <li>{t(paceHint(wpm))}</li>}
+        {delivery.filler_count > 0 && (
+          <li>
+            <span className="highlight-filler">{t("delivery.fillersLabel")}</span>{" "}
+            {formatCounts(delivery.fillers)}
+          </li>
+        )}
+        {delivery.hedge_count > 0 && (
+          <li>
+            <span className="highlight-hedge">{t("delivery.hedgesLabel")}</span>{" "}
+            {formatCounts(delivery.hedges)}
+          </li>
+        )}
+        {delivery.longest_pause_seconds !== null &&
+          delivery.long_pauses !== null &&
+          delivery.long_pauses > 0 && (
+            <li>
+              {t("delivery.longestPause", {
+                seconds: delivery.longest_pause_seconds.toFixed(1),
+              })}
+            </li>
+          )}
+      </ul>
+    </div>
+  );
+}
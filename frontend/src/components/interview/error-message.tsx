@@ -0,0 +1,14 @@
+export function ErrorMessage({ message }: { message: string }) {
+  if (!message) return null;
+
+  return (
+    <div className="error-message fade-in" role="alert" data-testid="error-message">
+      <svg className="error-icon" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+        <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
+        <path d="M12 8V12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+        <circle cx="12" cy="16" r="1" fill="currentColor"/>
+      </svg>
+      {message}
+    </div>
+  );
+}
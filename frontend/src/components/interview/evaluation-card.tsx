@@ -0,0 +1,177 @@
+import { ReactElement } from "react";
+
+import { AverageScores, EvaluationData, RubricDimension, ScoredEvaluation } from "@/lib/api";
+import { MessageKey, useTranslation } from "@/lib/i18n";
+
+export const getScoreColor = (score: number) => {
+  if (score >= 8) return "score-excellent";
+  if (score >= 6) return "score-good";
+  if (score >= 4) return "score-fair";
+  return "score-poor";
+};
+
+// Icons for the common dimensions; rubric-specific ones use the default
+const DIMENSION_ICONS: Record<string, ReactElement> = {
+  relevance: (
+    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
+      <path d="M12 6V12L16 14" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+    </svg>
+  ),
+  clarity: (
+    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2"/>
+      <path d="M12 1V3" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M12 21V23" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M4.22 4.22L5.64 5.64" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M18.36 18.36L19.78 19.78" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M1 12H3" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M21 12H23" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M4.22 19.78L5.64 18.36" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M18.36 5.64L19.78 4.22" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+    </svg>
+  ),
+  correctness: (
+    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+      <path d="M22 11.08V12C21.9988 14.1564 21.3005 16.2547 20.0093 17.9818C18.7182 19.7088 16.9033 20.9725 14.8354 21.5839C12.7674 22.1953 10.5573 22.1219 8.53447 21.3746C6.51168 20.6273 4.78465 19.2461 3.61096 17.4371C2.43727 15.628 1.87979 13.4881 2.02168 11.3363C2.16356 9.18455 2.99721 7.13631 4.39828 5.49706C5.79935 3.85781 7.69279 2.71537 9.79619 2.24013C11.8996 1.7649 14.1003 1.98232 16.07 2.85999" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+      <path d="M22 4L12 14.01L9 11.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+    </svg>
+  ),
+};
+
+const DEFAULT_DIMENSION_ICON = (
+  <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M12 2L15.09 8.26L22 9.27L17 14.14L18.18 21.02L12 17.77L5.82 21.02L7 14.14L2 9.27L8.91 8.26L12 2Z" stroke="currentColor" strokeWidth="2" strokeLinejoin="round"/>
+  </svg>
+);
+
+// A rubric dimension of one answer, or one averaged over the interview (which has no weight)
+type ScoreDimension = RubricDimension | AverageScores["dimensions"][number];
+
+export function ScoreItem({ dimension, score }: { dimension: ScoreDimension; score: number }) {
+  return (
+    <div className={`score-item ${getScoreColor(score)}`}>
+      <div className="score-label">
+        {DIMENSION_ICONS[dimension.key] ?? DEFAULT_DIMENSION_ICON}
+        {dimension.label}
+      </div>
+      <div className="score-value" data-testid={`score-${dimension.key}`}>
+        {score}
+        <span className="score-max">/10</span>
+      </div>
+    </div>
+  );
+}
+
+const STAR_PARTS: {
+  key: keyof NonNullable<ScoredEvaluation["star"]>;
+  labelKey: MessageKey;
+}[] = [
+  { key: "situation", labelKey: "evaluation.star.situation" },
+  { key: "task", labelKey: "evaluation.star.task" },
+  { key: "action", labelKey: "evaluation.star.action" },
+  { key: "result", labelKey: "evaluation.star.result" },
+];
+
+function StarCoverage({ star }: { star: NonNullable<ScoredEvaluation["star"]> }) {
+  const { t } = useTranslation();
+  const missing = STAR_PARTS.filter((part) => !star[part.key]);
+
+  return (
+    <div className="star-coverage" data-testid="star-coverage">
+      <strong>STAR</strong>
+      {STAR_PARTS.map((part) => (
+        <span
+          key={part.key}
+          className={`star-part ${star[part.key] ? "star-covered" : "star-missing"}`}
+          data-testid={`star-${part.key}`}
+        >
+          {t(part.labelKey)}
+        </span>
+      ))}
+      <span className="input-hint">
+        {missing.length === 0
+          ? t("evaluation.star.allCovered")
+          : t("evaluation.star.missing", {
+              parts: missing.map((part) => t(part.labelKey)).join(", "),
+            })}
+      </span>
+    </div>
+  );
+}
+
+interface EvaluationCardProps {
+  evaluation: EvaluationData;
+  // Offered when the evaluation failed and can be run again
+  onRetry?: () => void;
+  retrying?: boolean;
+}
+
+export function EvaluationCard({ evaluation, onRetry, retrying = false }: EvaluationCardProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="evaluation-box" data-testid="evaluation-box">
+      <div className="box-header">
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M9 5H7C5.89543 5 5 5.89543 5 7V19C5 20.1046 5.89543 21 7 21H17C18.1046 21 19 20.1046 19 19V7C19 5.89543 18.1046 5 17 5H15" stroke="currentColor" strokeWidth="2"/>
+          <path d="M9 5C9 3.89543 9.89543 3 11 3H13C14.1046 3 15 3.89543 15 5V7H9V5Z" stroke="currentColor" strokeWidth="2"/>
+          <path d="M9 12L11 14L15 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+        </svg>
+        <h3 className="subsection-title">{t("evaluation.title")}</h3>
+        {evaluation.status === "ok" && (
+          <span
+            className={`overall-score ${getScoreColor(evaluation.overall)}`}
+            data-testid="overall-score"
+          >
+            {evaluation.overall.toFixed(1)}
+            <span className="score-max">/10</span>
+          </span>
+        )}
+      </div>
+
+      {evaluation.status === "failed" ? (
+        <div className="evaluation-failed" role="alert" data-testid="evaluation-failed">
+          <p>
+            <strong>{t("evaluation.failed")}</strong> {evaluation.error}{" "}
+            {t("evaluation.failedSaved")}
+          </p>
+          {onRetry && (
+            <button
+              onClick={onRetry}
+              className="btn btn-secondary"
+              disabled={retrying}
+              data-testid="retry-evaluation-button"
+            >
+              {retrying ? t("evaluation.retrying") : t("evaluation.retry")}
+            </button>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="scores" data-testid="evaluation-scores">
+            {evaluation.dimensions.map((dimension) => (
+              <ScoreItem
+                key={dimension.key}
+                dimension={dimension}
+                score={evaluation.scores[dimension.key] ?? 0}
+              />
+            ))}
+          </div>
+
+          {evaluation.star && <StarCoverage star={evaluation.star} />}
+
+          <div className="feedback" data-testid="evaluation-feedback">
+            <div className="feedback-header">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M21 11.5C21.0034 12.8199 20.6951 14.1219 20.1 15.3C19.3944 16.7118 18.3098 17.8992 16.9674 18.7293C15.6251 19.5594 14.0782 19.9994 12.5 20C11.1801 20.0035 9.87812 19.6951 8.7 19.1L3 21L4.9 15.3C4.30493 14.1219 3.99656 12.8199 4 11.5C4.00061 9.92179 4.44061 8.37488 5.27072 7.03258C6.10083 5.69028 7.28825 4.6056 8.7 3.90003C9.87812 3.30496 11.1801 2.99659 12.5 3.00003H13C15.0843 3.11502 17.053 3.99479 18.5291 5.47089C20.0052 6.94699 20.885 8.91568 21 11V11.5Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+              <strong>{t("evaluation.feedback")}</strong>
+            </div>
+            <p>{evaluation.feedback}</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
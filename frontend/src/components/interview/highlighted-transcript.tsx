@@ -0,0 +1,46 @@
+import { ReactNode } from "react";
+
+import { DeliveryMetrics } from "@/lib/api";
+import { MessageKey, useTranslation } from "@/lib/i18n";
+
+interface HighlightedTranscriptProps {
+  transcript: string;
+  delivery?: DeliveryMetrics | null;
+}
+
+const HIGHLIGHT_TITLES: Record<"filler" | "hedge", MessageKey> = {
+  filler: "answer.highlight.filler",
+  hedge: "answer.highlight.hedge",
+};
+
+// Marks the filler and hedge spans the delivery analysis found
+export function HighlightedTranscript({
+  transcript,
+  delivery,
+}: HighlightedTranscriptProps) {
+  const { t } = useTranslation();
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  for (const span of delivery?.highlights ?? []) {
+    if (span.start < cursor || span.end > transcript.length) continue;
+    parts.push(transcript.slice(cursor, span.start));
+    parts.push(
+      <mark
+        key={span.start}
+        className={`highlight-${span.kind}`}
+        title={t(HIGHLIGHT_TITLES[span.kind])}
+      >
+        {transcript.slice(span.start, span.end)}
+      </mark>,
+    );
+    cursor = span.end;
+  }
+  parts.push(transcript.slice(cursor));
+
+  return (
+    <p className="transcript-text" data-testid="transcript-text">
+      {parts}
+    </p>
+  );
+}
@@ -0,0 +1,66 @@
+import { useTranslation } from "@/lib/i18n";
+
+const DOCUMENT_ACCEPT = ".pdf,.docx,.txt";
+
+interface JobContextFieldsProps {
+  jobDescription: string;
+  onJobDescriptionChange: (value: string) => void;
+  jobDescriptionFile: File | null;
+  onJobDescriptionFileChange: (file: File | null) => void;
+  onResumeChange: (file: File | null) => void;
+}
+
+/**
+ * Optional job description and résumé used to tailor the questions. The
+ * job description can be pasted or uploaded; an upload wins.
+ */
+export function JobContextFields({
+  jobDescription,
+  onJobDescriptionChange,
+  jobDescriptionFile,
+  onJobDescriptionFileChange,
+  onResumeChange,
+}: JobContextFieldsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <details className="job-context" data-testid="job-context">
+      <summary>{t("jobContext.summary")}</summary>
+
+      <div className="input-group">
+        <label htmlFor="job-description-input">{t("jobContext.jobDescription")}</label>
+        <textarea
+          id="job-description-input"
+          value={jobDescription}
+          onChange={(e) => onJobDescriptionChange(e.target.value)}
+          placeholder={t("jobContext.jobDescriptionPlaceholder")}
+          className="input-field"
+          rows={5}
+          maxLength={12000}
+          disabled={jobDescriptionFile !== null}
+          data-testid="job-description-input"
+        />
+        <input
+          type="file"
+          accept={DOCUMENT_ACCEPT}
+          aria-label={t("jobContext.jobDescriptionUpload")}
+          onChange={(e) => onJobDescriptionFileChange(e.target.files?.[0] ?? null)}
+          className="file-input"
+          data-testid="job-description-file"
+        />
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="resume-input">{t("jobContext.resume")}</label>
+        <input
+          id="resume-input"
+          type="file"
+          accept={DOCUMENT_ACCEPT}
+          onChange={(e) => onResumeChange(e.target.files?.[0] ?? null)}
+          className="file-input"
+          data-testid="resume-file"
+        />
+      </div>
+    </details>
+  );
+}
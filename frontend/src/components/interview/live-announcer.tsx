@@ -0,0 +1,11 @@
+/**
+ * Off-screen live region: screen readers read out whatever text it is given,
+ * e.g. a new question or the scores for an answer.
+ */
+export function LiveAnnouncer({ message }: { message: string }) {
+  return (
+    <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+      {message}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { bankApi, QuestionSource } from "@/lib/api";
+import { MessageKey, useTranslation } from "@/lib/i18n";
+import { useApiQuery } from "@/hooks/use-api-query";
+
+const SOURCE_OPTIONS: { value: QuestionSource; labelKey: MessageKey; hintKey: MessageKey }[] = [
+  { value: "llm", labelKey: "source.llm", hintKey: "source.llm.hint" },
+  { value: "bank", labelKey: "source.bank", hintKey: "source.bank.hint" },
+  { value: "set", labelKey: "source.set", hintKey: "source.set.hint" },
+];
+
+interface QuestionSourceFieldsProps {
+  source: QuestionSource;
+  onSourceChange: (value: QuestionSource) => void;
+  questionSet: string;
+  onQuestionSetChange: (value: string) => void;
+}
+
+/**
+ * Where the interview's questions come from: generated for this interview,
+ * drawn from the shared question bank, or a named set asked in full.
+ */
+export function QuestionSourceFields({
+  source,
+  onSourceChange,
+  questionSet,
+  onQuestionSetChange,
+}: QuestionSourceFieldsProps) {
+  const { t } = useTranslation();
+  const { data: sets } = useApiQuery(
+    "question-sets",
+    (signal) => bankApi.listSets({ signal }),
+    t("error.questionSets"),
+  );
+  const selectedSet = sets?.find((s) => s.id === questionSet);
+
+  return (
+    <div className="input-row">
+      <div className="input-group">
+        <label htmlFor="question-source-select">{t("source.label")}</label>
+        <select
+          id="question-source-select"
+          value={source}
+          onChange={(e) => onSourceChange(e.target.value as QuestionSource)}
+          className="input-field"
+          data-testid="question-source-select"
+        >
+          {SOURCE_OPTIONS.map((option) => (
+            <option
+              key={option.value}
+              value={option.value}
+              disabled={option.value === "set" && !sets?.length}
+            >
+              {t(option.labelKey)}
+            </option>
+          ))}
+        </select>
+        <p className="input-hint">
+          {t(SOURCE_OPTIONS.find((option) => option.value === source)?.hintKey ?? "source.llm.hint")}
+        </p>
+      </div>
+
+      {source === "set" && (
+        <div className="input-group">
+          <label htmlFor="question-set-select">{t("source.set.label")}</label>
+          <select
+            id="question-set-select"
+            value={questionSet}
+            onChange={(e) => onQuestionSetChange(e.target.value)}
+            className="input-field"
+            data-testid="question-set-select"
+          >
+            <option value="">{t("source.set.choose")}</option>
+            {sets?.map((option) => (
+              <option key={option.id} value={option.id} disabled={option.question_count === 0}>
+                {t("source.set.option", { name: option.name, count: option.question_count })}
+              </option>
+            ))}
+          </select>
+          {selectedSet?.description && <p className="input-hint">{selectedSet.description}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useEffect, useRef } from "react";
+
+import { useTranslation } from "@/lib/i18n";
+import { formatDuration } from "@/hooks/use-elapsed-seconds";
+
+interface RecordingMonitorProps {
+  analyser: AnalyserNode | null;
+  level: number;
+  isSilent: boolean;
+  elapsedSeconds: number;
+  maxSeconds: number;
+}
+
+const WAVEFORM_COLOR = "#5568d3";
+
+function Waveform({ analyser }: { analyser: AnalyserNode | null }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context || !analyser) return;
+
+    const samples = new Uint8Array(analyser.fftSize);
+    let frame = 0;
+
+    const draw = () => {
+      analyser.getByteTimeDomainData(samples);
+      const { width, height } = canvas;
+      context.clearRect(0, 0, width, height);
+      context.lineWidth = 2;
+      context.strokeStyle = WAVEFORM_COLOR;
+      context.beginPath();
+
+      const step = width / samples.length;
+      for (let i = 0; i < samples.length; i++) {
+        const y = (samples[i] / 255) * height;
+        if (i === 0) context.moveTo(0, y);
+        else context.lineTo(i * step, y);
+      }
+      context.stroke();
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+
+    return () => cancelAnimationFrame(frame);
+  }, [analyser]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="waveform"
+      width={600}
+      height={80}
+      data-testid="waveform"
+    />
+  );
+}
+
+export function RecordingMonitor({
+  analyser,
+  level,
+  isSilent,
+  elapsedSeconds,
+  maxSeconds,
+}: RecordingMonitorProps) {
+  const { t } = useTranslation();
+  const remaining = Math.max(0, maxSeconds - elapsedSeconds);
+
+  return (
+    <div className="recording-monitor" data-testid="recording-monitor">
+      <Waveform analyser={analyser} />
+
+      <div className="recording-meta">
+        <div
+          className="level-meter"
+          role="meter"
+          aria-label={t("recording.level")}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(level * 100)}
+        >
+          <div className="level-meter-fill" style={{ width: `${level * 100}%` }} />
+        </div>
+        <span
+          className={`recording-timer ${remaining <= 10 ? "recording-timer-warning" : ""}`}
+          data-testid="recording-timer"
+        >
+          {formatDuration(elapsedSeconds)} / {formatDuration(maxSeconds)}
+        </span>
+      </div>
+
+      {isSilent && (
+        <p className="silence-warning" role="alert" data-testid="silence-warning">
+          {t("recording.silence")}
+        </p>
+      )}
+    </div>
+  );
+}
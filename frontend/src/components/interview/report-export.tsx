@@ -0,0 +1,74 @@
+import { useState } from "react";
+
+import { getErrorMessage, interviewApi, ReportFormat } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import { saveFile } from "@/lib/save-file";
+import { ErrorMessage } from "@/components/interview/error-message";
+
+const REPORT_FORMATS: { format: ReportFormat; label: string }[] = [
+  { format: "pdf", label: "PDF" },
+  { format: "markdown", label: "Markdown" },
+];
+
+/**
+ * Downloads the full interview report (questions, answers, scores and the
+ * summary) for sharing outside the app.
+ */
+export function ReportExport({ interviewId }: { interviewId: string }) {
+  const { t } = useTranslation();
+  const [includeAudio, setIncludeAudio] = useState(false);
+  const [exporting, setExporting] = useState<ReportFormat | null>(null);
+  const [error, setError] = useState("");
+
+  const handleExport = async (format: ReportFormat) => {
+    setExporting(format);
+    setError("");
+    try {
+      const { blob, filename } = await interviewApi.downloadReport(
+        interviewId,
+        { format, includeAudio },
+      );
+      saveFile(blob, filename);
+    } catch (err) {
+      setError(getErrorMessage(err, t("error.report")));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="report-export" data-testid="report-export">
+      <strong className="report-export-title">{t("report.title")}</strong>
+      <div className="report-export-actions">
+        {REPORT_FORMATS.map(({ format, label }) => (
+          <button
+            key={format}
+            className="btn btn-tertiary"
+            onClick={() => handleExport(format)}
+            disabled={exporting !== null}
+            data-testid={`export-${format}-btn`}
+          >
+            {exporting === format ? (
+              <>
+                <span className="spinner"></span>
+                {t("report.exporting")}
+              </>
+            ) : (
+              label
+            )}
+          </button>
+        ))}
+      </div>
+      <label className="checkbox-field">
+        <input
+          type="checkbox"
+          checked={includeAudio}
+          onChange={(e) => setIncludeAudio(e.target.checked)}
+          data-testid="export-audio-checkbox"
+        />
+        {t("report.includeAudio")}
+      </label>
+      <ErrorMessage message={error} />
+    </div>
+  );
+}
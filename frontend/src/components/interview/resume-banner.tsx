@@ -0,0 +1,45 @@
+import { SessionState } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+
+interface ResumeBannerProps {
+  session: SessionState;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+export function ResumeBanner({ session, onResume, onDiscard }: ResumeBannerProps) {
+  const { t } = useTranslation();
+  const total = session.current_question?.total_questions;
+  const answered = session.answers.length;
+
+  return (
+    <div className="resume-banner fade-in" role="status" data-testid="resume-banner">
+      <div>
+        <strong>{t("resume.title")}</strong>
+        <p className="history-meta">
+          {session.role}
+          {" · "}
+          {total
+            ? t("resume.answeredOf", { answered, total })
+            : t("resume.answered", { answered })}
+        </p>
+      </div>
+      <div className="resume-actions">
+        <button
+          className="btn btn-primary"
+          onClick={onResume}
+          data-testid="resume-interview-btn"
+        >
+          {t("resume.action", { role: session.role })}
+        </button>
+        <button
+          className="btn btn-tertiary"
+          onClick={onDiscard}
+          data-testid="discard-interview-btn"
+        >
+          {t("resume.discard")}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { FormEvent, KeyboardEvent, useEffect, useRef } from "react";
+
+import { useTranslation } from "@/lib/i18n";
+import { formatDuration } from "@/hooks/use-elapsed-seconds";
+
+interface TextAnswerFormProps {
+  value: string;
+  onChange: (value: string) => void;
+  replacesAnswer: boolean;
+  // Typing time against the question's limit; the limit is not enforced
+  elapsedSeconds: number;
+  limitSeconds: number;
+  submitting: boolean;
+  onSubmit: () => void;
+  // Hidden when there is no microphone to go back to
+  onCancel?: () => void;
+}
+
+/**
+ * Typed answer, for candidates without a working microphone or who prefer
+ * not to speak. Ctrl/Cmd+Enter submits. Running past the time limit is
+ * allowed but shows, and the overtime is noted in the feedback.
+ */
+export function TextAnswerForm({
+  value,
+  onChange,
+  replacesAnswer,
+  elapsedSeconds,
+  limitSeconds,
+  submitting,
+  onSubmit,
+  onCancel,
+}: TextAnswerFormProps) {
+  const { t } = useTranslation();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    textareaRef.current?.focus();
+  }, []);
+
+  const canSubmit = value.trim().length > 0 && !submitting;
+  const overLimit = elapsedSeconds > limitSeconds;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (canSubmit) onSubmit();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey) && canSubmit) {
+      e.preventDefault();
+      onSubmit();
+    }
+  };
+
+  return (
+    <form className="text-answer fade-in" onSubmit={handleSubmit} data-testid="text-answer">
+      <label htmlFor="text-answer-input" className="answer-preview-title">
+        {t("textAnswer.label")}
+      </label>
+      <textarea
+        id="text-answer-input"
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className="input-field"
+        rows={6}
+        maxLength={10000}
+        aria-describedby="text-answer-hint"
+        disabled={submitting}
+        data-testid="text-answer-input"
+      />
+      <div className="text-answer-meta">
+        <p id="text-answer-hint" className="input-hint">
+          {t("textAnswer.hint")}
+        </p>
+        <span
+          className={`recording-timer ${overLimit ? "recording-timer-warning" : ""}`}
+          data-testid="text-answer-timer"
+        >
+          {overLimit && `${t("timing.overLimit")} `}
+          {formatDuration(elapsedSeconds)} / {formatDuration(limitSeconds)}
+        </span>
+      </div>
+      <div className="action-buttons">
+        <button
+          type="submit"
+          className="btn btn-primary btn-large"
+          disabled={!canSubmit}
+          data-testid="submit-text-answer-btn"
+        >
+          {replacesAnswer ? t("preview.replace") : t("preview.submit")}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            className="btn btn-tertiary btn-large"
+            onClick={onCancel}
+            disabled={submitting}
+            data-testid="use-voice-btn"
+          >
+            {t("textAnswer.useVoice")}
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
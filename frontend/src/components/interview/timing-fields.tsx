@@ -0,0 +1,90 @@
+import { InterviewType, QuestionType } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import { INTERVIEW_TYPE_LABEL_KEYS, QUESTION_TYPES } from "@/lib/interview-types";
+
+export type TimeLimits = Record<QuestionType, number>;
+
+// Same as the server defaults, so an untouched form changes nothing
+export const DEFAULT_TIME_LIMITS: TimeLimits = {
+  behavioral: 120,
+  technical: 180,
+  system_design: 300,
+};
+
+const PREP_SECONDS_OPTIONS = [0, 15, 30, 60];
+const TIME_LIMIT_OPTIONS = [60, 90, 120, 180, 300, 600];
+
+interface TimingFieldsProps {
+  interviewType: InterviewType;
+  prepSeconds: number;
+  onPrepSecondsChange: (value: number) => void;
+  timeLimits: TimeLimits;
+  onTimeLimitsChange: (value: TimeLimits) => void;
+}
+
+/**
+ * Think time before each answer and the answer time limit, per question
+ * type. Only the types the interview will ask are offered.
+ */
+export function TimingFields({
+  interviewType,
+  prepSeconds,
+  onPrepSecondsChange,
+  timeLimits,
+  onTimeLimitsChange,
+}: TimingFieldsProps) {
+  const { t } = useTranslation();
+  const types = interviewType === "mixed" ? QUESTION_TYPES : [interviewType];
+
+  const formatSeconds = (seconds: number) =>
+    seconds % 60 === 0
+      ? t("timing.minutes", { count: seconds / 60 })
+      : t("timing.seconds", { count: seconds });
+
+  return (
+    <div className="timing-fields" data-testid="timing-fields">
+      <div className="input-row">
+        <div className="input-group">
+          <label htmlFor="prep-seconds-select">{t("timing.prep.label")}</label>
+          <select
+            id="prep-seconds-select"
+            value={prepSeconds}
+            onChange={(e) => onPrepSecondsChange(Number(e.target.value))}
+            className="input-field"
+            data-testid="prep-seconds-select"
+          >
+            {PREP_SECONDS_OPTIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0 ? t("timing.prep.none") : formatSeconds(seconds)}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {types.map((type) => (
+          <div key={type} className="input-group">
+            <label htmlFor={`time-limit-${type}-select`}>
+              {t("timing.limit.label", { type: t(INTERVIEW_TYPE_LABEL_KEYS[type]) })}
+            </label>
+            <select
+              id={`time-limit-${type}-select`}
+              value={timeLimits[type]}
+              onChange={(e) =>
+                onTimeLimitsChange({ ...timeLimits, [type]: Number(e.target.value) })
+              }
+              className="input-field"
+              data-testid={`time-limit-${type}-select`}
+            >
+              {TIME_LIMIT_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {formatSeconds(seconds)}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+      <p className="input-hint">{t("timing.limit.hint")}</p>
+    </div>
+  );
+}
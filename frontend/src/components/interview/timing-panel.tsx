@@ -0,0 +1,42 @@
+import { AnswerTiming } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import { formatDuration } from "@/hooks/use-elapsed-seconds";
+
+interface TimingPanelProps {
+  timing: AnswerTiming;
+}
+
+/**
+ * How long the answer took against its limit, as measured by the server.
+ * Renders nothing when the answer start was never recorded.
+ */
+export function TimingPanel({ timing }: TimingPanelProps) {
+  const { t } = useTranslation();
+  if (timing.answer_seconds === null) return null;
+
+  const overtimePercent = Math.round((timing.overtime_ratio ?? 0) * 100);
+
+  return (
+    <div className="timing-panel" data-testid="timing-panel">
+      <h4 className="timing-title">{t("timing.title")}</h4>
+      <p>
+        {t("timing.answered", {
+          time: formatDuration(Math.round(timing.answer_seconds)),
+          limit: formatDuration(timing.limit_seconds),
+        })}
+        {timing.think_seconds !== null &&
+          ` · ${t("timing.think", { time: formatDuration(Math.round(timing.think_seconds)) })}`}
+      </p>
+      {overtimePercent > 0 ? (
+        <p className="timing-overtime" data-testid="timing-overtime">
+          {t("timing.over", {
+            percent: overtimePercent,
+            time: formatDuration(Math.round(timing.overtime_seconds ?? 0)),
+          })}
+        </p>
+      ) : (
+        <p className="timing-within">{t("timing.within")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useTranslation } from "@/lib/i18n";
+import { STT_MODEL_OPTIONS } from "@/lib/transcription-options";
+
+interface TranscriptionFieldsProps {
+  sttModel: string;
+  onSttModelChange: (value: string) => void;
+}
+
+/**
+ * Per-interview speech-to-text settings. Smaller models answer faster;
+ * larger ones cope better with accents and noisy rooms.
+ */
+export function TranscriptionFields({ sttModel, onSttModelChange }: TranscriptionFieldsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <details className="job-context" data-testid="transcription-settings">
+      <summary>{t("transcription.summary")}</summary>
+
+      <div className="input-group">
+        <label htmlFor="stt-model-select">{t("transcription.model")}</label>
+        <select
+          id="stt-model-select"
+          value={sttModel}
+          onChange={(e) => onSttModelChange(e.target.value)}
+          className="input-field"
+          data-testid="stt-model-select"
+        >
+          {STT_MODEL_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {t(option.labelKey)}
+            </option>
+          ))}
+        </select>
+      </div>
+    </details>
+  );
+}
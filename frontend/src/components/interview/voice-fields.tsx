@@ -0,0 +1,75 @@
+import { interviewApi } from "@/lib/api";
+import { MessageKey, useTranslation } from "@/lib/i18n";
+import { useApiQuery } from "@/hooks/use-api-query";
+
+const SPEECH_RATE_OPTIONS: { value: number; labelKey: MessageKey }[] = [
+  { value: 0.8, labelKey: "voice.rate.slower" },
+  { value: 1, labelKey: "voice.rate.normal" },
+  { value: 1.2, labelKey: "voice.rate.faster" },
+];
+
+interface VoiceFieldsProps {
+  language: string;
+  voice: string;
+  onVoiceChange: (value: string) => void;
+  speechRate: number;
+  onSpeechRateChange: (value: number) => void;
+}
+
+// Voice and speed the questions are read aloud with; voices are offered for the interview language
+export function VoiceFields({
+  language,
+  voice,
+  onVoiceChange,
+  speechRate,
+  onSpeechRateChange,
+}: VoiceFieldsProps) {
+  const { t } = useTranslation();
+  const { data } = useApiQuery(
+    `voices:${language}`,
+    (signal) => interviewApi.listVoices({ language }, { signal }),
+    t("error.voices"),
+  );
+
+  return (
+    <div className="input-row">
+      <div className="input-group">
+        <label htmlFor="voice-select">{t("voice.label")}</label>
+        <select
+          id="voice-select"
+          value={voice}
+          onChange={(e) => onVoiceChange(e.target.value)}
+          className="input-field"
+          disabled={!data}
+          data-testid="voice-select"
+        >
+          <option value="">{t("voice.default")}</option>
+          {data?.voices.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.id === data.default_voice
+                ? t("voice.defaultSuffix", { label: option.label })
+                : option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="input-group">
+        <label htmlFor="speech-rate-select">{t("voice.rate")}</label>
+        <select
+          id="speech-rate-select"
+          value={speechRate}
+          onChange={(e) => onSpeechRateChange(Number(e.target.value))}
+          className="input-field"
+          data-testid="speech-rate-select"
+        >
+          {SPEECH_RATE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {t(option.labelKey)}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
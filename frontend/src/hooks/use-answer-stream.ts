@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { AnswerStream, openAnswerStream, SubmitAnswerResponse } from "@/lib/api";
+
+export interface AnswerStreamState {
+  // Partial transcript while recording, final transcript once submitted
+  liveTranscript: string;
+  feedbackDraft: string;
+  open: (url: string) => void;
+  sendChunk: (chunk: Blob) => void;
+  // Null when no stream is connected, so the caller can fall back to HTTP
+  submit: () => Promise<SubmitAnswerResponse> | null;
+  close: () => void;
+}
+
+export function useAnswerStream(): AnswerStreamState {
+  const [liveTranscript, setLiveTranscript] = useState("");
+  const [feedbackDraft, setFeedbackDraft] = useState("");
+  const streamRef = useRef<AnswerStream | null>(null);
+
+  const close = useCallback(() => {
+    streamRef.current?.close();
+    streamRef.current = null;
+  }, []);
+
+  const open = useCallback(
+    (url: string) => {
+      close();
+      setLiveTranscript("");
+      setFeedbackDraft("");
+      streamRef.current = openAnswerStream(url, {
+        onPartialTranscript: setLiveTranscript,
+        onTranscript: setLiveTranscript,
+        onEvaluationToken: (text) => setFeedbackDraft((draft) => draft + text),
+      });
+    },
+    [close],
+  );
+
+  const sendChunk = useCallback((chunk: Blob) => {
+    streamRef.current?.send(chunk);
+  }, []);
+
+  const submit = useCallback(() => {
+    const stream = streamRef.current;
+    if (!stream?.isOpen()) return null;
+    setFeedbackDraft("");
+    return stream.submit();
+  }, []);
+
+  useEffect(() => close, [close]);
+
+  return { liveTranscript, feedbackDraft, open, sendChunk, submit, close };
+}
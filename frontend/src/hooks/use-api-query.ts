@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { getErrorMessage, isCancelled } from "@/lib/api";
+
+export interface ApiQueryState<T> {
+  data: T | null;
+  error: string;
+  loading: boolean;
+  reload: () => void;
+}
+
+/**
+ * Runs `fetcher` whenever `key` changes, aborting the previous request.
+ * Pass `null` as the key to skip fetching.
+ */
+export function useApiQuery<T>(
+  key: string | null,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  fallbackError = "Failed to load data",
+): ApiQueryState<T> {
+  const [data, setData] = useState<T | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(key !== null);
+  const [attempt, setAttempt] = useState(0);
+
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (key === null) return;
+
+    const controller = new AbortController();
+    setLoading(true);
+    setError("");
+
+    fetcherRef
+      .current(controller.signal)
+      .then((result) => {
+        setData(result);
+        setLoading(false);
+      })
+      .catch((err) => {
+        if (isCancelled(err)) return;
+        setError(getErrorMessage(err, fallbackError));
+        setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [key, attempt, fallbackError]);
+
+  const reload = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { data, error, loading, reload };
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+
+export interface AudioAnalyserOptions {
+  // RMS level (0-1) below which the input counts as silence
+  silenceThreshold?: number;
+  // How long the input has to stay silent before `isSilent` flips
+  silenceTimeoutMs?: number;
+}
+
+export interface AudioAnalyserState {
+  analyser: AnalyserNode | null;
+  level: number;
+  isSilent: boolean;
+  // Whether the input has risen above the threshold since the stream started
+  heardSound: boolean;
+  // How long the input has been below the threshold, in milliseconds
+  quietMs: number;
+}
+
+// React re-renders are throttled; the canvas reads the analyser directly
+const LEVEL_UPDATE_INTERVAL_MS = 100;
+
+// Older Safari only has the prefixed constructor
+declare global {
+  interface Window {
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+const getAudioContext = (): typeof AudioContext | undefined =>
+  window.AudioContext || window.webkitAudioContext;
+
+/**
+ * Taps a microphone stream with a Web Audio AnalyserNode and reports the
+ * current input level plus whether the mic has been near-silent for a while.
+ * `heardSound` and `quietMs` let callers detect the end of speech.
+ */
+export function useAudioAnalyser(
+  stream: MediaStream | null,
+  { silenceThreshold = 0.02, silenceTimeoutMs = 4000 }: AudioAnalyserOptions = {},
+): AudioAnalyserState {
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [level, setLevel] = useState(0);
+  const [isSilent, setIsSilent] = useState(false);
+  const [heardSound, setHeardSound] = useState(false);
+  const [quietMs, setQuietMs] = useState(0);
+
+  useEffect(() => {
+    const AudioContextCtor = getAudioContext();
+    if (!stream || !AudioContextCtor) return;
+
+    const context = new AudioContextCtor();
+    const source = context.createMediaStreamSource(stream);
+    const node = context.createAnalyser();
+    node.fftSize = 2048;
+    source.connect(node);
+    setAnalyser(node);
+
+    const samples = new Uint8Array(node.fftSize);
+    let frame = 0;
+    let lastUpdate = 0;
+    let lastSound = performance.now();
+    let heard = false;
+
+    const tick = (now: number) => {
+      node.getByteTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        const value = (samples[i] - 128) / 128;
+        sum += value * value;
+      }
+      const rms = Math.sqrt(sum / samples.length);
+      if (rms >= silenceThreshold) {
+        lastSound = now;
+        heard = true;
+      }
+
+      if (now - lastUpdate >= LEVEL_UPDATE_INTERVAL_MS) {
+        lastUpdate = now;
+        setLevel(Math.min(1, rms * 4));
+        setIsSilent(now - lastSound >= silenceTimeoutMs);
+        setHeardSound(heard);
+        setQuietMs(now - lastSound);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      source.disconnect();
+      context.close().catch(() => undefined);
+      setAnalyser(null);
+      setLevel(0);
+      setIsSilent(false);
+      setHeardSound(false);
+      setQuietMs(0);
+    };
+  }, [stream, silenceThreshold, silenceTimeoutMs]);
+
+  return { analyser, level, isSilent, heardSound, quietMs };
+}
@@ -0,0 +1,26 @@
+import { useEffect, useMemo } from "react";
+
+import { interviewApi } from "@/lib/api";
+import { useApiQuery } from "@/hooks/use-api-query";
+
+/**
+ * Fetches an interview's audio file with the signed-in user's token and
+ * returns an object URL for it, or null until it has loaded.
+ */
+export function useAudioUrl(interviewId: string, audioFile: string | null): string | null {
+  const { data } = useApiQuery(
+    interviewId && audioFile ? `${interviewId}/${audioFile}` : null,
+    (signal) => interviewApi.fetchAudio(interviewId, audioFile ?? "", { signal }),
+  );
+
+  const url = useMemo(() => (data ? URL.createObjectURL(data) : null), [data]);
+
+  useEffect(
+    () => () => {
+      if (url) URL.revokeObjectURL(url);
+    },
+    [url],
+  );
+
+  return url;
+}
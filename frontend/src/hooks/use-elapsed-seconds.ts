@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Whole seconds elapsed since `running` last became true. Resets to zero
+ * every time it starts again.
+ */
+export function useElapsedSeconds(running: boolean): number {
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (!running) return;
+
+    const startedAt = Date.now();
+    setElapsed(0);
+    const timer = setInterval(() => {
+      setElapsed(Math.floor((Date.now() - startedAt) / 1000));
+    }, 250);
+
+    return () => clearInterval(timer);
+  }, [running]);
+
+  return elapsed;
+}
+
+export const formatDuration = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,37 @@
+import { useEffect, useRef } from "react";
+
+export type ShortcutMap = Record<string, (() => void) | undefined>;
+
+// Typing into a field must never trigger a shortcut
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Runs the handler for a single-key shortcut (matched case-insensitively on
+ * `event.key`). Keys mapped to undefined are ignored, so callers can turn
+ * shortcuts off by state.
+ */
+export function useKeyboardShortcuts(shortcuts: ShortcutMap, enabled = true) {
+  const shortcutsRef = useRef(shortcuts);
+  shortcutsRef.current = shortcuts;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || event.repeat) return;
+      if (isEditable(event.target)) return;
+
+      const handler = shortcutsRef.current[event.key.toLowerCase()];
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,27 @@
+// Remembers the interview in progress so a page reload can offer to resume it
+
+const STORAGE_KEY = "voice-interview:active-interview-id";
+
+export const getActiveInterviewId = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setActiveInterviewId = (interviewId: string) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, interviewId);
+  } catch {
+    // Storage can be unavailable (private mode, quota); resuming is best-effort
+  }
+};
+
+export const clearActiveInterviewId = () => {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // See setActiveInterviewId
+  }
+};
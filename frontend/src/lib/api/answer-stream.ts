@@ -0,0 +1,123 @@
+import {
+  InterviewApiError,
+  fromStreamError,
+  toApiError,
+} from "@/lib/api/errors";
+import { streamMessageSchema, SubmitAnswerResponse } from "@/lib/api/schemas";
+
+export interface AnswerStreamHandlers {
+  onPartialTranscript?: (text: string) => void;
+  onTranscript?: (text: string) => void;
+  onEvaluationToken?: (text: string) => void;
+}
+
+export interface AnswerStream {
+  send(chunk: Blob): void;
+  // Resolves with the stored answer once the evaluation has finished streaming
+  submit(): Promise<SubmitAnswerResponse>;
+  isOpen(): boolean;
+  close(): void;
+}
+
+const connectionLost = () =>
+  new InterviewApiError({
+    kind: "network",
+    message: "Lost connection to the interview server",
+  });
+
+/**
+ * Opens the answer WebSocket. Audio chunks sent before the socket is open
+ * are queued so nothing recorded in the first moments is lost.
+ */
+export const openAnswerStream = (
+  url: string,
+  handlers: AnswerStreamHandlers = {},
+): AnswerStream => {
+  const socket = new WebSocket(url);
+  socket.binaryType = "arraybuffer";
+
+  const queue: Blob[] = [];
+  let failed = false;
+  let pending: {
+    resolve: (value: SubmitAnswerResponse) => void;
+    reject: (error: InterviewApiError) => void;
+  } | null = null;
+
+  const settleWithError = (error: InterviewApiError) => {
+    failed = true;
+    pending?.reject(error);
+    pending = null;
+  };
+
+  socket.onopen = () => {
+    queue.splice(0).forEach((chunk) => socket.send(chunk));
+  };
+
+  socket.onmessage = (event) => {
+    let message;
+    try {
+      message = streamMessageSchema.parse(JSON.parse(event.data));
+    } catch (err) {
+      settleWithError(toApiError(err));
+      return;
+    }
+
+    switch (message.type) {
+      case "partial_transcript":
+        handlers.onPartialTranscript?.(message.text);
+        break;
+      case "transcript":
+        handlers.onTranscript?.(message.text);
+        break;
+      case "evaluation_token":
+        handlers.onEvaluationToken?.(message.text);
+        break;
+      case "result":
+        pending?.resolve({
+          transcript: message.transcript,
+          evaluation: message.evaluation,
+          delivery: message.delivery,
+          timing: message.timing,
+        });
+        pending = null;
+        break;
+      case "error":
+        settleWithError(fromStreamError(message.detail));
+        break;
+    }
+  };
+
+  socket.onerror = () => settleWithError(connectionLost());
+  socket.onclose = () => {
+    if (pending) settleWithError(connectionLost());
+  };
+
+  const isOpen = () =>
+    !failed &&
+    (socket.readyState === WebSocket.OPEN ||
+      socket.readyState === WebSocket.CONNECTING);
+
+  return {
+    send: (chunk) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(chunk);
+      else if (socket.readyState === WebSocket.CONNECTING) queue.push(chunk);
+    },
+
+    submit: () =>
+      new Promise<SubmitAnswerResponse>((resolve, reject) => {
+        if (socket.readyState !== WebSocket.OPEN || failed) {
+          reject(connectionLost());
+          return;
+        }
+        pending = { resolve, reject };
+        socket.send(JSON.stringify({ type: "submit" }));
+      }),
+
+    isOpen,
+
+    close: () => {
+      pending = null;
+      if (socket.readyState <= WebSocket.OPEN) socket.close();
+    },
+  };
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+import { ApiClient, RequestOptions } from "@/lib/api/client";
+import {
+  authOptionsSchema,
+  authSessionSchema,
+  userSchema,
+  AuthOptions,
+  AuthSession,
+  User,
+} from "@/lib/api/schemas";
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export interface AuthApi {
+  // Which sign-in methods the server allows
+  getOptions(options?: RequestOptions): Promise<AuthOptions>;
+  register(credentials: Credentials, options?: RequestOptions): Promise<AuthSession>;
+  login(credentials: Credentials, options?: RequestOptions): Promise<AuthSession>;
+  // Shared local account; only available when the server sets DEV_LOGIN
+  devLogin(options?: RequestOptions): Promise<AuthSession>;
+  logout(options?: RequestOptions): Promise<void>;
+  me(options?: RequestOptions): Promise<User>;
+}
+
+export const createAuthApi = (client: ApiClient): AuthApi => ({
+  getOptions: (options) =>
+    client.request({ method: "get", url: "/auth/options" }, authOptionsSchema, options),
+
+  register: (credentials, options) =>
+    client.request(
+      { method: "post", url: "/auth/register", data: credentials },
+      authSessionSchema,
+      options,
+    ),
+
+  login: (credentials, options) =>
+    client.request(
+      { method: "post", url: "/auth/login", data: credentials },
+      authSessionSchema,
+      options,
+    ),
+
+  devLogin: (options) =>
+    client.request({ method: "post", url: "/auth/dev-login" }, authSessionSchema, options),
+
+  logout: async (options) => {
+    await client.request(
+      { method: "post", url: "/auth/logout" },
+      z.unknown(),
+      { retries: 0, ...options },
+    );
+  },
+
+  me: (options) =>
+    client.request({ method: "get", url: "/auth/me" }, userSchema, options),
+});
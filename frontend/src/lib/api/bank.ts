@@ -0,0 +1,150 @@
+import { z } from "zod";
+
+import { ApiClient, DownloadedFile, RequestOptions } from "@/lib/api/client";
+import {
+  bankImportResultSchema,
+  bankQuestionListSchema,
+  bankQuestionSchema,
+  questionSetListSchema,
+  questionSetSchema,
+  BankImportResult,
+  BankQuestion,
+  Difficulty,
+  QuestionSet,
+  QuestionType,
+} from "@/lib/api/schemas";
+
+export interface BankQuestionInput {
+  text: string;
+  // Empty suits any role
+  role?: string | null;
+  topic?: string | null;
+  difficulty: Difficulty;
+  question_type: QuestionType;
+  // What a strong answer covers; answers are graded for correctness against it
+  reference_answer?: string | null;
+  tags: string[];
+  // Set names; unknown names create the set
+  sets: string[];
+}
+
+export interface BankQuestionFilters {
+  role?: string;
+  topic?: string;
+  difficulty?: Difficulty;
+  question_type?: QuestionType;
+  tag?: string;
+  search?: string;
+}
+
+export interface QuestionSetInput {
+  name: string;
+  description?: string | null;
+}
+
+export type BankFormat = "json" | "csv";
+
+export interface BankApi {
+  // Question sets are listed for every user; everything else needs an admin
+  listSets(options?: RequestOptions): Promise<QuestionSet[]>;
+  createSet(input: QuestionSetInput, options?: RequestOptions): Promise<QuestionSet>;
+  updateSet(
+    setId: string,
+    input: QuestionSetInput,
+    options?: RequestOptions,
+  ): Promise<QuestionSet>;
+  deleteSet(setId: string, options?: RequestOptions): Promise<void>;
+  listQuestions(
+    filters?: BankQuestionFilters,
+    options?: RequestOptions,
+  ): Promise<BankQuestion[]>;
+  createQuestion(input: BankQuestionInput, options?: RequestOptions): Promise<BankQuestion>;
+  updateQuestion(
+    questionId: string,
+    input: BankQuestionInput,
+    options?: RequestOptions,
+  ): Promise<BankQuestion>;
+  deleteQuestion(questionId: string, options?: RequestOptions): Promise<void>;
+  // JSON list or CSV with a header row, in the export's format
+  importQuestions(file: File, options?: RequestOptions): Promise<BankImportResult>;
+  exportQuestions(format: BankFormat, options?: RequestOptions): Promise<DownloadedFile>;
+}
+
+const setPath = (setId: string) => `/bank/sets/${encodeURIComponent(setId)}`;
+
+const questionPath = (questionId: string) =>
+  `/bank/questions/${encodeURIComponent(questionId)}`;
+
+export const createBankApi = (client: ApiClient): BankApi => ({
+  listSets: (options) =>
+    client.request({ method: "get", url: "/bank/sets" }, questionSetListSchema, options),
+
+  createSet: (input, options) =>
+    client.request(
+      { method: "post", url: "/bank/sets", data: input },
+      questionSetSchema,
+      options,
+    ),
+
+  updateSet: (setId, input, options) =>
+    client.request(
+      { method: "put", url: setPath(setId), data: input },
+      questionSetSchema,
+      options,
+    ),
+
+  deleteSet: async (setId, options) => {
+    await client.request({ method: "delete", url: setPath(setId) }, z.unknown(), options);
+  },
+
+  listQuestions: (filters = {}, options) =>
+    client.request(
+      { method: "get", url: "/bank/questions", params: filters },
+      bankQuestionListSchema,
+      options,
+    ),
+
+  createQuestion: (input, options) =>
+    client.request(
+      { method: "post", url: "/bank/questions", data: input },
+      bankQuestionSchema,
+      options,
+    ),
+
+  updateQuestion: (questionId, input, options) =>
+    client.request(
+      { method: "put", url: questionPath(questionId), data: input },
+      bankQuestionSchema,
+      options,
+    ),
+
+  deleteQuestion: async (questionId, options) => {
+    await client.request(
+      { method: "delete", url: questionPath(questionId) },
+      z.unknown(),
+      options,
+    );
+  },
+
+  importQuestions: (file, options) => {
+    const formData = new FormData();
+    formData.append("file", file, file.name);
+    return client.request(
+      {
+        method: "post",
+        url: "/bank/questions/import",
+        data: formData,
+        headers: { "Content-Type": "multipart/form-data" },
+      },
+      bankImportResultSchema,
+      options,
+    );
+  },
+
+  exportQuestions: (format, options) =>
+    client.download(
+      { method: "get", url: "/bank/questions/export", params: { format } },
+      `question-bank.${format}`,
+      options,
+    ),
+});
@@ -0,0 +1,136 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
+import { ZodType } from "zod";
+
+import { InterviewApiError, toApiError } from "@/lib/api/errors";
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  // Retries applied to idempotent (GET) requests unless overridden per call
+  retries?: number;
+  retryDelayMs?: number;
+  timeoutMs?: number;
+  // Bearer token sent with every request, if any
+  getToken?: () => string | null;
+  // Called when the server rejects the token, e.g. after it expired
+  onUnauthorized?: () => void;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  retries?: number;
+}
+
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string;
+}
+
+export interface ApiClient {
+  request<T>(
+    config: AxiosRequestConfig,
+    schema: ZodType<T>,
+    options?: RequestOptions,
+  ): Promise<T>;
+  download(
+    config: AxiosRequestConfig,
+    fallbackFilename: string,
+    options?: RequestOptions,
+  ): Promise<DownloadedFile>;
+}
+
+const DEFAULT_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+// Only transient failures are worth another attempt
+const isRetryable = (error: InterviewApiError) =>
+  error.error.kind === "network" ||
+  (error.error.kind === "http" && error.error.status >= 500);
+
+const cancelledError = () =>
+  new InterviewApiError({
+    kind: "cancelled",
+    message: "Request was cancelled",
+  });
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    // Removed once the delay is over so retries don't pile up listeners
+    // on a signal that outlives them
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Reads the filename out of `Content-Disposition: attachment; filename="..."`
+const attachmentFilename = (header: unknown): string | undefined => {
+  if (typeof header !== "string") return undefined;
+  return /filename="?([^";]+)"?/.exec(header)?.[1];
+};
+
+export const createApiClient = (options: ApiClientOptions = {}): ApiClient => {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+
+  const http: AxiosInstance = axios.create({
+    baseURL: options.baseUrl,
+    timeout: options.timeoutMs,
+  });
+
+  const send = async <T>(
+    config: AxiosRequestConfig,
+    parse: (response: AxiosResponse) => T,
+    { signal, retries: callRetries }: RequestOptions = {},
+  ): Promise<T> => {
+    const method = (config.method || "get").toLowerCase();
+    const maxRetries = callRetries ?? (method === "get" ? retries : 0);
+
+    const token = options.getToken?.();
+    const headers = token
+      ? { ...config.headers, Authorization: `Bearer ${token}` }
+      : config.headers;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await http.request({ ...config, headers, signal });
+        return parse(response);
+      } catch (err) {
+        const error = toApiError(err);
+        if (error.kind === "unauthorized" && token) {
+          options.onUnauthorized?.();
+        }
+        if (attempt >= maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+        // Exponential backoff: 500ms, 1s, 2s, ...
+        await wait(retryDelayMs * 2 ** attempt, signal);
+      }
+    }
+  };
+
+  const request: ApiClient["request"] = (config, schema, options) =>
+    send(config, (response) => schema.parse(response.data), options);
+
+  const download: ApiClient["download"] = (config, fallbackFilename, options) =>
+    send(
+      { ...config, responseType: "blob" },
+      (response) => ({
+        blob: response.data as Blob,
+        filename:
+          attachmentFilename(response.headers["content-disposition"]) ??
+          fallbackFilename,
+      }),
+      options,
+    );
+
+  return { request, download };
+};
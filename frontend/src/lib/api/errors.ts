@@ -0,0 +1,154 @@
+import axios from "axios";
+import { z, ZodError } from "zod";
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Every failure the interview API can produce, discriminated by `kind`
+export type ApiError =
+  | { kind: "network"; message: string }
+  | { kind: "cancelled"; message: string }
+  | { kind: "unauthorized"; message: string }
+  | { kind: "session_not_found"; message: string }
+  | { kind: "interview_completed"; message: string }
+  | { kind: "validation"; message: string; issues: ValidationIssue[] }
+  | { kind: "http"; status: number; message: string }
+  | { kind: "stream"; message: string };
+
+export type ApiErrorKind = ApiError["kind"];
+
+export class InterviewApiError extends Error {
+  readonly error: ApiError;
+
+  constructor(error: ApiError) {
+    super(error.message);
+    this.name = "InterviewApiError";
+    this.error = error;
+    Object.setPrototypeOf(this, InterviewApiError.prototype);
+  }
+
+  get kind(): ApiErrorKind {
+    return this.error.kind;
+  }
+}
+
+const SESSION_NOT_FOUND_DETAIL = "Invalid interview session";
+const INTERVIEW_COMPLETED_DETAIL = "Interview already completed";
+const NOT_AUTHENTICATED_DETAIL = "Not authenticated";
+
+// Error bodies carry their message in `detail`, or sometimes in `msg`
+const errorBodySchema = z.object({ detail: z.unknown(), msg: z.unknown() }).partial();
+
+// FastAPI reports request validation errors as a list of {loc, msg}
+const validationItemSchema = z.object({ loc: z.array(z.unknown()), msg: z.unknown() }).partial();
+
+const errorBody = (data: unknown) => {
+  const parsed = errorBodySchema.safeParse(data);
+  return parsed.success ? parsed.data : {};
+};
+
+const toValidationIssues = (detail: unknown): ValidationIssue[] => {
+  if (!Array.isArray(detail)) return [];
+  return detail.map((item: unknown) => {
+    const parsed = validationItemSchema.safeParse(item);
+    const { loc, msg } = parsed.success ? parsed.data : { loc: undefined, msg: undefined };
+    return {
+      path: loc ? loc.join(".") : "",
+      message: String(msg ?? "Invalid value"),
+    };
+  });
+};
+
+const detailMessage = (data: unknown): string | undefined => {
+  const { detail, msg } = errorBody(data);
+  const message = detail ?? msg;
+  if (typeof message === "string") return message;
+  if (message !== undefined) return JSON.stringify(message);
+  return undefined;
+};
+
+/**
+ * Normalizes anything thrown while talking to the backend (axios errors,
+ * response schema mismatches, aborts) into an InterviewApiError.
+ */
+export const toApiError = (err: unknown): InterviewApiError => {
+  if (err instanceof InterviewApiError) return err;
+
+  if (err instanceof ZodError) {
+    return new InterviewApiError({
+      kind: "validation",
+      message: "Unexpected response from the server",
+      issues: err.issues.map((issue) => ({
+        path: issue.path.join("."),
+        message: issue.message,
+      })),
+    });
+  }
+
+  if (axios.isCancel(err)) {
+    return new InterviewApiError({
+      kind: "cancelled",
+      message: "Request was cancelled",
+    });
+  }
+
+  if (axios.isAxiosError(err)) {
+    if (!err.response) {
+      return new InterviewApiError({
+        kind: "network",
+        message: err.message || "Unable to reach the interview server",
+      });
+    }
+
+    const { status, data } = err.response;
+    const message = detailMessage(data) || err.message;
+
+    if (status === 401) {
+      return new InterviewApiError({ kind: "unauthorized", message });
+    }
+    if (status === 404 && message === SESSION_NOT_FOUND_DETAIL) {
+      return new InterviewApiError({ kind: "session_not_found", message });
+    }
+    if (status === 400 && message === INTERVIEW_COMPLETED_DETAIL) {
+      return new InterviewApiError({ kind: "interview_completed", message });
+    }
+    if (status === 422) {
+      const issues = toValidationIssues(errorBody(data).detail);
+      return new InterviewApiError({
+        kind: "validation",
+        message: issues.map((issue) => issue.message).join("; ") || message,
+        issues,
+      });
+    }
+    return new InterviewApiError({ kind: "http", status, message });
+  }
+
+  return new InterviewApiError({
+    kind: "network",
+    message: err instanceof Error ? err.message : String(err),
+  });
+};
+
+// The streaming endpoint reports failures with the same detail strings
+export const fromStreamError = (detail: string): InterviewApiError => {
+  if (detail === SESSION_NOT_FOUND_DETAIL) {
+    return new InterviewApiError({ kind: "session_not_found", message: detail });
+  }
+  if (detail === INTERVIEW_COMPLETED_DETAIL) {
+    return new InterviewApiError({ kind: "interview_completed", message: detail });
+  }
+  if (detail === NOT_AUTHENTICATED_DETAIL) {
+    return new InterviewApiError({ kind: "unauthorized", message: detail });
+  }
+  return new InterviewApiError({ kind: "stream", message: detail });
+};
+
+export const getErrorMessage = (err: unknown, fallback: string): string => {
+  const message = toApiError(err).message;
+  return message || fallback;
+};
+
+export const isCancelled = (err: unknown): boolean =>
+  err instanceof InterviewApiError && err.kind === "cancelled";
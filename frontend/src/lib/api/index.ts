@@ -0,0 +1,27 @@
+import { clearAuthToken, getAuthToken } from "@/lib/auth-session";
+import { createAuthApi } from "@/lib/api/auth";
+import { createBankApi } from "@/lib/api/bank";
+import { createApiClient } from "@/lib/api/client";
+import { createInterviewApi } from "@/lib/api/interview";
+
+const BACKEND_URL = process.env.REACT_APP_BACKEND_URL || "";
+
+export const apiClient = createApiClient({
+  baseUrl: BACKEND_URL,
+  getToken: getAuthToken,
+  onUnauthorized: clearAuthToken,
+});
+
+export const interviewApi = createInterviewApi(apiClient, BACKEND_URL, getAuthToken);
+
+export const authApi = createAuthApi(apiClient);
+
+export const bankApi = createBankApi(apiClient);
+
+export * from "@/lib/api/answer-stream";
+export * from "@/lib/api/auth";
+export * from "@/lib/api/bank";
+export * from "@/lib/api/client";
+export * from "@/lib/api/errors";
+export * from "@/lib/api/interview";
+export * from "@/lib/api/schemas";
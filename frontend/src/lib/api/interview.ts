@@ -0,0 +1,335 @@
+import { z } from "zod";
+
+import { ApiClient, DownloadedFile, RequestOptions } from "@/lib/api/client";
+import {
+  Difficulty,
+  InterviewType,
+  interviewDetailSchema,
+  interviewListSchema,
+  nextQuestionResponseSchema,
+  sessionStateSchema,
+  startInterviewResponseSchema,
+  submitAnswerResponseSchema,
+  summaryResponseSchema,
+  voicesResponseSchema,
+  InterviewDetail,
+  InterviewListItem,
+  NextQuestionResponse,
+  SessionState,
+  StartInterviewResponse,
+  SubmitAnswerResponse,
+  SummaryData,
+  VoicesResponse,
+} from "@/lib/api/schemas";
+
+export interface StartInterviewParams {
+  role: string;
+  count?: number;
+  difficulty?: Difficulty;
+  interview_type?: InterviewType;
+  follow_ups?: boolean;
+  // Language of the questions, audio, transcription and feedback;
+  // omitted uses the server default (STT_LANGUAGE)
+  language?: string;
+  // Speech-to-text model override; omitted uses the server default
+  stt_model?: string;
+  // Question voice and speed; 1 is normal speed
+  voice?: string;
+  speech_rate?: number;
+  // Think time before each answer, and answer time limits per question
+  // type in seconds; omitted limits use the server defaults
+  prep_seconds?: number;
+  behavioral_seconds?: number;
+  technical_seconds?: number;
+  system_design_seconds?: number;
+  // Where the questions come from; "set" asks every question of
+  // `question_set` (a set id) in order and ignores count and type
+  source?: QuestionSource;
+  question_set?: string;
+  // Sent as multipart fields; PDF, DOCX and TXT files are parsed server-side
+  jobDescription?: string;
+  jobDescriptionFile?: File;
+  resume?: File;
+}
+
+export type QuestionSource = "llm" | "bank" | "set";
+
+export interface VoicesParams {
+  // Only voices that speak this language; omitted lists them all
+  language?: string;
+}
+
+export type ReportFormat = "markdown" | "pdf";
+
+export interface ReportParams {
+  format: ReportFormat;
+  // Link each answer to its recording on this server
+  includeAudio?: boolean;
+}
+
+export interface InterviewApi {
+  startInterview(
+    params: StartInterviewParams,
+    options?: RequestOptions,
+  ): Promise<StartInterviewResponse>;
+  submitAnswer(
+    interviewId: string,
+    audio: Blob,
+    options?: RequestOptions,
+  ): Promise<SubmitAnswerResponse>;
+  retryAnswer(
+    interviewId: string,
+    audio: Blob,
+    options?: RequestOptions,
+  ): Promise<SubmitAnswerResponse>;
+  // Typed answer; `retry` replaces the last answer like retryAnswer
+  submitTextAnswer(
+    interviewId: string,
+    text: string,
+    retry: boolean,
+    options?: RequestOptions,
+  ): Promise<SubmitAnswerResponse>;
+  // Starts the answer clock when recording or typing begins; `retry`
+  // marks the last answered question instead of the current one
+  markAnswerStarted(
+    interviewId: string,
+    retry: boolean,
+    options?: RequestOptions,
+  ): Promise<void>;
+  reevaluateAnswer(
+    interviewId: string,
+    options?: RequestOptions,
+  ): Promise<SubmitAnswerResponse>;
+  nextQuestion(
+    interviewId: string,
+    options?: RequestOptions,
+  ): Promise<NextQuestionResponse>;
+  endInterview(interviewId: string, options?: RequestOptions): Promise<void>;
+  getSessionState(
+    interviewId: string,
+    options?: RequestOptions,
+  ): Promise<SessionState>;
+  getSummary(interviewId: string, options?: RequestOptions): Promise<SummaryData>;
+  downloadReport(
+    interviewId: string,
+    params: ReportParams,
+    options?: RequestOptions,
+  ): Promise<DownloadedFile>;
+  listInterviews(options?: RequestOptions): Promise<InterviewListItem[]>;
+  listVoices(params?: VoicesParams, options?: RequestOptions): Promise<VoicesResponse>;
+  getInterview(
+    interviewId: string,
+    options?: RequestOptions,
+  ): Promise<InterviewDetail>;
+  // Recorded answer or question audio; fetched rather than linked so the
+  // bearer token is sent with it
+  fetchAudio(
+    interviewId: string,
+    audioFile: string,
+    options?: RequestOptions,
+  ): Promise<Blob>;
+  // WebSocket URL for streaming an answer; `retry` replaces the last answer
+  streamUrl(interviewId: string, retry: boolean): string;
+}
+
+const sessionPath = (interviewId: string) =>
+  `/interview/${encodeURIComponent(interviewId)}`;
+
+// Named after the container the browser recorded, e.g. mp4 on Safari
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  "audio/webm": "webm",
+  "audio/mp4": "mp4",
+  "audio/ogg": "ogg",
+};
+
+const audioFilename = (audio: Blob) => {
+  const mimeType = audio.type.split(";")[0].trim().toLowerCase();
+  return `answer.${AUDIO_EXTENSIONS[mimeType] ?? "webm"}`;
+};
+
+const audioForm = (audio: Blob) => {
+  const formData = new FormData();
+  formData.append("audio", audio, audioFilename(audio));
+  return formData;
+};
+
+const documentsForm = ({
+  jobDescription,
+  jobDescriptionFile,
+  resume,
+}: Pick<StartInterviewParams, "jobDescription" | "jobDescriptionFile" | "resume">) => {
+  if (!jobDescription?.trim() && !jobDescriptionFile && !resume) return undefined;
+  const formData = new FormData();
+  if (jobDescription?.trim()) formData.append("job_description", jobDescription);
+  if (jobDescriptionFile) {
+    formData.append("job_description_file", jobDescriptionFile, jobDescriptionFile.name);
+  }
+  if (resume) formData.append("resume", resume, resume.name);
+  return formData;
+};
+
+export const createInterviewApi = (
+  client: ApiClient,
+  baseUrl = "",
+  getToken: () => string | null = () => null,
+): InterviewApi => ({
+  startInterview: (
+    { jobDescription, jobDescriptionFile, resume, ...params },
+    options,
+  ) => {
+    const data = documentsForm({ jobDescription, jobDescriptionFile, resume });
+    return client.request(
+      {
+        method: "post",
+        url: "/interview/start",
+        params,
+        data,
+        headers: data ? { "Content-Type": "multipart/form-data" } : undefined,
+      },
+      startInterviewResponseSchema,
+      options,
+    );
+  },
+
+  submitAnswer: (interviewId, audio, options) =>
+    client.request(
+      {
+        method: "post",
+        url: `${sessionPath(interviewId)}/answer`,
+        data: audioForm(audio),
+        headers: { "Content-Type": "multipart/form-data" },
+      },
+      submitAnswerResponseSchema,
+      options,
+    ),
+
+  retryAnswer: (interviewId, audio, options) =>
+    client.request(
+      {
+        method: "post",
+        url: `${sessionPath(interviewId)}/retry`,
+        data: audioForm(audio),
+        headers: { "Content-Type": "multipart/form-data" },
+      },
+      submitAnswerResponseSchema,
+      options,
+    ),
+
+  submitTextAnswer: (interviewId, text, retry, options) =>
+    client.request(
+      {
+        method: "post",
+        url: `${sessionPath(interviewId)}/text-answer`,
+        data: { text, retry },
+      },
+      submitAnswerResponseSchema,
+      options,
+    ),
+
+  markAnswerStarted: async (interviewId, retry, options) => {
+    await client.request(
+      {
+        method: "post",
+        url: `${sessionPath(interviewId)}/answer-started`,
+        params: { retry },
+      },
+      z.unknown(),
+      options,
+    );
+  },
+
+  reevaluateAnswer: (interviewId, options) =>
+    client.request(
+      { method: "post", url: `${sessionPath(interviewId)}/evaluate` },
+      submitAnswerResponseSchema,
+      options,
+    ),
+
+  nextQuestion: (interviewId, options) =>
+    client.request(
+      { method: "get", url: `${sessionPath(interviewId)}/next` },
+      nextQuestionResponseSchema,
+      options,
+    ),
+
+  endInterview: async (interviewId, options) => {
+    await client.request(
+      { method: "post", url: `${sessionPath(interviewId)}/end` },
+      z.unknown(),
+      options,
+    );
+  },
+
+  getSessionState: (interviewId, options) =>
+    client.request(
+      { method: "get", url: `${sessionPath(interviewId)}/state` },
+      sessionStateSchema,
+      options,
+    ),
+
+  getSummary: (interviewId, options) =>
+    client.request(
+      { method: "get", url: `${sessionPath(interviewId)}/summary` },
+      summaryResponseSchema,
+      options,
+    ),
+
+  downloadReport: (interviewId, { format, includeAudio = false }, options) =>
+    client.download(
+      {
+        method: "get",
+        url: `${sessionPath(interviewId)}/report`,
+        params: { format, include_audio: includeAudio },
+      },
+      `interview-report.${format === "pdf" ? "pdf" : "md"}`,
+      options,
+    ),
+
+  listInterviews: (options) =>
+    client.request(
+      { method: "get", url: "/interview" },
+      interviewListSchema,
+      options,
+    ),
+
+  listVoices: ({ language } = {}, options) =>
+    client.request(
+      { method: "get", url: "/interview/voices", params: { language } },
+      voicesResponseSchema,
+      options,
+    ),
+
+  getInterview: (interviewId, options) =>
+    client.request(
+      { method: "get", url: sessionPath(interviewId) },
+      interviewDetailSchema,
+      options,
+    ),
+
+  fetchAudio: async (interviewId, audioFile, options) => {
+    const { blob } = await client.download(
+      {
+        method: "get",
+        url: `${sessionPath(interviewId)}/audio/${audioFile
+          .split("/")
+          .map(encodeURIComponent)
+          .join("/")}`,
+      },
+      audioFile,
+      options,
+    );
+    return blob;
+  },
+
+  streamUrl: (interviewId, retry) => {
+    const url = new URL(
+      `${baseUrl}${sessionPath(interviewId)}/stream`,
+      window.location.href,
+    );
+    url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    url.searchParams.set("mode", retry ? "retry" : "answer");
+    const token = getToken();
+    if (token) url.searchParams.set("token", token);
+    return url.toString();
+  },
+});
@@ -0,0 +1,314 @@
+import { z } from "zod";
+
+// Mirrors the payloads returned by backend/app/api/interview.py
+
+export const rubricDimensionSchema = z.object({
+  key: z.string(),
+  label: z.string(),
+  weight: z.number(),
+});
+
+// Scores are keyed by the dimensions of the rubric the answer was graded on
+export const scoredEvaluationSchema = z.object({
+  status: z.literal("ok"),
+  rubric: z.string(),
+  dimensions: z.array(rubricDimensionSchema),
+  scores: z.record(z.number().int().min(0).max(10)),
+  overall: z.number(),
+  feedback: z.string(),
+  // Behavioral answers only: which STAR parts the answer covered
+  star: z
+    .object({
+      situation: z.boolean(),
+      task: z.boolean(),
+      action: z.boolean(),
+      result: z.boolean(),
+    })
+    .optional(),
+});
+
+export const failedEvaluationSchema = z.object({
+  status: z.literal("failed"),
+  rubric: z.string(),
+  dimensions: z.array(rubricDimensionSchema),
+  error: z.string(),
+});
+
+export const evaluationSchema = z.discriminatedUnion("status", [
+  scoredEvaluationSchema,
+  failedEvaluationSchema,
+]);
+
+// Pace and verbal habits measured from the recording; timing fields are
+// null when the transcriber reported no word timings
+export const deliverySchema = z.object({
+  word_count: z.number().int(),
+  speaking_seconds: z.number().nullable(),
+  words_per_minute: z.number().nullable(),
+  filler_count: z.number().int(),
+  fillers: z.record(z.number().int()),
+  hedge_count: z.number().int(),
+  hedges: z.record(z.number().int()),
+  long_pauses: z.number().int().nullable(),
+  longest_pause_seconds: z.number().nullable(),
+  highlights: z.array(
+    z.object({
+      start: z.number().int(),
+      end: z.number().int(),
+      kind: z.enum(["filler", "hedge"]),
+    }),
+  ),
+});
+
+// How long an answer took against its limit, from the server's timestamps;
+// fields are null when a timestamp is missing (think time on retries)
+export const answerTimingSchema = z.object({
+  prep_seconds: z.number().int(),
+  limit_seconds: z.number().int(),
+  think_seconds: z.number().nullable(),
+  answer_seconds: z.number().nullable(),
+  overtime_seconds: z.number().nullable(),
+  overtime_ratio: z.number().nullable(),
+});
+
+export const difficultySchema = z.enum(["easy", "medium", "hard"]);
+
+export const interviewTypeSchema = z.enum([
+  "behavioral",
+  "technical",
+  "system_design",
+  "mixed",
+]);
+
+// Mixed interviews are made of questions of the other three types
+export const questionTypeSchema = interviewTypeSchema.exclude(["mixed"]);
+
+export const startInterviewResponseSchema = z.object({
+  interview_id: z.string(),
+  question: z.string(),
+  audio_file: z.string().nullable(),
+  // Index of the main question; follow-ups share their parent's index
+  question_index: z.number().int(),
+  total_questions: z.number().int(),
+  follow_up: z.boolean(),
+  question_type: questionTypeSchema,
+  // Think time before recording starts automatically; 0 means none
+  prep_seconds: z.number().int(),
+  time_limit_seconds: z.number().int(),
+});
+
+export const answerRecordSchema = z.object({
+  question: z.string(),
+  follow_up: z.boolean(),
+  question_type: questionTypeSchema,
+  transcript: z.string(),
+  evaluation: evaluationSchema,
+});
+
+export const submitAnswerResponseSchema = z.object({
+  transcript: z.string(),
+  evaluation: evaluationSchema,
+  delivery: deliverySchema.nullable(),
+  timing: answerTimingSchema.nullable(),
+});
+
+export const questionPayloadSchema = z.object({
+  question: z.string(),
+  audio_file: z.string().nullable(),
+  // Index of the main question; follow-ups share their parent's index
+  question_index: z.number().int(),
+  total_questions: z.number().int(),
+  follow_up: z.boolean(),
+  question_type: questionTypeSchema,
+  prep_seconds: z.number().int(),
+  time_limit_seconds: z.number().int(),
+});
+
+export const nextQuestionResponseSchema = z.union([
+  z.object({
+    status: z.literal("completed"),
+  }),
+  questionPayloadSchema,
+]);
+
+export const sessionStateSchema = z.object({
+  interview_id: z.string(),
+  role: z.string(),
+  difficulty: difficultySchema,
+  interview_type: interviewTypeSchema,
+  status: z.string(),
+  phase: z.enum(["asking", "reviewing", "completed"]),
+  current_question: questionPayloadSchema.nullable(),
+  transcript: z.string().nullable(),
+  evaluation: evaluationSchema.nullable(),
+  delivery: deliverySchema.nullable(),
+  timing: answerTimingSchema.nullable(),
+  answers: z.array(answerRecordSchema),
+});
+
+// Messages sent by the /interview/{id}/stream WebSocket
+export const streamMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("partial_transcript"), text: z.string() }),
+  z.object({ type: z.literal("transcript"), text: z.string() }),
+  z.object({ type: z.literal("evaluation_token"), text: z.string() }),
+  z.object({
+    type: z.literal("result"),
+    transcript: z.string(),
+    evaluation: evaluationSchema,
+    delivery: deliverySchema.nullable(),
+    timing: answerTimingSchema.nullable(),
+  }),
+  z.object({ type: z.literal("error"), detail: z.string() }),
+]);
+
+export const averageScoresSchema = z.object({
+  overall: z.number(),
+  dimensions: z.array(
+    z.object({ key: z.string(), label: z.string(), score: z.number() }),
+  ),
+});
+
+export const summaryResponseSchema = z.object({
+  overall_feedback: z.string(),
+  strengths: z.string(),
+  improvements: z.string(),
+  // Only present when the interview was tailored to a job description
+  fit: z.string().optional(),
+  interview_type: interviewTypeSchema,
+  average_scores: averageScoresSchema.nullable(),
+  // Answers that ran over their time limit; follow-ups carry their question's number
+  overtime: z.array(
+    z.object({
+      question_number: z.number().int(),
+      follow_up: z.boolean(),
+      overtime_percent: z.number().int(),
+      overtime_seconds: z.number().int(),
+    }),
+  ),
+});
+
+export const interviewListItemSchema = z.object({
+  interview_id: z.string(),
+  role: z.string(),
+  difficulty: difficultySchema,
+  interview_type: interviewTypeSchema,
+  status: z.string(),
+  created_at: z.string(),
+  total_questions: z.number().int(),
+  answered: z.number().int(),
+  average_scores: averageScoresSchema.nullable(),
+});
+
+export const interviewListSchema = z.array(interviewListItemSchema);
+
+export const questionResultSchema = z.object({
+  question: z.string(),
+  question_type: questionTypeSchema,
+  transcript: z.string().nullable(),
+  evaluation: evaluationSchema.nullable(),
+  delivery: deliverySchema.nullable(),
+  answer_audio_file: z.string().nullable(),
+  timing: answerTimingSchema.nullable(),
+});
+
+export const interviewDetailSchema = z.object({
+  interview_id: z.string(),
+  role: z.string(),
+  difficulty: difficultySchema,
+  interview_type: interviewTypeSchema,
+  status: z.string(),
+  created_at: z.string(),
+  stt_model: z.string().nullable(),
+  language: z.string().nullable(),
+  average_scores: averageScoresSchema.nullable(),
+  questions: z.array(
+    questionResultSchema.extend({
+      question_index: z.number().int(),
+      follow_ups: z.array(questionResultSchema),
+    }),
+  ),
+});
+
+export const voicesResponseSchema = z.object({
+  provider: z.string(),
+  default_voice: z.string(),
+  voices: z.array(
+    z.object({ id: z.string(), label: z.string(), language: z.string().nullable() }),
+  ),
+});
+
+export const authOptionsSchema = z.object({
+  registration: z.boolean(),
+  dev_login: z.boolean(),
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  // Admins manage the question bank
+  is_admin: z.boolean(),
+});
+
+export const authSessionSchema = z.object({
+  token: z.string(),
+  expires_at: z.string(),
+  user: userSchema,
+});
+
+// Mirrors backend/app/api/bank.py
+
+export const bankQuestionSchema = z.object({
+  id: z.string(),
+  text: z.string(),
+  role: z.string().nullable(),
+  topic: z.string().nullable(),
+  difficulty: difficultySchema,
+  question_type: questionTypeSchema,
+  reference_answer: z.string().nullable(),
+  tags: z.array(z.string()),
+  // Names of the sets the question is in
+  sets: z.array(z.string()),
+  created_at: z.string(),
+});
+
+export const bankQuestionListSchema = z.array(bankQuestionSchema);
+
+export const questionSetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  question_count: z.number().int(),
+});
+
+export const questionSetListSchema = z.array(questionSetSchema);
+
+export const bankImportResultSchema = z.object({
+  imported: z.number().int(),
+});
+
+export type Difficulty = z.infer<typeof difficultySchema>;
+export type InterviewType = z.infer<typeof interviewTypeSchema>;
+export type QuestionType = z.infer<typeof questionTypeSchema>;
+export type RubricDimension = z.infer<typeof rubricDimensionSchema>;
+export type EvaluationData = z.infer<typeof evaluationSchema>;
+export type DeliveryMetrics = z.infer<typeof deliverySchema>;
+export type AnswerTiming = z.infer<typeof answerTimingSchema>;
+export type ScoredEvaluation = z.infer<typeof scoredEvaluationSchema>;
+export type StartInterviewResponse = z.infer<typeof startInterviewResponseSchema>;
+export type SubmitAnswerResponse = z.infer<typeof submitAnswerResponseSchema>;
+export type QuestionPayload = z.infer<typeof questionPayloadSchema>;
+export type SessionState = z.infer<typeof sessionStateSchema>;
+export type NextQuestionResponse = z.infer<typeof nextQuestionResponseSchema>;
+export type StreamMessage = z.infer<typeof streamMessageSchema>;
+export type SummaryData = z.infer<typeof summaryResponseSchema>;
+export type AverageScores = z.infer<typeof averageScoresSchema>;
+export type InterviewListItem = z.infer<typeof interviewListItemSchema>;
+export type QuestionResult = z.infer<typeof questionResultSchema>;
+export type InterviewDetail = z.infer<typeof interviewDetailSchema>;
+export type VoicesResponse = z.infer<typeof voicesResponseSchema>;
+export type AuthOptions = z.infer<typeof authOptionsSchema>;
+export type User = z.infer<typeof userSchema>;
+export type AuthSession = z.infer<typeof authSessionSchema>;
+export type BankQuestion = z.infer<typeof bankQuestionSchema>;
+export type QuestionSet = z.infer<typeof questionSetSchema>;
+export type BankImportResult = z.infer<typeof bankImportResultSchema>;
@@ -0,0 +1,43 @@
+// Keeps the signed-in user's bearer token across reloads and tells
+// listeners when it changes, e.g. when the server rejects it
+
+const STORAGE_KEY = "voice-interview:auth-token";
+
+type Listener = (token: string | null) => void;
+
+const listeners = new Set<Listener>();
+
+export const getAuthToken = (): string | null => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const notify = (token: string | null) => listeners.forEach((listener) => listener(token));
+
+export const setAuthToken = (token: string) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, token);
+  } catch {
+    // Storage can be unavailable (private mode, quota); the user signs in again next time
+  }
+  notify(token);
+};
+
+export const clearAuthToken = () => {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // See setAuthToken
+  }
+  notify(null);
+};
+
+export const subscribeAuthToken = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
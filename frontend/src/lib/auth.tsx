@@ -0,0 +1,103 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+
+import { clearActiveInterviewId } from "@/lib/active-interview";
+import { authApi, isCancelled, AuthSession, InterviewApiError, User } from "@/lib/api";
+import {
+  clearAuthToken,
+  getAuthToken,
+  setAuthToken,
+  subscribeAuthToken,
+} from "@/lib/auth-session";
+
+// "checking" while a stored token is validated on load
+export type AuthStatus = "checking" | "signed_out" | "signed_in";
+
+interface AuthContextValue {
+  status: AuthStatus;
+  // Null until the stored token has been checked against the server
+  user: User | null;
+  signIn: (session: AuthSession) => void;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [status, setStatus] = useState<AuthStatus>(() =>
+    getAuthToken() ? "checking" : "signed_out",
+  );
+  const [user, setUser] = useState<User | null>(null);
+
+  // Any request rejected with 401 clears the token, which signs the user out here
+  useEffect(
+    () =>
+      subscribeAuthToken((token) => {
+        if (token === null) {
+          setUser(null);
+          setStatus("signed_out");
+        }
+      }),
+    [],
+  );
+
+  useEffect(() => {
+    if (!getAuthToken()) return;
+
+    const controller = new AbortController();
+    authApi
+      .me({ signal: controller.signal })
+      .then((me) => {
+        setUser(me);
+        setStatus("signed_in");
+      })
+      .catch((err) => {
+        // Aborted on unmount (or StrictMode's remount), which checks again
+        if (isCancelled(err)) return;
+        // An unreachable server is not a reason to drop the session
+        if (err instanceof InterviewApiError && err.kind !== "unauthorized") {
+          setStatus((current) => (current === "checking" ? "signed_in" : current));
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  const signIn = useCallback((session: AuthSession) => {
+    setAuthToken(session.token);
+    setUser(session.user);
+    setStatus("signed_in");
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await authApi.logout();
+    } catch {
+      // The token is forgotten locally either way and expires on its own
+    }
+    clearActiveInterviewId();
+    clearAuthToken();
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({ status, user, signIn, signOut }),
+    [status, user, signIn, signOut],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used inside an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,103 @@
+import {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import { Locale as DateLocale } from "date-fns";
+import { de as deDate, enUS, es as esDate } from "date-fns/locale";
+
+import { de } from "@/lib/i18n/messages/de";
+import { en, MessageKey, Messages } from "@/lib/i18n/messages/en";
+import { es } from "@/lib/i18n/messages/es";
+
+export type { MessageKey } from "@/lib/i18n/messages/en";
+
+// Languages the interface itself is translated into
+export type Locale = "en" | "es" | "de";
+
+const MESSAGES: Record<Locale, Messages> = { en, es, de };
+const DATE_LOCALES: Record<Locale, DateLocale> = { en: enUS, es: esDate, de: deDate };
+
+export const LOCALE_OPTIONS: { value: Locale; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+  { value: "de", label: "Deutsch" },
+];
+
+const STORAGE_KEY = "voice-interview:locale";
+
+export const isLocale = (value: string): value is Locale => value in MESSAGES;
+
+const initialLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored && isLocale(stored)) return stored;
+  } catch {
+    // Fall through to the browser language
+  }
+  const browser = (navigator.language || "en").slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : "en";
+};
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: TranslationParams) => string;
+
+// Fills {name} placeholders; unknown placeholders are left as-is
+const interpolate = (message: string, params?: TranslationParams): string =>
+  params
+    ? message.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match,
+      )
+    : message;
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  dateLocale: DateLocale;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function I18nProvider({ children }: { children: ReactNode }) {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next);
+    } catch {
+      // Not persisting the choice only costs a reset on reload
+    }
+  }, []);
+
+  // Screen readers and hyphenation follow the document language
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const messages = MESSAGES[locale];
+    return {
+      locale,
+      setLocale,
+      t: (key, params) => interpolate(messages[key] ?? en[key], params),
+      dateLocale: DATE_LOCALES[locale],
+    };
+  }, [locale, setLocale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useTranslation(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error("useTranslation must be used inside an I18nProvider");
+  }
+  return context;
+}
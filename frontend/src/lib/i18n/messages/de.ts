@@ -0,0 +1,297 @@
+import { Messages } from "@/lib/i18n/messages/en";
+
+export const de: Messages = {
+  "app.title": "Sprachbasiertes Probeinterview",
+  "app.subtitle": "Übe und verbessere deine Vorstellungsgespräche",
+  "nav.practice": "Üben",
+  "nav.history": "Verlauf",
+  "nav.bank": "Fragenkatalog",
+  "nav.uiLanguage": "Sprache der Oberfläche",
+
+  "auth.login.title": "Melde dich an, um zu üben",
+  "auth.register.title": "Konto erstellen",
+  "auth.email": "E-Mail",
+  "auth.password": "Passwort",
+  "auth.passwordHint": "Mindestens {count} Zeichen",
+  "auth.login.submit": "Anmelden",
+  "auth.register.submit": "Konto erstellen",
+  "auth.login.switch": "Schon ein Konto? Anmelden",
+  "auth.register.switch": "Neu hier? Konto erstellen",
+  "auth.devLogin": "Als Entwickler fortfahren",
+  "auth.logout": "Abmelden",
+  "auth.error.invalid": "E-Mail oder Passwort ist falsch",
+  "auth.error.login": "Anmeldung fehlgeschlagen",
+  "auth.error.register": "Konto konnte nicht erstellt werden",
+
+  "difficulty.easy": "Leicht",
+  "difficulty.medium": "Mittel",
+  "difficulty.hard": "Schwer",
+
+  "interviewType.mixed": "Gemischt",
+  "interviewType.behavioral": "Verhaltensbasiert",
+  "interviewType.technical": "Fachlich",
+  "interviewType.system_design": "Systemdesign",
+  "interviewType.mixed.description": "Abwechselnd verhaltensbasierte, fachliche und Systemdesign-Fragen",
+  "interviewType.behavioral.description": "Bisherige Erfahrungen, bewertet nach Situation, Aufgabe, Handlung und Ergebnis",
+  "interviewType.technical.description": "Rollenspezifisches Wissen und Problemlösung",
+  "interviewType.system_design.description": "Entwirf ein System, bewertet nach Anforderungen, Abwägungen und Skalierung",
+
+  "start.feature.voice.title": "Sprachtraining",
+  "start.feature.voice.body": "Antworte mit deiner Stimme",
+  "start.feature.feedback.title": "Sofortiges Feedback",
+  "start.feature.feedback.body": "Erhalte bewertete Einschätzungen",
+  "start.feature.role.title": "Rollenspezifisch",
+  "start.feature.role.body": "Auf deine Stelle zugeschnitten",
+  "start.role.label": "Für welche Stelle bereitest du dich vor?",
+  "start.role.placeholder": "z. B. Softwareentwicklerin, Product Manager, Data Scientist",
+  "start.language.label": "Sprache des Interviews",
+  "start.language.hint": "Fragen, Sprachausgabe, Transkription und Feedback verwenden diese Sprache",
+  "start.type.label": "Art des Interviews",
+  "start.count.label": "Anzahl der Fragen",
+  "start.count.option": "{count} Fragen",
+  "start.difficulty.label": "Schwierigkeit",
+  "start.followUps": "Nachfragen stellen, wenn eine Antwort vage oder schwach ist",
+  "start.handsFree": "Freihändiger Modus: Antworten automatisch aufnehmen und Punkte erst am Ende zeigen",
+  "start.silence.label": "Aufnahme beenden nach einer Stille von",
+  "start.silence.option": "{seconds} Sek.",
+  "start.submit": "Interview beginnen",
+  "start.submitting": "Interview wird gestartet...",
+
+  "jobContext.summary": "An eine Stellenanzeige und einen Lebenslauf anpassen (optional)",
+  "jobContext.jobDescription": "Stellenanzeige",
+  "jobContext.jobDescriptionPlaceholder": "Füge die Stellenanzeige hier ein oder lade sie unten hoch",
+  "jobContext.jobDescriptionUpload": "Stellenanzeige hochladen",
+  "jobContext.resume": "Lebenslauf (PDF, DOCX oder TXT)",
+
+  "transcription.summary": "Transkriptionseinstellungen (optional)",
+  "transcription.model": "Transkriptionsmodell",
+  "transcription.model.default": "Server-Standard",
+  "transcription.model.tiny": "Tiny (am schnellsten)",
+  "transcription.model.base": "Base",
+  "transcription.model.small": "Small",
+  "transcription.model.medium": "Medium",
+  "transcription.model.large": "Large (am genauesten)",
+
+  "voice.label": "Stimme des Interviewers",
+  "voice.default": "Standard",
+  "voice.defaultSuffix": "{label} (Standard)",
+  "voice.rate": "Sprechtempo",
+  "voice.rate.slower": "Langsamer",
+  "voice.rate.normal": "Normal",
+  "voice.rate.faster": "Schneller",
+
+  "resume.title": "Du hast ein unvollständiges Interview",
+  "resume.answered": "{answered} beantwortet",
+  "resume.answeredOf": "{answered} von {total} beantwortet",
+  "resume.action": "Interview für {role} fortsetzen",
+  "resume.discard": "Verwerfen",
+
+  "question.question": "Frage",
+  "question.followUp": "Nachfrage",
+  "question.progress": "Frage {current} von {total}",
+  "question.number": "Frage {number}",
+
+  "recording.start": "Antwort aufnehmen",
+  "recording.stop": "Aufnahme beenden",
+  "recording.level": "Mikrofonpegel",
+  "recording.silence": "Kein Ton erkannt. Prüfe, ob dein Mikrofon ausgewählt und nicht stummgeschaltet ist.",
+  "recording.evaluating": "Deine Antwort wird bewertet...",
+
+  "handsFree.waiting": "Die Aufnahme beginnt, sobald die Frage zu Ende abgespielt ist.",
+  "handsFree.listening": "Die Aufnahme endet nach {seconds} Sekunden Stille.",
+  "handsFree.saving": "Deine Antwort wird gespeichert...",
+  "handsFree.advancing": "Weiter zur nächsten Frage...",
+
+  "textAnswer.open": "Antwort stattdessen tippen",
+  "textAnswer.label": "Tippe deine Antwort",
+  "textAnswer.hint": "Mit Strg+Eingabe absenden",
+  "textAnswer.useVoice": "Stattdessen per Sprache antworten",
+
+  "timing.prep.label": "Bedenkzeit vor der Antwort",
+  "timing.prep.none": "Keine",
+  "timing.prep.countdown": "Bedenkzeit: Die Aufnahme startet in {seconds} s, oder starte sie jetzt selbst.",
+  "timing.limit.label": "Antwortlimit ({type})",
+  "timing.limit.hint": "Die Aufnahme stoppt beim Limit; geschriebene Antworten dürfen länger dauern, die Überziehung fließt in das Feedback ein",
+  "timing.minutes": "{count} Min.",
+  "timing.seconds": "{count} Sek.",
+  "timing.overLimit": "Zeit überschritten",
+  "timing.title": "Zeit",
+  "timing.answered": "Beantwortet in {time} von {limit}",
+  "timing.think": "vorher {time} Bedenkzeit",
+  "timing.over": "Zeitlimit um {percent} % überschritten ({time} zu lang)",
+  "timing.within": "Innerhalb des Zeitlimits",
+
+  "preview.title": "Hör dir die Aufnahme vor dem Absenden an",
+  "preview.submit": "Antwort absenden",
+  "preview.replace": "Vorherige Antwort ersetzen",
+  "preview.rerecord": "Neu aufnehmen",
+
+  "answer.title": "Deine Antwort",
+  "answer.notAnswered": "Nicht beantwortet.",
+  "answer.highlight.filler": "Füllwort",
+  "answer.highlight.hedge": "Abschwächende Formulierung",
+
+  "actions.next": "Nächste Frage",
+  "actions.loading": "Wird geladen...",
+  "actions.tryAgain": "Erneut versuchen",
+  "actions.end": "Interview beenden",
+
+  "shortcuts.title": "Tastenkürzel",
+  "shortcuts.record": "Aufnahme starten oder beenden",
+  "shortcuts.submit": "Aufgenommene Antwort absenden",
+  "shortcuts.type": "Antwort tippen",
+  "shortcuts.replay": "Frage erneut abspielen",
+  "shortcuts.next": "Nächste Frage",
+  "shortcuts.retry": "Frage wiederholen",
+  "shortcuts.end": "Interview beenden",
+
+  "announce.question": "{label}: {text}",
+  "announce.scores": "Gesamtpunktzahl {overall} von 10. {dimensions}",
+  "announce.dimension": "{label}: {score}",
+  "announce.recording": "Aufnahme gestartet",
+  "announce.recorded": "Aufnahme beendet",
+
+  "evaluation.title": "Bewertung",
+  "evaluation.failed": "Bewertung fehlgeschlagen.",
+  "evaluation.failedSaved": "Deine Antwort wurde gespeichert; es wurde keine Punktzahl vergeben.",
+  "evaluation.retry": "Bewertung wiederholen",
+  "evaluation.retrying": "Wird bewertet...",
+  "evaluation.feedback": "Ausführliches Feedback",
+  "evaluation.star.situation": "Situation",
+  "evaluation.star.task": "Aufgabe",
+  "evaluation.star.action": "Handlung",
+  "evaluation.star.result": "Ergebnis",
+  "evaluation.star.allCovered": "Alle Teile abgedeckt",
+  "evaluation.star.missing": "Fehlt: {parts}",
+
+  "delivery.title": "Sprechweise",
+  "delivery.wordsPerMinute": "Wörter / Min.",
+  "delivery.speakingTime": "Sprechzeit",
+  "delivery.words": "Wörter",
+  "delivery.fillers": "Füllwörter",
+  "delivery.hedges": "Abschwächungen",
+  "delivery.longPauses": "lange Pausen",
+  "delivery.pace.slow": "Etwas langsam – versuche, knapper zu formulieren.",
+  "delivery.pace.fast": "Recht schnell – sprich langsamer, damit die Kernaussagen ankommen.",
+  "delivery.pace.good": "Angenehmes Gesprächstempo.",
+  "delivery.fillersLabel": "Füllwörter",
+  "delivery.hedgesLabel": "Abschwächungen",
+  "delivery.longestPause": "Längste Pause: {seconds} s",
+
+  "completed.allAnswered": "Alle Fragen beantwortet",
+  "completed.retrySummary": "Zusammenfassung erneut laden",
+  "completed.preparing": "Deine Zusammenfassung wird erstellt...",
+
+  "summary.complete": "Interview abgeschlossen!",
+  "summary.title": "Deine Zusammenfassung",
+  "summary.interviewType": "Interview: {type}",
+  "summary.overallFeedback": "Gesamteindruck",
+  "summary.strengths": "Stärken",
+  "summary.improvements": "Verbesserungspotenzial",
+  "summary.fit": "Eignung für die Stelle",
+  "summary.overtime": "Zeit",
+  "summary.overtime.question": "Bei Frage {number} hast du das Zeitlimit um {percent} % überschritten",
+  "summary.overtime.followUp": "Bei der Nachfrage zu Frage {number} hast du das Zeitlimit um {percent} % überschritten",
+  "summary.scores": "Punkte",
+  "summary.reviewAnswers": "Jede Antwort ansehen",
+  "summary.startNew": "Neues Interview starten",
+  "summary.viewHistory": "Interviewverlauf ansehen",
+
+  "report.title": "Bericht exportieren",
+  "report.exporting": "Wird exportiert...",
+  "report.includeAudio": "Links zu den aufgenommenen Antworten einfügen",
+
+  "history.trends": "Punkteverlauf",
+  "history.past": "Bisherige Interviews",
+  "history.loading": "Verlauf wird geladen...",
+  "history.empty": "Noch keine Interviews.",
+  "history.emptyLink": "Starte dein erstes.",
+  "history.answered": "{answered}/{total} beantwortet",
+  "history.chart.overall": "Gesamt",
+  "history.chart.empty": "Schließe mindestens zwei Interviews ab, um deinen Punkteverlauf zu sehen.",
+
+  "detail.back": "← Zurück zum Verlauf",
+  "detail.loading": "Interview wird geladen...",
+  "detail.completed": "Abgeschlossen",
+  "detail.inProgress": "Läuft",
+
+  "source.label": "Fragen aus",
+  "source.llm": "Für dieses Interview erstellt",
+  "source.llm.hint": "Neue Fragen passend zu deiner Rolle, Stellenbeschreibung und deinem Lebenslauf",
+  "source.bank": "Fragenkatalog",
+  "source.bank.hint": "Ausgewählte Fragen für deine Rolle und Schwierigkeit, bewertet anhand von Musterantworten",
+  "source.set": "Fragensammlung",
+  "source.set.hint": "Eine feste Sammlung in fester Reihenfolge, damit alle dieselben Fragen bekommen",
+  "source.set.label": "Sammlung",
+  "source.set.choose": "Sammlung auswählen",
+  "source.set.option": "{name} ({count} Fragen)",
+
+  "bank.title": "Fragenkatalog",
+  "bank.hint": "Diese Fragen können statt erzeugter Fragen gestellt werden. Antworten auf Fragen mit Musterantwort werden auf Korrektheit daran gemessen; Kandidaten sehen sie nie.",
+  "bank.adminOnly": "Nur Admins können den Fragenkatalog verwalten.",
+  "bank.add": "Frage hinzufügen",
+  "bank.loading": "Fragen werden geladen...",
+  "bank.empty": "Keine passenden Fragen.",
+  "bank.anyRole": "Jede Rolle",
+  "bank.inSets": "In Sammlungen: {sets}",
+  "bank.noReference": "Keine Musterantwort",
+  "bank.edit": "Bearbeiten",
+  "bank.delete": "Löschen",
+  "bank.confirmDelete": "Diese Frage löschen? Frühere Interviews behalten ihre Kopie.",
+  "bank.save": "Speichern",
+  "bank.saving": "Wird gespeichert...",
+  "bank.cancel": "Abbrechen",
+  "bank.filter.search": "Fragen suchen",
+  "bank.filter.tag": "Tag",
+  "bank.filter.anyType": "Jede Art",
+  "bank.filter.anyDifficulty": "Jede Schwierigkeit",
+  "bank.filter.apply": "Filtern",
+  "bank.form.addTitle": "Neue Frage",
+  "bank.form.editTitle": "Frage bearbeiten",
+  "bank.form.text": "Frage",
+  "bank.form.role": "Rolle",
+  "bank.form.rolePlaceholder": "Leer lassen für jede Rolle",
+  "bank.form.topic": "Thema",
+  "bank.form.reference": "Musterantwort",
+  "bank.form.referenceHint": "Die Kernpunkte einer starken Antwort; Antworten werden danach bewertet, wie gut sie diese abdecken",
+  "bank.form.tags": "Tags",
+  "bank.form.tagsPlaceholder": "Durch Kommas getrennt, z. B. sql, indizes",
+  "bank.form.sets": "Sammlungen",
+  "bank.sets.title": "Fragensammlungen",
+  "bank.sets.hint": "Kandidaten können ein Interview mit einer Sammlung starten und bekommen dann alle dieselben Fragen, in der Reihenfolge, in der sie hinzugefügt wurden.",
+  "bank.sets.empty": "Noch keine Sammlungen.",
+  "bank.sets.count": "{count} Fragen",
+  "bank.sets.name": "Name der Sammlung",
+  "bank.sets.description": "Beschreibung",
+  "bank.sets.add": "Sammlung hinzufügen",
+  "bank.sets.rename": "Sammlung speichern",
+  "bank.sets.confirmDelete": "Die Sammlung \"{name}\" löschen? Ihre Fragen bleiben im Katalog.",
+  "bank.transfer.title": "Import und Export",
+  "bank.transfer.export": "{format} exportieren",
+  "bank.transfer.import": "Fragen importieren",
+  "bank.transfer.importHint": "Eine JSON- oder CSV-Datei im Exportformat; in CSV werden Tags und Sammlungen durch Semikolons getrennt",
+  "bank.transfer.importing": "Wird importiert...",
+  "bank.transfer.imported": "{count} Fragen importiert",
+
+  "error.start": "Interview konnte nicht gestartet werden",
+  "error.microphone.denied": "Der Mikrofonzugriff wurde blockiert. Erlaube ihn in den Website-Einstellungen des Browsers oder tippe deine Antwort.",
+  "error.microphone.noDevice": "Kein Mikrofon gefunden. Schließe eines an oder tippe deine Antwort.",
+  "error.microphone.unsupported": "Dieser Browser kann kein Audio aufnehmen. Tippe deine Antwort stattdessen.",
+  "error.microphone.failed": "Das Mikrofon konnte nicht gestartet werden. Möglicherweise wird es von einer anderen App verwendet.",
+  "error.submit": "Antwort konnte nicht gesendet werden",
+  "error.evaluate": "Antwort konnte nicht bewertet werden",
+  "error.next": "Nächste Frage konnte nicht geladen werden",
+  "error.summary": "Zusammenfassung konnte nicht geladen werden",
+  "error.report": "Bericht konnte nicht exportiert werden",
+  "error.history": "Interviewverlauf konnte nicht geladen werden",
+  "error.detail": "Interview konnte nicht geladen werden",
+  "error.voices": "Stimmen konnten nicht geladen werden",
+  "error.questionSets": "Fragensammlungen konnten nicht geladen werden",
+  "error.bank": "Fragenkatalog konnte nicht geladen werden",
+  "error.saveQuestion": "Frage konnte nicht gespeichert werden",
+  "error.deleteQuestion": "Frage konnte nicht gelöscht werden",
+  "error.saveSet": "Sammlung konnte nicht gespeichert werden",
+  "error.deleteSet": "Sammlung konnte nicht gelöscht werden",
+  "error.bankExport": "Fragenkatalog konnte nicht exportiert werden",
+  "error.bankImport": "Fragen konnten nicht importiert werden",
+};
@@ -0,0 +1,300 @@
+// Source strings; every other locale must define the same keys.
+// Placeholders in braces, e.g. {count}, are filled in by `t`.
+export const en = {
+  "app.title": "Voice Mock Interview",
+  "app.subtitle": "Practice and perfect your interview skills",
+  "nav.practice": "Practice",
+  "nav.history": "History",
+  "nav.bank": "Question Bank",
+  "nav.uiLanguage": "Interface language",
+
+  "auth.login.title": "Sign in to practice",
+  "auth.register.title": "Create an account",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.passwordHint": "At least {count} characters",
+  "auth.login.submit": "Sign In",
+  "auth.register.submit": "Create Account",
+  "auth.login.switch": "Already have an account? Sign in",
+  "auth.register.switch": "New here? Create an account",
+  "auth.devLogin": "Continue as developer",
+  "auth.logout": "Log out",
+  "auth.error.invalid": "Invalid email or password",
+  "auth.error.login": "Failed to sign in",
+  "auth.error.register": "Failed to create account",
+
+  "difficulty.easy": "Easy",
+  "difficulty.medium": "Medium",
+  "difficulty.hard": "Hard",
+
+  "interviewType.mixed": "Mixed",
+  "interviewType.behavioral": "Behavioral",
+  "interviewType.technical": "Technical",
+  "interviewType.system_design": "System Design",
+  "interviewType.mixed.description": "A rotation of behavioral, technical and system design questions",
+  "interviewType.behavioral.description": "Past experiences, graded on Situation, Task, Action and Result",
+  "interviewType.technical.description": "Role-specific knowledge and problem solving",
+  "interviewType.system_design.description": "Design a system, graded on requirements, trade-offs and scaling",
+
+  "start.feature.voice.title": "Voice Practice",
+  "start.feature.voice.body": "Answer with your voice",
+  "start.feature.feedback.title": "Instant Feedback",
+  "start.feature.feedback.body": "Get scored evaluations",
+  "start.feature.role.title": "Role-Specific",
+  "start.feature.role.body": "Tailored to your job",
+  "start.role.label": "What role are you interviewing for?",
+  "start.role.placeholder": "e.g., Software Engineer, Product Manager, Data Scientist",
+  "start.language.label": "Interview language",
+  "start.language.hint": "Questions, spoken audio, transcription and feedback all use this language",
+  "start.type.label": "Interview type",
+  "start.count.label": "Number of questions",
+  "start.count.option": "{count} questions",
+  "start.difficulty.label": "Difficulty",
+  "start.followUps": "Ask follow-up questions when an answer is vague or weak",
+  "start.handsFree": "Hands-free mode: record answers automatically and save scores for the end",
+  "start.silence.label": "Stop recording after a silence of",
+  "start.silence.option": "{seconds} sec",
+  "start.submit": "Begin Interview",
+  "start.submitting": "Starting Interview...",
+
+  "jobContext.summary": "Tailor to a job description and résumé (optional)",
+  "jobContext.jobDescription": "Job description",
+  "jobContext.jobDescriptionPlaceholder": "Paste the job posting here, or upload it below",
+  "jobContext.jobDescriptionUpload": "Upload job description",
+  "jobContext.resume": "Résumé (PDF, DOCX or TXT)",
+
+  "transcription.summary": "Transcription settings (optional)",
+  "transcription.model": "Transcription model",
+  "transcription.model.default": "Server default",
+  "transcription.model.tiny": "Tiny (fastest)",
+  "transcription.model.base": "Base",
+  "transcription.model.small": "Small",
+  "transcription.model.medium": "Medium",
+  "transcription.model.large": "Large (most accurate)",
+
+  "voice.label": "Interviewer voice",
+  "voice.default": "Default",
+  "voice.defaultSuffix": "{label} (default)",
+  "voice.rate": "Speaking speed",
+  "voice.rate.slower": "Slower",
+  "voice.rate.normal": "Normal",
+  "voice.rate.faster": "Faster",
+
+  "resume.title": "You have an unfinished interview",
+  "resume.answered": "{answered} answered",
+  "resume.answeredOf": "{answered} of {total} answered",
+  "resume.action": "Resume interview for {role}",
+  "resume.discard": "Discard",
+
+  "question.question": "Question",
+  "question.followUp": "Follow-up",
+  "question.progress": "Question {current} of {total}",
+  "question.number": "Question {number}",
+
+  "recording.start": "Start Recording Answer",
+  "recording.stop": "Stop Recording",
+  "recording.level": "Microphone level",
+  "recording.silence": "No input detected. Check that your microphone is unmuted and selected.",
+  "recording.evaluating": "Evaluating your answer...",
+
+  "handsFree.waiting": "Recording starts when the question finishes playing.",
+  "handsFree.listening": "Recording stops after {seconds} seconds of silence.",
+  "handsFree.saving": "Saving your answer...",
+  "handsFree.advancing": "Moving on to the next question...",
+
+  "textAnswer.open": "Type your answer instead",
+  "textAnswer.label": "Type your answer",
+  "textAnswer.hint": "Press Ctrl+Enter to submit",
+  "textAnswer.useVoice": "Answer by voice instead",
+
+  "timing.prep.label": "Think time before answering",
+  "timing.prep.none": "None",
+  "timing.prep.countdown": "Think time: recording starts in {seconds} s, or start it yourself now.",
+  "timing.limit.label": "{type} answer limit",
+  "timing.limit.hint": "Recording stops at the limit; typed answers can run over, and overtime is noted in the feedback",
+  "timing.minutes": "{count} min",
+  "timing.seconds": "{count} sec",
+  "timing.overLimit": "Over the time limit",
+  "timing.title": "Timing",
+  "timing.answered": "Answered in {time} of {limit}",
+  "timing.think": "thought for {time} first",
+  "timing.over": "Ran {percent}% over the time limit ({time} over)",
+  "timing.within": "Within the time limit",
+
+  "preview.title": "Listen back before submitting",
+  "preview.submit": "Submit Answer",
+  "preview.replace": "Replace Previous Answer",
+  "preview.rerecord": "Re-record",
+
+  "answer.title": "Your Answer",
+  "answer.notAnswered": "Not answered.",
+  "answer.highlight.filler": "Filler word",
+  "answer.highlight.hedge": "Hedging phrase",
+
+  "actions.next": "Next Question",
+  "actions.loading": "Loading...",
+  "actions.tryAgain": "Try Again",
+  "actions.end": "End Interview",
+
+  "shortcuts.title": "Keyboard shortcuts",
+  "shortcuts.record": "Start or stop recording",
+  "shortcuts.submit": "Submit the recorded answer",
+  "shortcuts.type": "Type your answer",
+  "shortcuts.replay": "Play the question again",
+  "shortcuts.next": "Next question",
+  "shortcuts.retry": "Try the question again",
+  "shortcuts.end": "End the interview",
+
+  "announce.question": "{label}: {text}",
+  "announce.scores": "Overall score {overall} out of 10. {dimensions}",
+  "announce.dimension": "{label}: {score}",
+  "announce.recording": "Recording started",
+  "announce.recorded": "Recording stopped",
+
+  "evaluation.title": "Evaluation",
+  "evaluation.failed": "Evaluation failed.",
+  "evaluation.failedSaved": "Your answer was saved; no score has been given.",
+  "evaluation.retry": "Retry Evaluation",
+  "evaluation.retrying": "Evaluating...",
+  "evaluation.feedback": "Detailed Feedback",
+  "evaluation.star.situation": "Situation",
+  "evaluation.star.task": "Task",
+  "evaluation.star.action": "Action",
+  "evaluation.star.result": "Result",
+  "evaluation.star.allCovered": "All parts covered",
+  "evaluation.star.missing": "Missing: {parts}",
+
+  "delivery.title": "Delivery",
+  "delivery.wordsPerMinute": "words / min",
+  "delivery.speakingTime": "speaking time",
+  "delivery.words": "words",
+  "delivery.fillers": "fillers",
+  "delivery.hedges": "hedges",
+  "delivery.longPauses": "long pauses",
+  "delivery.pace.slow": "A little slow — try tightening your phrasing.",
+  "delivery.pace.fast": "Quite fast — slow down so key points land.",
+  "delivery.pace.good": "Comfortable conversational pace.",
+  "delivery.fillersLabel": "Fillers",
+  "delivery.hedgesLabel": "Hedges",
+  "delivery.longestPause": "Longest pause: {seconds}s",
+
+  "completed.allAnswered": "All questions answered",
+  "completed.retrySummary": "Retry Summary",
+  "completed.preparing": "Preparing your performance summary...",
+
+  "summary.complete": "Interview Complete!",
+  "summary.title": "Your Performance Summary",
+  "summary.interviewType": "{type} interview",
+  "summary.overallFeedback": "Overall Feedback",
+  "summary.strengths": "Strengths",
+  "summary.improvements": "Areas for Improvement",
+  "summary.fit": "Fit for the Role",
+  "summary.overtime": "Timing",
+  "summary.overtime.question": "You ran {percent}% over on question {number}",
+  "summary.overtime.followUp": "You ran {percent}% over on the follow-up to question {number}",
+  "summary.scores": "Scores",
+  "summary.reviewAnswers": "Review each answer",
+  "summary.startNew": "Start New Interview",
+  "summary.viewHistory": "View Interview History",
+
+  "report.title": "Export report",
+  "report.exporting": "Exporting...",
+  "report.includeAudio": "Include links to recorded answers",
+
+  "history.trends": "Score Trends",
+  "history.past": "Past Interviews",
+  "history.loading": "Loading history...",
+  "history.empty": "No interviews yet.",
+  "history.emptyLink": "Start your first one.",
+  "history.answered": "{answered}/{total} answered",
+  "history.chart.overall": "Overall",
+  "history.chart.empty": "Complete at least two interviews to see your score trend.",
+
+  "detail.back": "← Back to history",
+  "detail.loading": "Loading interview...",
+  "detail.completed": "Completed",
+  "detail.inProgress": "In progress",
+
+  "source.label": "Questions from",
+  "source.llm": "Generated for this interview",
+  "source.llm.hint": "Fresh questions written for your role, job description and résumé",
+  "source.bank": "Question bank",
+  "source.bank.hint": "Curated questions for your role and difficulty, graded against reference answers",
+  "source.set": "Question set",
+  "source.set.hint": "A fixed set asked in order, so everyone who takes it gets the same questions",
+  "source.set.label": "Set",
+  "source.set.choose": "Choose a set",
+  "source.set.option": "{name} ({count} questions)",
+
+  "bank.title": "Question Bank",
+  "bank.hint": "Questions here can be asked instead of generated ones. Answers to questions with a reference answer are graded for correctness against it; candidates never see it.",
+  "bank.adminOnly": "Only admins can manage the question bank.",
+  "bank.add": "Add Question",
+  "bank.loading": "Loading questions...",
+  "bank.empty": "No questions match.",
+  "bank.anyRole": "Any role",
+  "bank.inSets": "In sets: {sets}",
+  "bank.noReference": "No reference answer",
+  "bank.edit": "Edit",
+  "bank.delete": "Delete",
+  "bank.confirmDelete": "Delete this question? Past interviews keep their copy.",
+  "bank.save": "Save",
+  "bank.saving": "Saving...",
+  "bank.cancel": "Cancel",
+  "bank.filter.search": "Search questions",
+  "bank.filter.tag": "Tag",
+  "bank.filter.anyType": "Any type",
+  "bank.filter.anyDifficulty": "Any difficulty",
+  "bank.filter.apply": "Filter",
+  "bank.form.addTitle": "New question",
+  "bank.form.editTitle": "Edit question",
+  "bank.form.text": "Question",
+  "bank.form.role": "Role",
+  "bank.form.rolePlaceholder": "Leave empty for any role",
+  "bank.form.topic": "Topic",
+  "bank.form.reference": "Reference answer",
+  "bank.form.referenceHint": "The key points of a strong answer; answers are scored on how well they cover them",
+  "bank.form.tags": "Tags",
+  "bank.form.tagsPlaceholder": "Comma-separated, e.g. sql, indexing",
+  "bank.form.sets": "Sets",
+  "bank.sets.title": "Question Sets",
+  "bank.sets.hint": "Candidates can start an interview from a set to all get the same questions, in the order they were added.",
+  "bank.sets.empty": "No sets yet.",
+  "bank.sets.count": "{count} questions",
+  "bank.sets.name": "Set name",
+  "bank.sets.description": "Description",
+  "bank.sets.add": "Add Set",
+  "bank.sets.rename": "Save Set",
+  "bank.sets.confirmDelete": "Delete the set \"{name}\"? Its questions stay in the bank.",
+  "bank.transfer.title": "Import and export",
+  "bank.transfer.export": "Export {format}",
+  "bank.transfer.import": "Import questions",
+  "bank.transfer.importHint": "A JSON or CSV file in the export format; tags and sets are separated by semicolons in CSV",
+  "bank.transfer.importing": "Importing...",
+  "bank.transfer.imported": "Imported {count} questions",
+
+  "error.start": "Failed to start interview",
+  "error.microphone.denied": "Microphone access was blocked. Allow it in your browser's site settings, or type your answer instead.",
+  "error.microphone.noDevice": "No microphone was found. Connect one, or type your answer instead.",
+  "error.microphone.unsupported": "This browser cannot record audio. Type your answer instead.",
+  "error.microphone.failed": "Could not start the microphone. It may be in use by another app.",
+  "error.submit": "Failed to submit answer",
+  "error.evaluate": "Failed to evaluate answer",
+  "error.next": "Failed to get next question",
+  "error.summary": "Failed to get summary",
+  "error.report": "Failed to export report",
+  "error.history": "Failed to load interview history",
+  "error.detail": "Failed to load interview",
+  "error.voices": "Failed to load voices",
+  "error.questionSets": "Failed to load question sets",
+  "error.bank": "Failed to load the question bank",
+  "error.saveQuestion": "Failed to save question",
+  "error.deleteQuestion": "Failed to delete question",
+  "error.saveSet": "Failed to save set",
+  "error.deleteSet": "Failed to delete set",
+  "error.bankExport": "Failed to export the question bank",
+  "error.bankImport": "Failed to import questions",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
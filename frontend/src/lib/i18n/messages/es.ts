@@ -0,0 +1,297 @@
+import { Messages } from "@/lib/i18n/messages/en";
+
+export const es: Messages = {
+  "app.title": "Entrevista de práctica por voz",
+  "app.subtitle": "Practica y perfecciona tus habilidades para entrevistas",
+  "nav.practice": "Practicar",
+  "nav.history": "Historial",
+  "nav.bank": "Banco de preguntas",
+  "nav.uiLanguage": "Idioma de la interfaz",
+
+  "auth.login.title": "Inicia sesión para practicar",
+  "auth.register.title": "Crear una cuenta",
+  "auth.email": "Correo electrónico",
+  "auth.password": "Contraseña",
+  "auth.passwordHint": "Al menos {count} caracteres",
+  "auth.login.submit": "Iniciar sesión",
+  "auth.register.submit": "Crear cuenta",
+  "auth.login.switch": "¿Ya tienes una cuenta? Inicia sesión",
+  "auth.register.switch": "¿Eres nuevo? Crea una cuenta",
+  "auth.devLogin": "Continuar como desarrollador",
+  "auth.logout": "Cerrar sesión",
+  "auth.error.invalid": "Correo electrónico o contraseña incorrectos",
+  "auth.error.login": "No se pudo iniciar sesión",
+  "auth.error.register": "No se pudo crear la cuenta",
+
+  "difficulty.easy": "Fácil",
+  "difficulty.medium": "Media",
+  "difficulty.hard": "Difícil",
+
+  "interviewType.mixed": "Mixta",
+  "interviewType.behavioral": "Conductual",
+  "interviewType.technical": "Técnica",
+  "interviewType.system_design": "Diseño de sistemas",
+  "interviewType.mixed.description": "Una rotación de preguntas conductuales, técnicas y de diseño de sistemas",
+  "interviewType.behavioral.description": "Experiencias pasadas, evaluadas según Situación, Tarea, Acción y Resultado",
+  "interviewType.technical.description": "Conocimientos del puesto y resolución de problemas",
+  "interviewType.system_design.description": "Diseña un sistema, evaluado según requisitos, compromisos y escalabilidad",
+
+  "start.feature.voice.title": "Práctica por voz",
+  "start.feature.voice.body": "Responde con tu voz",
+  "start.feature.feedback.title": "Feedback inmediato",
+  "start.feature.feedback.body": "Recibe evaluaciones con puntuación",
+  "start.feature.role.title": "Según el puesto",
+  "start.feature.role.body": "Adaptado a tu trabajo",
+  "start.role.label": "¿Para qué puesto te estás preparando?",
+  "start.role.placeholder": "p. ej., Ingeniera de software, Product Manager, Científico de datos",
+  "start.language.label": "Idioma de la entrevista",
+  "start.language.hint": "Las preguntas, el audio, la transcripción y el feedback usarán este idioma",
+  "start.type.label": "Tipo de entrevista",
+  "start.count.label": "Número de preguntas",
+  "start.count.option": "{count} preguntas",
+  "start.difficulty.label": "Dificultad",
+  "start.followUps": "Hacer preguntas de seguimiento cuando una respuesta sea vaga o débil",
+  "start.handsFree": "Modo manos libres: grabar las respuestas automáticamente y mostrar las puntuaciones al final",
+  "start.silence.label": "Detener la grabación tras un silencio de",
+  "start.silence.option": "{seconds} s",
+  "start.submit": "Comenzar entrevista",
+  "start.submitting": "Iniciando entrevista...",
+
+  "jobContext.summary": "Adaptar a una oferta de empleo y un currículum (opcional)",
+  "jobContext.jobDescription": "Oferta de empleo",
+  "jobContext.jobDescriptionPlaceholder": "Pega aquí la oferta o súbela a continuación",
+  "jobContext.jobDescriptionUpload": "Subir oferta de empleo",
+  "jobContext.resume": "Currículum (PDF, DOCX o TXT)",
+
+  "transcription.summary": "Ajustes de transcripción (opcional)",
+  "transcription.model": "Modelo de transcripción",
+  "transcription.model.default": "Predeterminado del servidor",
+  "transcription.model.tiny": "Tiny (el más rápido)",
+  "transcription.model.base": "Base",
+  "transcription.model.small": "Small",
+  "transcription.model.medium": "Medium",
+  "transcription.model.large": "Large (el más preciso)",
+
+  "voice.label": "Voz del entrevistador",
+  "voice.default": "Predeterminada",
+  "voice.defaultSuffix": "{label} (predeterminada)",
+  "voice.rate": "Velocidad de habla",
+  "voice.rate.slower": "Más lenta",
+  "voice.rate.normal": "Normal",
+  "voice.rate.faster": "Más rápida",
+
+  "resume.title": "Tienes una entrevista sin terminar",
+  "resume.answered": "{answered} respondidas",
+  "resume.answeredOf": "{answered} de {total} respondidas",
+  "resume.action": "Reanudar la entrevista para {role}",
+  "resume.discard": "Descartar",
+
+  "question.question": "Pregunta",
+  "question.followUp": "Seguimiento",
+  "question.progress": "Pregunta {current} de {total}",
+  "question.number": "Pregunta {number}",
+
+  "recording.start": "Empezar a grabar la respuesta",
+  "recording.stop": "Detener grabación",
+  "recording.level": "Nivel del micrófono",
+  "recording.silence": "No se detecta sonido. Comprueba que el micrófono no esté silenciado y esté seleccionado.",
+  "recording.evaluating": "Evaluando tu respuesta...",
+
+  "handsFree.waiting": "La grabación empieza cuando termina de sonar la pregunta.",
+  "handsFree.listening": "La grabación se detiene tras {seconds} segundos de silencio.",
+  "handsFree.saving": "Guardando tu respuesta...",
+  "handsFree.advancing": "Pasando a la siguiente pregunta...",
+
+  "textAnswer.open": "Escribir la respuesta",
+  "textAnswer.label": "Escribe tu respuesta",
+  "textAnswer.hint": "Pulsa Ctrl+Intro para enviar",
+  "textAnswer.useVoice": "Responder con la voz",
+
+  "timing.prep.label": "Tiempo para pensar antes de responder",
+  "timing.prep.none": "Ninguno",
+  "timing.prep.countdown": "Tiempo para pensar: la grabación empieza en {seconds} s, o empiézala tú ahora.",
+  "timing.limit.label": "Límite por respuesta ({type})",
+  "timing.limit.hint": "La grabación se detiene al llegar al límite; las respuestas escritas pueden pasarse y el exceso se indica en la evaluación",
+  "timing.minutes": "{count} min",
+  "timing.seconds": "{count} s",
+  "timing.overLimit": "Fuera de tiempo",
+  "timing.title": "Tiempo",
+  "timing.answered": "Respondida en {time} de {limit}",
+  "timing.think": "{time} para pensar antes",
+  "timing.over": "Te pasaste un {percent}% del tiempo límite ({time} de más)",
+  "timing.within": "Dentro del tiempo límite",
+
+  "preview.title": "Escucha tu respuesta antes de enviarla",
+  "preview.submit": "Enviar respuesta",
+  "preview.replace": "Reemplazar la respuesta anterior",
+  "preview.rerecord": "Volver a grabar",
+
+  "answer.title": "Tu respuesta",
+  "answer.notAnswered": "Sin responder.",
+  "answer.highlight.filler": "Muletilla",
+  "answer.highlight.hedge": "Expresión de duda",
+
+  "actions.next": "Siguiente pregunta",
+  "actions.loading": "Cargando...",
+  "actions.tryAgain": "Intentar de nuevo",
+  "actions.end": "Terminar entrevista",
+
+  "shortcuts.title": "Atajos de teclado",
+  "shortcuts.record": "Iniciar o detener la grabación",
+  "shortcuts.submit": "Enviar la respuesta grabada",
+  "shortcuts.type": "Escribir la respuesta",
+  "shortcuts.replay": "Volver a reproducir la pregunta",
+  "shortcuts.next": "Siguiente pregunta",
+  "shortcuts.retry": "Repetir la pregunta",
+  "shortcuts.end": "Terminar la entrevista",
+
+  "announce.question": "{label}: {text}",
+  "announce.scores": "Puntuación global: {overall} de 10. {dimensions}",
+  "announce.dimension": "{label}: {score}",
+  "announce.recording": "Grabación iniciada",
+  "announce.recorded": "Grabación detenida",
+
+  "evaluation.title": "Evaluación",
+  "evaluation.failed": "La evaluación falló.",
+  "evaluation.failedSaved": "Tu respuesta se guardó; no se ha asignado puntuación.",
+  "evaluation.retry": "Reintentar evaluación",
+  "evaluation.retrying": "Evaluando...",
+  "evaluation.feedback": "Feedback detallado",
+  "evaluation.star.situation": "Situación",
+  "evaluation.star.task": "Tarea",
+  "evaluation.star.action": "Acción",
+  "evaluation.star.result": "Resultado",
+  "evaluation.star.allCovered": "Todas las partes cubiertas",
+  "evaluation.star.missing": "Falta: {parts}",
+
+  "delivery.title": "Expresión oral",
+  "delivery.wordsPerMinute": "palabras / min",
+  "delivery.speakingTime": "tiempo hablando",
+  "delivery.words": "palabras",
+  "delivery.fillers": "muletillas",
+  "delivery.hedges": "expresiones de duda",
+  "delivery.longPauses": "pausas largas",
+  "delivery.pace.slow": "Algo lento: intenta condensar tus frases.",
+  "delivery.pace.fast": "Bastante rápido: baja el ritmo para que se entiendan las ideas clave.",
+  "delivery.pace.good": "Ritmo de conversación cómodo.",
+  "delivery.fillersLabel": "Muletillas",
+  "delivery.hedgesLabel": "Dudas",
+  "delivery.longestPause": "Pausa más larga: {seconds} s",
+
+  "completed.allAnswered": "Todas las preguntas respondidas",
+  "completed.retrySummary": "Reintentar resumen",
+  "completed.preparing": "Preparando el resumen de tu desempeño...",
+
+  "summary.complete": "¡Entrevista completada!",
+  "summary.title": "Resumen de tu desempeño",
+  "summary.interviewType": "Entrevista {type}",
+  "summary.overallFeedback": "Valoración general",
+  "summary.strengths": "Puntos fuertes",
+  "summary.improvements": "Aspectos a mejorar",
+  "summary.fit": "Encaje con el puesto",
+  "summary.overtime": "Tiempo",
+  "summary.overtime.question": "Te pasaste un {percent}% del tiempo en la pregunta {number}",
+  "summary.overtime.followUp": "Te pasaste un {percent}% del tiempo en la repregunta de la pregunta {number}",
+  "summary.scores": "Puntuaciones",
+  "summary.reviewAnswers": "Revisar cada respuesta",
+  "summary.startNew": "Empezar otra entrevista",
+  "summary.viewHistory": "Ver historial de entrevistas",
+
+  "report.title": "Exportar informe",
+  "report.exporting": "Exportando...",
+  "report.includeAudio": "Incluir enlaces a las respuestas grabadas",
+
+  "history.trends": "Evolución de puntuaciones",
+  "history.past": "Entrevistas anteriores",
+  "history.loading": "Cargando historial...",
+  "history.empty": "Aún no hay entrevistas.",
+  "history.emptyLink": "Empieza la primera.",
+  "history.answered": "{answered}/{total} respondidas",
+  "history.chart.overall": "General",
+  "history.chart.empty": "Completa al menos dos entrevistas para ver la evolución de tus puntuaciones.",
+
+  "detail.back": "← Volver al historial",
+  "detail.loading": "Cargando entrevista...",
+  "detail.completed": "Completada",
+  "detail.inProgress": "En curso",
+
+  "source.label": "Preguntas de",
+  "source.llm": "Generadas para esta entrevista",
+  "source.llm.hint": "Preguntas nuevas escritas para tu puesto, la descripción del empleo y tu currículum",
+  "source.bank": "Banco de preguntas",
+  "source.bank.hint": "Preguntas seleccionadas para tu puesto y dificultad, evaluadas con respuestas de referencia",
+  "source.set": "Conjunto de preguntas",
+  "source.set.hint": "Un conjunto fijo en orden, para que todos los que lo hagan reciban las mismas preguntas",
+  "source.set.label": "Conjunto",
+  "source.set.choose": "Elige un conjunto",
+  "source.set.option": "{name} ({count} preguntas)",
+
+  "bank.title": "Banco de preguntas",
+  "bank.hint": "Estas preguntas pueden usarse en lugar de las generadas. Las respuestas a preguntas con respuesta de referencia se evalúan en corrección frente a ella; los candidatos nunca la ven.",
+  "bank.adminOnly": "Solo los administradores pueden gestionar el banco de preguntas.",
+  "bank.add": "Añadir pregunta",
+  "bank.loading": "Cargando preguntas...",
+  "bank.empty": "Ninguna pregunta coincide.",
+  "bank.anyRole": "Cualquier puesto",
+  "bank.inSets": "En conjuntos: {sets}",
+  "bank.noReference": "Sin respuesta de referencia",
+  "bank.edit": "Editar",
+  "bank.delete": "Eliminar",
+  "bank.confirmDelete": "¿Eliminar esta pregunta? Las entrevistas anteriores conservan su copia.",
+  "bank.save": "Guardar",
+  "bank.saving": "Guardando...",
+  "bank.cancel": "Cancelar",
+  "bank.filter.search": "Buscar preguntas",
+  "bank.filter.tag": "Etiqueta",
+  "bank.filter.anyType": "Cualquier tipo",
+  "bank.filter.anyDifficulty": "Cualquier dificultad",
+  "bank.filter.apply": "Filtrar",
+  "bank.form.addTitle": "Nueva pregunta",
+  "bank.form.editTitle": "Editar pregunta",
+  "bank.form.text": "Pregunta",
+  "bank.form.role": "Puesto",
+  "bank.form.rolePlaceholder": "Déjalo vacío para cualquier puesto",
+  "bank.form.topic": "Tema",
+  "bank.form.reference": "Respuesta de referencia",
+  "bank.form.referenceHint": "Los puntos clave de una buena respuesta; las respuestas se puntúan según cuánto los cubren",
+  "bank.form.tags": "Etiquetas",
+  "bank.form.tagsPlaceholder": "Separadas por comas, p. ej. sql, índices",
+  "bank.form.sets": "Conjuntos",
+  "bank.sets.title": "Conjuntos de preguntas",
+  "bank.sets.hint": "Los candidatos pueden empezar una entrevista desde un conjunto para recibir todos las mismas preguntas, en el orden en que se añadieron.",
+  "bank.sets.empty": "Aún no hay conjuntos.",
+  "bank.sets.count": "{count} preguntas",
+  "bank.sets.name": "Nombre del conjunto",
+  "bank.sets.description": "Descripción",
+  "bank.sets.add": "Añadir conjunto",
+  "bank.sets.rename": "Guardar conjunto",
+  "bank.sets.confirmDelete": "¿Eliminar el conjunto \"{name}\"? Sus preguntas permanecen en el banco.",
+  "bank.transfer.title": "Importar y exportar",
+  "bank.transfer.export": "Exportar {format}",
+  "bank.transfer.import": "Importar preguntas",
+  "bank.transfer.importHint": "Un archivo JSON o CSV con el formato de exportación; en CSV, las etiquetas y los conjuntos se separan con punto y coma",
+  "bank.transfer.importing": "Importando...",
+  "bank.transfer.imported": "{count} preguntas importadas",
+
+  "error.start": "No se pudo iniciar la entrevista",
+  "error.microphone.denied": "Se bloqueó el acceso al micrófono. Permítelo en la configuración del sitio del navegador o escribe tu respuesta.",
+  "error.microphone.noDevice": "No se encontró ningún micrófono. Conecta uno o escribe tu respuesta.",
+  "error.microphone.unsupported": "Este navegador no puede grabar audio. Escribe tu respuesta.",
+  "error.microphone.failed": "No se pudo iniciar el micrófono. Puede que otra aplicación lo esté usando.",
+  "error.submit": "No se pudo enviar la respuesta",
+  "error.evaluate": "No se pudo evaluar la respuesta",
+  "error.next": "No se pudo obtener la siguiente pregunta",
+  "error.summary": "No se pudo obtener el resumen",
+  "error.report": "No se pudo exportar el informe",
+  "error.history": "No se pudo cargar el historial de entrevistas",
+  "error.detail": "No se pudo cargar la entrevista",
+  "error.voices": "No se pudieron cargar las voces",
+  "error.questionSets": "No se pudieron cargar los conjuntos de preguntas",
+  "error.bank": "No se pudo cargar el banco de preguntas",
+  "error.saveQuestion": "No se pudo guardar la pregunta",
+  "error.deleteQuestion": "No se pudo eliminar la pregunta",
+  "error.saveSet": "No se pudo guardar el conjunto",
+  "error.deleteSet": "No se pudo eliminar el conjunto",
+  "error.bankExport": "No se pudo exportar el banco de preguntas",
+  "error.bankImport": "No se pudieron importar las preguntas",
+};
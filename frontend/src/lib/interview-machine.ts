@@ -0,0 +1,341 @@
+import {
+  AnswerTiming,
+  DeliveryMetrics,
+  EvaluationData,
+  QuestionPayload,
+  QuestionType,
+  SessionState,
+  SummaryData,
+} from "@/lib/api";
+
+/*
+ * Interview flow as an explicit state machine:
+ *
+ *   idle → asking → recording → previewing → evaluating → reviewing → asking ...
+ *                                                                  ↓
+ *                                                    completed → summarized
+ *
+ * Two loops sit on top of the main path: re-recording from the preview goes
+ * back to recording, and retrying a question from the review goes back to
+ * asking the same question (whose answer is then replaced, not appended).
+ * A failed evaluation can also be re-run in place while reviewing. A typed
+ * answer skips recording and the preview, going from asking straight to
+ * evaluating.
+ *
+ * Every piece of data only exists on the states where it is meaningful, so
+ * combinations like "recording after the interview completed" cannot be
+ * represented. Events that are not valid for the current state are ignored.
+ */
+
+export interface ActiveQuestion {
+  text: string;
+  audioFile: string | null;
+  // Index of the main question; follow-ups share their parent's index
+  index: number;
+  total: number;
+  followUp: boolean;
+  type: QuestionType;
+  // An answer is already stored, so the next submission replaces it
+  answered: boolean;
+  // Countdown before recording starts (0 for none) and the answer time limit
+  prepSeconds: number;
+  timeLimitSeconds: number;
+}
+
+export const toActiveQuestion = (response: QuestionPayload): ActiveQuestion => ({
+  text: response.question,
+  audioFile: response.audio_file,
+  index: response.question_index,
+  total: response.total_questions,
+  followUp: response.follow_up,
+  type: response.question_type,
+  answered: false,
+  prepSeconds: response.prep_seconds,
+  timeLimitSeconds: response.time_limit_seconds,
+});
+
+export type InterviewMachineState =
+  | { status: "idle"; pending: boolean }
+  | { status: "asking"; interviewId: string; question: ActiveQuestion }
+  | { status: "recording"; interviewId: string; question: ActiveQuestion }
+  | {
+      status: "previewing";
+      interviewId: string;
+      question: ActiveQuestion;
+      recording: Blob;
+    }
+  | {
+      status: "evaluating";
+      interviewId: string;
+      question: ActiveQuestion;
+      // Null when the answer was typed
+      recording: Blob | null;
+    }
+  | {
+      status: "reviewing";
+      interviewId: string;
+      question: ActiveQuestion;
+      transcript: string;
+      evaluation: EvaluationData;
+      delivery: DeliveryMetrics | null;
+      timing: AnswerTiming | null;
+      pending: boolean;
+    }
+  | {
+      status: "completed";
+      interviewId: string;
+      pending: boolean;
+      summaryFailed: boolean;
+    }
+  | { status: "summarized"; interviewId: string; summary: SummaryData };
+
+export type InterviewStatus = InterviewMachineState["status"];
+
+export type InterviewEvent =
+  | { type: "START" }
+  | { type: "START_FAILED" }
+  | { type: "QUESTION_READY"; interviewId: string; question: ActiveQuestion }
+  | { type: "RECORD" }
+  | { type: "RECORDING_STOPPED"; recording: Blob }
+  | { type: "RECORDING_FAILED" }
+  | { type: "SUBMIT" }
+  | { type: "SUBMIT_TEXT" }
+  | { type: "RETRY_QUESTION" }
+  | {
+      type: "ANSWER_EVALUATED";
+      transcript: string;
+      evaluation: EvaluationData;
+      delivery: DeliveryMetrics | null;
+      timing: AnswerTiming | null;
+    }
+  | { type: "ANSWER_FAILED" }
+  | { type: "REEVALUATE" }
+  | { type: "REEVALUATED"; evaluation: EvaluationData }
+  | { type: "REEVALUATE_FAILED" }
+  | { type: "NEXT" }
+  | { type: "NEXT_FAILED" }
+  | { type: "END" }
+  | { type: "COMPLETED" }
+  | { type: "SUMMARY_REQUESTED" }
+  | { type: "SUMMARY_READY"; summary: SummaryData }
+  | { type: "SUMMARY_FAILED" }
+  | { type: "RESTORE"; state: InterviewMachineState }
+  | { type: "RESET" };
+
+export type InterviewEventType = InterviewEvent["type"];
+
+export const initialInterviewState: InterviewMachineState = {
+  status: "idle",
+  pending: false,
+};
+
+const allowedEvents: Record<InterviewStatus, InterviewEventType[]> = {
+  idle: ["START", "START_FAILED", "QUESTION_READY", "RESTORE"],
+  asking: ["RECORD", "SUBMIT_TEXT", "END", "RESET"],
+  recording: ["RECORDING_STOPPED", "RECORDING_FAILED", "RESET"],
+  previewing: ["SUBMIT", "RECORD", "RESET"],
+  evaluating: ["ANSWER_EVALUATED", "ANSWER_FAILED", "RESET"],
+  reviewing: [
+    "NEXT",
+    "NEXT_FAILED",
+    "QUESTION_READY",
+    "RETRY_QUESTION",
+    "REEVALUATE",
+    "REEVALUATED",
+    "REEVALUATE_FAILED",
+    "END",
+    "COMPLETED",
+    "RESET",
+  ],
+  completed: ["SUMMARY_REQUESTED", "SUMMARY_READY", "SUMMARY_FAILED", "RESET"],
+  summarized: ["RESET"],
+};
+
+export const canSend = (
+  state: InterviewMachineState,
+  type: InterviewEventType,
+): boolean => {
+  if (!allowedEvents[state.status].includes(type)) return false;
+  // A pending request blocks user-initiated events until it settles
+  if ("pending" in state && state.pending) {
+    return ![
+      "START",
+      "NEXT",
+      "RETRY_QUESTION",
+      "REEVALUATE",
+      "END",
+      "SUMMARY_REQUESTED",
+    ].includes(type);
+  }
+  return true;
+};
+
+export const interviewReducer = (
+  state: InterviewMachineState,
+  event: InterviewEvent,
+): InterviewMachineState => {
+  if (!canSend(state, event.type)) return state;
+
+  switch (event.type) {
+    case "RESET":
+      return initialInterviewState;
+
+    case "RESTORE":
+      return event.state;
+
+    case "START":
+      return { status: "idle", pending: true };
+
+    case "START_FAILED":
+      return { status: "idle", pending: false };
+
+    case "QUESTION_READY":
+      return {
+        status: "asking",
+        interviewId: event.interviewId,
+        question: event.question,
+      };
+
+    // Recording again from the preview discards the previous take
+    case "RECORD":
+      return state.status === "asking" || state.status === "previewing"
+        ? {
+            status: "recording",
+            interviewId: state.interviewId,
+            question: state.question,
+          }
+        : state;
+
+    case "RECORDING_FAILED":
+      return state.status === "recording"
+        ? { ...state, status: "asking" }
+        : state;
+
+    case "RECORDING_STOPPED":
+      return state.status === "recording"
+        ? { ...state, status: "previewing", recording: event.recording }
+        : state;
+
+    case "SUBMIT":
+      return state.status === "previewing"
+        ? { ...state, status: "evaluating" }
+        : state;
+
+    case "SUBMIT_TEXT":
+      return state.status === "asking"
+        ? { ...state, status: "evaluating", recording: null }
+        : state;
+
+    case "ANSWER_EVALUATED":
+      return state.status === "evaluating"
+        ? {
+            status: "reviewing",
+            interviewId: state.interviewId,
+            question: { ...state.question, answered: true },
+            transcript: event.transcript,
+            evaluation: event.evaluation,
+            delivery: event.delivery,
+            timing: event.timing,
+            pending: false,
+          }
+        : state;
+
+    // Keep the take so the candidate can resubmit or re-record it; a typed
+    // answer goes back to the question, where the text is still in the form
+    case "ANSWER_FAILED":
+      if (state.status !== "evaluating") return state;
+      return state.recording
+        ? { ...state, status: "previewing", recording: state.recording }
+        : {
+            status: "asking",
+            interviewId: state.interviewId,
+            question: state.question,
+          };
+
+    case "REEVALUATE":
+      return state.status === "reviewing" ? { ...state, pending: true } : state;
+
+    case "REEVALUATED":
+      return state.status === "reviewing"
+        ? { ...state, evaluation: event.evaluation, pending: false }
+        : state;
+
+    case "REEVALUATE_FAILED":
+      return state.status === "reviewing" ? { ...state, pending: false } : state;
+
+    case "RETRY_QUESTION":
+      return state.status === "reviewing"
+        ? {
+            status: "asking",
+            interviewId: state.interviewId,
+            question: state.question,
+          }
+        : state;
+
+    case "NEXT":
+      return state.status === "reviewing" ? { ...state, pending: true } : state;
+
+    case "NEXT_FAILED":
+      return state.status === "reviewing" ? { ...state, pending: false } : state;
+
+    // END is the user finishing early, COMPLETED is the backend running
+    // out of questions; both lead into the summary flow
+    case "END":
+    case "COMPLETED":
+      return {
+        status: "completed",
+        interviewId: state.status === "idle" ? "" : state.interviewId,
+        pending: false,
+        summaryFailed: false,
+      };
+
+    case "SUMMARY_REQUESTED":
+      return state.status === "completed"
+        ? { ...state, pending: true, summaryFailed: false }
+        : state;
+
+    case "SUMMARY_READY":
+      return state.status === "completed"
+        ? {
+            status: "summarized",
+            interviewId: state.interviewId,
+            summary: event.summary,
+          }
+        : state;
+
+    case "SUMMARY_FAILED":
+      return state.status === "completed"
+        ? { ...state, pending: false, summaryFailed: true }
+        : state;
+  }
+};
+
+/**
+ * Rebuilds the screen the candidate was on from the backend's session state,
+ * e.g. after a page reload.
+ */
+export const fromSessionState = (
+  session: SessionState,
+): InterviewMachineState => {
+  const interviewId = session.interview_id;
+  const current = session.current_question;
+
+  if (session.phase === "asking" && current) {
+    return { status: "asking", interviewId, question: toActiveQuestion(current) };
+  }
+
+  if (session.phase === "reviewing" && current && session.evaluation) {
+    return {
+      status: "reviewing",
+      interviewId,
+      question: { ...toActiveQuestion(current), answered: true },
+      transcript: session.transcript || "",
+      evaluation: session.evaluation,
+      delivery: session.delivery,
+      timing: session.timing,
+      pending: false,
+    };
+  }
+
+  return { status: "completed", interviewId, pending: false, summaryFailed: false };
+};
@@ -0,0 +1,46 @@
+import { Difficulty, InterviewType, QuestionType } from "@/lib/api";
+import { MessageKey } from "@/lib/i18n";
+
+export const INTERVIEW_TYPE_LABEL_KEYS: Record<InterviewType, MessageKey> = {
+  behavioral: "interviewType.behavioral",
+  technical: "interviewType.technical",
+  system_design: "interviewType.system_design",
+  mixed: "interviewType.mixed",
+};
+
+export const DIFFICULTY_LABEL_KEYS: Record<Difficulty, MessageKey> = {
+  easy: "difficulty.easy",
+  medium: "difficulty.medium",
+  hard: "difficulty.hard",
+};
+
+export const DIFFICULTY_OPTIONS: Difficulty[] = ["easy", "medium", "hard"];
+
+export const QUESTION_TYPES: QuestionType[] = ["behavioral", "technical", "system_design"];
+
+export const INTERVIEW_TYPE_OPTIONS: {
+  value: InterviewType;
+  labelKey: MessageKey;
+  descriptionKey: MessageKey;
+}[] = [
+  {
+    value: "mixed",
+    labelKey: INTERVIEW_TYPE_LABEL_KEYS.mixed,
+    descriptionKey: "interviewType.mixed.description",
+  },
+  {
+    value: "behavioral",
+    labelKey: INTERVIEW_TYPE_LABEL_KEYS.behavioral,
+    descriptionKey: "interviewType.behavioral.description",
+  },
+  {
+    value: "technical",
+    labelKey: INTERVIEW_TYPE_LABEL_KEYS.technical,
+    descriptionKey: "interviewType.technical.description",
+  },
+  {
+    value: "system_design",
+    labelKey: INTERVIEW_TYPE_LABEL_KEYS.system_design,
+    descriptionKey: "interviewType.system_design.description",
+  },
+];
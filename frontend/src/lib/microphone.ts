@@ -0,0 +1,84 @@
+// Browser support for recording answers, and why starting the microphone failed
+
+// In order of preference; Safari only records mp4
+const RECORDING_MIME_TYPES = [
+  "audio/webm;codecs=opus",
+  "audio/webm",
+  "audio/mp4",
+  "audio/ogg;codecs=opus",
+  "audio/ogg",
+];
+
+export type MicrophoneErrorKind = "denied" | "no_device" | "unsupported" | "failed";
+
+export class MicrophoneError extends Error {
+  readonly kind: MicrophoneErrorKind;
+
+  constructor(kind: MicrophoneErrorKind, message: string) {
+    super(message);
+    this.name = "MicrophoneError";
+    this.kind = kind;
+    Object.setPrototypeOf(this, MicrophoneError.prototype);
+  }
+}
+
+export const canRecordAudio = (): boolean =>
+  typeof window !== "undefined" &&
+  typeof window.MediaRecorder !== "undefined" &&
+  Boolean(navigator.mediaDevices?.getUserMedia);
+
+/**
+ * First container the browser can record, or "" to let MediaRecorder pick
+ * when it cannot tell us (older browsers without isTypeSupported).
+ */
+export const recordingMimeType = (): string => {
+  if (typeof MediaRecorder.isTypeSupported !== "function") return "";
+  return RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+};
+
+// getUserMedia and MediaRecorder report failures as DOMExceptions named by cause
+export const toMicrophoneError = (err: unknown): MicrophoneError => {
+  if (err instanceof MicrophoneError) return err;
+  const name = err instanceof Error ? err.name : "";
+  const message = err instanceof Error ? err.message : String(err);
+
+  switch (name) {
+    case "NotAllowedError":
+    case "PermissionDeniedError":
+    case "SecurityError":
+      return new MicrophoneError("denied", message);
+    case "NotFoundError":
+    case "DevicesNotFoundError":
+    case "OverconstrainedError":
+      return new MicrophoneError("no_device", message);
+    case "NotSupportedError":
+      return new MicrophoneError("unsupported", message);
+    default:
+      return new MicrophoneError("failed", message);
+  }
+};
+
+/**
+ * Asks for the microphone and builds a recorder in a format this browser
+ * supports. Throws a MicrophoneError describing what went wrong.
+ */
+export const openMicrophone = async (): Promise<MediaRecorder> => {
+  if (!canRecordAudio()) {
+    throw new MicrophoneError("unsupported", "Recording is not supported in this browser");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  } catch (err) {
+    throw toMicrophoneError(err);
+  }
+
+  try {
+    const mimeType = recordingMimeType();
+    return new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  } catch (err) {
+    stream.getTracks().forEach((track) => track.stop());
+    throw toMicrophoneError(err);
+  }
+};
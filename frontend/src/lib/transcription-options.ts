@@ -0,0 +1,26 @@
+import { MessageKey } from "@/lib/i18n";
+
+// Languages an interview can be held in, named in their own language.
+// Must match app/services/languages.py on the backend.
+export const INTERVIEW_LANGUAGE_OPTIONS: { value: string; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Español" },
+  { value: "de", label: "Deutsch" },
+  { value: "fr", label: "Français" },
+  { value: "pt", label: "Português" },
+  { value: "it", label: "Italiano" },
+  { value: "nl", label: "Nederlands" },
+  { value: "hi", label: "हिन्दी" },
+  { value: "ja", label: "日本語" },
+  { value: "zh", label: "中文" },
+];
+
+// An empty value leaves the choice to the server default (STT_MODEL)
+export const STT_MODEL_OPTIONS: { value: string; labelKey: MessageKey }[] = [
+  { value: "", labelKey: "transcription.model.default" },
+  { value: "tiny", labelKey: "transcription.model.tiny" },
+  { value: "base", labelKey: "transcription.model.base" },
+  { value: "small", labelKey: "transcription.model.small" },
+  { value: "medium", labelKey: "transcription.model.medium" },
+  { value: "large-v3", labelKey: "transcription.model.large" },
+];
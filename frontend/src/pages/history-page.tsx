@@ -0,0 +1,79 @@
+import { Link } from "react-router-dom";
+import { format } from "date-fns";
+
+import { interviewApi } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import { DIFFICULTY_LABEL_KEYS, INTERVIEW_TYPE_LABEL_KEYS } from "@/lib/interview-types";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { ErrorMessage } from "@/components/interview/error-message";
+import { ScoreTrendChart } from "@/components/history/score-trend-chart";
+
+export function HistoryPage() {
+  const { t, dateLocale } = useTranslation();
+  const { data: interviews, error, loading } = useApiQuery(
+    "interviews",
+    (signal) => interviewApi.listInterviews({ signal }),
+    t("error.history"),
+  );
+
+  return (
+    <div className="history-section fade-in" data-testid="history-section">
+      <ErrorMessage message={error} />
+
+      <div className="history-panel">
+        <h2 className="section-title">{t("history.trends")}</h2>
+        {interviews && <ScoreTrendChart interviews={interviews} />}
+      </div>
+
+      <div className="history-panel">
+        <h2 className="section-title">{t("history.past")}</h2>
+        {loading && (
+          <p className="completed-text">
+            <span className="spinner"></span>
+            {t("history.loading")}
+          </p>
+        )}
+        {interviews && interviews.length === 0 && (
+          <p className="empty-text">
+            {t("history.empty")} <Link to="/">{t("history.emptyLink")}</Link>
+          </p>
+        )}
+        <ul className="history-list" data-testid="history-list">
+          {interviews?.map((interview) => (
+            <li key={interview.interview_id}>
+              <Link
+                to={`/history/${interview.interview_id}`}
+                className="history-item"
+                data-testid="history-item"
+              >
+                <div>
+                  <strong>{interview.role}</strong>
+                  <span className="history-meta">
+                    {format(new Date(interview.created_at), "PP · HH:mm", {
+                      locale: dateLocale,
+                    })}
+                    {" · "}
+                    {t(INTERVIEW_TYPE_LABEL_KEYS[interview.interview_type])}
+                    {" · "}
+                    {t(DIFFICULTY_LABEL_KEYS[interview.difficulty])}
+                    {" · "}
+                    {t("history.answered", {
+                      answered: interview.answered,
+                      total: interview.total_questions,
+                    })}
+                  </span>
+                </div>
+                {interview.average_scores && (
+                  <span className="history-score">
+                    {interview.average_scores.overall.toFixed(1)}
+                    <span className="score-max">/10</span>
+                  </span>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+
+import { interviewApi, QuestionResult } from "@/lib/api";
+import { useTranslation } from "@/lib/i18n";
+import { DIFFICULTY_LABEL_KEYS, INTERVIEW_TYPE_LABEL_KEYS } from "@/lib/interview-types";
+import { INTERVIEW_LANGUAGE_OPTIONS } from "@/lib/transcription-options";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { useAudioUrl } from "@/hooks/use-audio-url";
+import { ErrorMessage } from "@/components/interview/error-message";
+import { EvaluationCard } from "@/components/interview/evaluation-card";
+import { DeliveryPanel } from "@/components/interview/delivery-panel";
+import { TimingPanel } from "@/components/interview/timing-panel";
+import { HighlightedTranscript } from "@/components/interview/highlighted-transcript";
+import { ReportExport } from "@/components/interview/report-export";
+
+function AnswerAudio({ interviewId, audioFile }: { interviewId: string; audioFile: string }) {
+  const url = useAudioUrl(interviewId, audioFile);
+
+  return url ? <audio src={url} controls className="audio-player" /> : null;
+}
+
+function AnswerResult({
+  interviewId,
+  result,
+}: {
+  interviewId: string;
+  result: QuestionResult;
+}) {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      {result.transcript === null ? (
+        <p className="empty-text">{t("answer.notAnswered")}</p>
+      ) : (
+        <div className="transcript-box">
+          <h3 className="subsection-title">{t("answer.title")}</h3>
+          <HighlightedTranscript
+            transcript={result.transcript}
+            delivery={result.delivery}
+          />
+          {result.answer_audio_file && (
+            <AnswerAudio interviewId={interviewId} audioFile={result.answer_audio_file} />
+          )}
+        </div>
+      )}
+
+      {result.delivery && <DeliveryPanel delivery={result.delivery} />}
+
+      {result.timing && <TimingPanel timing={result.timing} />}
+
+      {result.evaluation && <EvaluationCard evaluation={result.evaluation} />}
+    </>
+  );
+}
+
+export function InterviewDetailPage() {
+  const { interviewId = "" } = useParams();
+  const { t, dateLocale } = useTranslation();
+  const { data: interview, error, loading } = useApiQuery(
+    interviewId,
+    (signal) => interviewApi.getInterview(interviewId, { signal }),
+    t("error.detail"),
+  );
+  const language = INTERVIEW_LANGUAGE_OPTIONS.find(
+    (option) => option.value === interview?.language,
+  );
+
+  return (
+    <div className="history-section fade-in" data-testid="interview-detail">
+      <Link to="/history" className="back-link">
+        {t("detail.back")}
+      </Link>
+      <ErrorMessage message={error} />
+      {loading && (
+        <p className="completed-text">
+          <span className="spinner"></span>
+          {t("detail.loading")}
+        </p>
+      )}
+
+      {interview && (
+        <>
+          <div className="summary-header">
+            <h2 className="section-title">{interview.role}</h2>
+            <p className="history-meta">
+              {format(new Date(interview.created_at), "PPP · HH:mm", {
+                locale: dateLocale,
+              })}
+              {" · "}
+              {t(INTERVIEW_TYPE_LABEL_KEYS[interview.interview_type])}
+              {" · "}
+              {t(DIFFICULTY_LABEL_KEYS[interview.difficulty])}
+              {language && ` · ${language.label}`}
+              {" · "}
+              {interview.status === "completed"
+                ? t("detail.completed")
+                : t("detail.inProgress")}
+            </p>
+          </div>
+
+          <ReportExport interviewId={interview.interview_id} />
+
+          {interview.questions.map((item) => (
+            <div
+              key={item.question_index}
+              className="result-section"
+              data-testid="detail-question"
+            >
+              <div className="question-section">
+                <div className="question-badge">
+                  {t("question.number", { number: item.question_index + 1 })}
+                </div>
+                <span className="question-type-chip">
+                  {t(INTERVIEW_TYPE_LABEL_KEYS[item.question_type])}
+                </span>
+                <p className="question-text">{item.question}</p>
+              </div>
+
+              <AnswerResult interviewId={interview.interview_id} result={item} />
+
+              {item.follow_ups.map((followUp, index) => (
+                <div key={index} className="follow-up-result" data-testid="detail-follow-up">
+                  <div className="question-section">
+                    <div className="question-badge question-badge-follow-up">
+                      {t("question.followUp")}
+                    </div>
+                    <p className="question-text">{followUp.question}</p>
+                  </div>
+                  <AnswerResult interviewId={interview.interview_id} result={followUp} />
+                </div>
+              ))}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,1323 @@
+import { useState, useRef, useEffect, useReducer, useCallback } from "react";
+import { Link } from "react-router-dom";
+import {
+  interviewApi,
+  getErrorMessage,
+  isCancelled,
+  Difficulty,
+  InterviewApiError,
+  InterviewType,
+  QuestionSource,
+  SessionState,
+} from "@/lib/api";
+import {
+  interviewReducer,
+  initialInterviewState,
+  canSend,
+  fromSessionState,
+  toActiveQuestion,
+  ActiveQuestion,
+} from "@/lib/interview-machine";
+import {
+  DIFFICULTY_LABEL_KEYS,
+  DIFFICULTY_OPTIONS,
+  INTERVIEW_TYPE_LABEL_KEYS,
+  INTERVIEW_TYPE_OPTIONS,
+} from "@/lib/interview-types";
+import { isLocale, MessageKey, useTranslation } from "@/lib/i18n";
+import { INTERVIEW_LANGUAGE_OPTIONS } from "@/lib/transcription-options";
+import {
+  canRecordAudio,
+  openMicrophone,
+  toMicrophoneError,
+  MicrophoneErrorKind,
+} from "@/lib/microphone";
+import {
+  clearActiveInterviewId,
+  getActiveInterviewId,
+  setActiveInterviewId,
+} from "@/lib/active-interview";
+import { Progress } from "@/components/ui/progress";
+import { AnswerPreview } from "@/components/interview/answer-preview";
+import { ErrorMessage } from "@/components/interview/error-message";
+import { ResumeBanner } from "@/components/interview/resume-banner";
+import { JobContextFields } from "@/components/interview/job-context-fields";
+import { TranscriptionFields } from "@/components/interview/transcription-fields";
+import { VoiceFields } from "@/components/interview/voice-fields";
+import { QuestionSourceFields } from "@/components/interview/question-source-fields";
+import {
+  DEFAULT_TIME_LIMITS,
+  TimeLimits,
+  TimingFields,
+} from "@/components/interview/timing-fields";
+import { EvaluationCard, getScoreColor, ScoreItem } from "@/components/interview/evaluation-card";
+import { DeliveryPanel } from "@/components/interview/delivery-panel";
+import { TimingPanel } from "@/components/interview/timing-panel";
+import { HighlightedTranscript } from "@/components/interview/highlighted-transcript";
+import { ReportExport } from "@/components/interview/report-export";
+import { RecordingMonitor } from "@/components/interview/recording-monitor";
+import { TextAnswerForm } from "@/components/interview/text-answer-form";
+import { LiveAnnouncer } from "@/components/interview/live-announcer";
+import { useAnswerStream } from "@/hooks/use-answer-stream";
+import { useAudioAnalyser } from "@/hooks/use-audio-analyser";
+import { useAudioUrl } from "@/hooks/use-audio-url";
+import { useElapsedSeconds } from "@/hooks/use-elapsed-seconds";
+import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
+
+const QUESTION_COUNT_OPTIONS = [3, 5, 7, 10];
+// Hands-free mode: how long a pause after speaking ends the answer
+const SILENCE_SECONDS_OPTIONS = [1.5, 2, 3, 5];
+// Chunk size for streaming audio to the backend while recording
+const STREAM_TIMESLICE_MS = 1000;
+
+const MICROPHONE_ERROR_KEYS: Record<MicrophoneErrorKind, MessageKey> = {
+  denied: "error.microphone.denied",
+  no_device: "error.microphone.noDevice",
+  unsupported: "error.microphone.unsupported",
+  failed: "error.microphone.failed",
+};
+
+// Shown in the shortcut help, in this order; keys are matched lower-cased
+const SHORTCUTS: { key: string; labelKey: MessageKey }[] = [
+  { key: "R", labelKey: "shortcuts.record" },
+  { key: "S", labelKey: "shortcuts.submit" },
+  { key: "T", labelKey: "shortcuts.type" },
+  { key: "P", labelKey: "shortcuts.replay" },
+  { key: "N", labelKey: "shortcuts.next" },
+  { key: "A", labelKey: "shortcuts.retry" },
+  { key: "E", labelKey: "shortcuts.end" },
+];
+
+export function InterviewPage() {
+  const { t, locale, setLocale } = useTranslation();
+  const [state, dispatch] = useReducer(interviewReducer, initialInterviewState);
+  const [error, setError] = useState("");
+  const [role, setRole] = useState("Software Engineer");
+  const [questionCount, setQuestionCount] = useState(3);
+  const [difficulty, setDifficulty] = useState<Difficulty>("medium");
+  const [interviewType, setInterviewType] = useState<InterviewType>("mixed");
+  const [questionSource, setQuestionSource] = useState<QuestionSource>("llm");
+  const [questionSet, setQuestionSet] = useState("");
+  const [prepSeconds, setPrepSeconds] = useState(0);
+  const [timeLimits, setTimeLimits] = useState<TimeLimits>(DEFAULT_TIME_LIMITS);
+  const [followUps, setFollowUps] = useState(true);
+  const [handsFree, setHandsFree] = useState(false);
+  const [silenceSeconds, setSilenceSeconds] = useState(2);
+  const [jobDescription, setJobDescription] = useState("");
+  const [jobDescriptionFile, setJobDescriptionFile] = useState<File | null>(null);
+  const [resume, setResume] = useState<File | null>(null);
+  const [language, setLanguage] = useState<string>(locale);
+  const [sttModel, setSttModel] = useState("");
+  const [voice, setVoice] = useState("");
+  const [speechRate, setSpeechRate] = useState(1);
+  const [recordingStream, setRecordingStream] = useState<MediaStream | null>(
+    null,
+  );
+  const [resumable, setResumable] = useState<SessionState | null>(null);
+  // Without a usable microphone the typed answer is the only way to answer
+  const [recordingSupported] = useState(canRecordAudio);
+  const [answerMode, setAnswerMode] = useState<"voice" | "text">(
+    recordingSupported ? "voice" : "text",
+  );
+  const [textAnswer, setTextAnswer] = useState("");
+  const [announcement, setAnnouncement] = useState("");
+
+  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const audioChunksRef = useRef<Blob[]>([]);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
+  const answerStream = useAnswerStream();
+
+  // Cancel any in-flight request before issuing a new one
+  const beginRequest = useCallback(() => {
+    requestRef.current?.abort();
+    requestRef.current = new AbortController();
+    return requestRef.current.signal;
+  }, []);
+
+  useEffect(() => () => requestRef.current?.abort(), []);
+
+  const interviewId = state.status === "idle" ? "" : state.interviewId;
+
+  // Offer to resume an interview left behind by a reload or navigation
+  useEffect(() => {
+    const storedId = getActiveInterviewId();
+    if (!storedId) return;
+
+    const controller = new AbortController();
+    interviewApi
+      .getSessionState(storedId, { signal: controller.signal })
+      .then(setResumable)
+      .catch((err) => {
+        if (err instanceof InterviewApiError && err.kind === "session_not_found") {
+          clearActiveInterviewId();
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  // Keep the stored ID in sync with the interview on screen
+  useEffect(() => {
+    if (state.status === "summarized") {
+      clearActiveInterviewId();
+    } else if (interviewId) {
+      setActiveInterviewId(interviewId);
+    }
+  }, [state.status, interviewId]);
+
+  const handleResume = () => {
+    if (!resumable) return;
+    dispatch({ type: "RESTORE", state: fromSessionState(resumable) });
+    setResumable(null);
+    setError("");
+  };
+
+  // The interface follows the interview language when it is translated
+  const handleLanguageChange = (value: string) => {
+    setLanguage(value);
+    setVoice("");
+    if (isLocale(value)) setLocale(value);
+  };
+
+  const handleDiscard = () => {
+    clearActiveInterviewId();
+    setResumable(null);
+  };
+  const question = "question" in state ? state.question : null;
+  const askedQuestion = state.status === "asking" ? state.question : null;
+  const currentAudio = question?.audioFile || "";
+  const currentAudioUrl = useAudioUrl(interviewId, currentAudio || null);
+
+  // Start interview
+  const handleStartInterview = async () => {
+    if (!canSend(state, "START")) return;
+    dispatch({ type: "START" });
+    setResumable(null);
+    setError("");
+
+    try {
+      const response = await interviewApi.startInterview(
+        {
+          role,
+          count: questionCount,
+          difficulty,
+          interview_type: interviewType,
+          source: questionSource,
+          question_set: questionSource === "set" ? questionSet : undefined,
+          follow_ups: followUps,
+          jobDescription,
+          jobDescriptionFile: jobDescriptionFile ?? undefined,
+          resume: resume ?? undefined,
+          language,
+          stt_model: sttModel || undefined,
+          voice: voice || undefined,
+          speech_rate: speechRate,
+          prep_seconds: prepSeconds,
+          behavioral_seconds: timeLimits.behavioral,
+          technical_seconds: timeLimits.technical,
+          system_design_seconds: timeLimits.system_design,
+        },
+        { signal: beginRequest() },
+      );
+
+      dispatch({
+        type: "QUESTION_READY",
+        interviewId: response.interview_id,
+        question: toActiveQuestion(response),
+      });
+    } catch (err) {
+      dispatch({ type: "START_FAILED" });
+      if (isCancelled(err)) return;
+      setError(getErrorMessage(err, t("error.start")));
+    }
+  };
+
+  // Think time runs once the question has been read out, so it is tracked
+  // per question: a new question or a retry starts it afresh
+  const [prepQuestion, setPrepQuestion] = useState<ActiveQuestion | null>(null);
+  const beginPrepRef = useRef(() => {});
+  beginPrepRef.current = () => {
+    if (askedQuestion && askedQuestion.prepSeconds > 0) setPrepQuestion(askedQuestion);
+  };
+
+  // Play audio when the question changes
+  useEffect(() => {
+    if (currentAudioUrl && audioRef.current) {
+      audioRef.current.src = currentAudioUrl;
+      audioRef.current.play().catch((e) => {
+        console.error("Audio play error:", e);
+        // Blocked autoplay never ends, so think time starts now
+        beginPrepRef.current();
+      });
+    }
+  }, [currentAudioUrl]);
+
+  // Retries and questions without audio have nothing to wait for
+  useEffect(() => {
+    if (askedQuestion && (askedQuestion.answered || !askedQuestion.audioFile)) {
+      beginPrepRef.current();
+    }
+  }, [askedQuestion]);
+
+  const markAnswerStarted = useCallback(
+    (answered: boolean) => {
+      // Unmarked answers are stored without an answer time, so a failure
+      // here is not worth interrupting the candidate for
+      interviewApi.markAnswerStarted(interviewId, answered).catch(() => {});
+    },
+    [interviewId],
+  );
+
+  // Start recording
+  const handleStartRecording = async () => {
+    if (!canSend(state, "RECORD")) return;
+
+    try {
+      const mediaRecorder = await openMicrophone();
+      const stream = mediaRecorder.stream;
+
+      mediaRecorderRef.current = mediaRecorder;
+      audioChunksRef.current = [];
+      answerStream.open(
+        interviewApi.streamUrl(interviewId, Boolean(question?.answered)),
+      );
+
+      mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          audioChunksRef.current.push(event.data);
+          answerStream.sendChunk(event.data);
+        }
+      };
+
+      mediaRecorder.start(STREAM_TIMESLICE_MS);
+      setRecordingStream(stream);
+      dispatch({ type: "RECORD" });
+      markAnswerStarted(Boolean(question?.answered));
+      setError("");
+      setAnnouncement(t("announce.recording"));
+    } catch (err) {
+      const { kind } = toMicrophoneError(err);
+      setError(t(MICROPHONE_ERROR_KEYS[kind]));
+      // Nothing to retry when the browser or the user said no; offer typing
+      if (kind !== "failed") setAnswerMode("text");
+    }
+  };
+
+  // Stop recording and hand the take over to the preview
+  const handleStopRecording = () => {
+    const mediaRecorder = mediaRecorderRef.current;
+    if (mediaRecorder?.state === "recording" && canSend(state, "RECORDING_STOPPED")) {
+      mediaRecorder.onstop = () => {
+        const audioBlob = new Blob(audioChunksRef.current, {
+          type: mediaRecorder.mimeType || "audio/webm",
+        });
+        dispatch({ type: "RECORDING_STOPPED", recording: audioBlob });
+
+        mediaRecorder.stream.getTracks().forEach((track) => track.stop());
+      };
+
+      mediaRecorder.stop();
+      setRecordingStream(null);
+      setAnnouncement(t("announce.recorded"));
+    }
+  };
+
+  const { analyser, level, isSilent, heardSound, quietMs } =
+    useAudioAnalyser(recordingStream);
+  const elapsedSeconds = useElapsedSeconds(state.status === "recording");
+
+  // The time limit is hard for spoken answers: the take stops and is
+  // submitted as it is, without the preview
+  const stopRecordingRef = useRef(handleStopRecording);
+  stopRecordingRef.current = handleStopRecording;
+  const submitOnStopRef = useRef(false);
+  const timeLimitSeconds = question?.timeLimitSeconds ?? DEFAULT_TIME_LIMITS.technical;
+
+  useEffect(() => {
+    if (state.status === "recording" && elapsedSeconds >= timeLimitSeconds) {
+      submitOnStopRef.current = true;
+      stopRecordingRef.current();
+    }
+  }, [state.status, elapsedSeconds, timeLimitSeconds]);
+
+  // Think time counts down while the candidate may still record; at zero
+  // recording starts on its own
+  const prepping =
+    askedQuestion !== null &&
+    prepQuestion === askedQuestion &&
+    answerMode === "voice" &&
+    recordingSupported;
+  const prepElapsedSeconds = useElapsedSeconds(prepping);
+  const startRecordingRef = useRef(handleStartRecording);
+  startRecordingRef.current = handleStartRecording;
+
+  useEffect(() => {
+    if (prepping && askedQuestion && prepElapsedSeconds >= askedQuestion.prepSeconds) {
+      setPrepQuestion(null);
+      startRecordingRef.current();
+    }
+  }, [prepping, askedQuestion, prepElapsedSeconds]);
+
+  // Once the question has been read out, think time starts, or in hands-free
+  // mode recording does...
+  const handleQuestionAudioEnded = () => {
+    if (answerMode !== "voice" || state.status !== "asking") return;
+    if (state.question.prepSeconds > 0) {
+      beginPrepRef.current();
+    } else if (handsFree) {
+      handleStartRecording();
+    }
+  };
+
+  // ...and stops when the candidate has spoken and then gone quiet
+  useEffect(() => {
+    if (
+      handsFree &&
+      state.status === "recording" &&
+      heardSound &&
+      quietMs >= silenceSeconds * 1000
+    ) {
+      stopRecordingRef.current();
+    }
+  }, [handsFree, state.status, heardSound, quietMs, silenceSeconds]);
+
+  // Submit answer, replacing the stored one when retrying a question
+  const handleSubmitAnswer = async () => {
+    if (state.status !== "previewing" || !canSend(state, "SUBMIT")) return;
+    const { recording, question } = state;
+    dispatch({ type: "SUBMIT" });
+    setError("");
+
+    const submit = question.answered
+      ? interviewApi.retryAnswer
+      : interviewApi.submitAnswer;
+    const submitOverHttp = () =>
+      submit(interviewId, recording, { signal: beginRequest() });
+
+    try {
+      // Prefer the live stream; fall back to uploading the whole take
+      const streamed = answerStream.submit();
+      const response = streamed
+        ? await streamed.catch((err) =>
+            err instanceof InterviewApiError && err.kind === "network"
+              ? submitOverHttp()
+              : Promise.reject(err),
+          )
+        : await submitOverHttp();
+
+      dispatch({
+        type: "ANSWER_EVALUATED",
+        transcript: response.transcript,
+        evaluation: response.evaluation,
+        delivery: response.delivery,
+        timing: response.timing,
+      });
+    } catch (err) {
+      dispatch({ type: "ANSWER_FAILED" });
+      if (isCancelled(err)) return;
+      setError(getErrorMessage(err, t("error.submit")));
+    }
+  };
+
+  // Typed answers skip transcription but are evaluated the same way
+  const handleSubmitTextAnswer = async () => {
+    if (state.status !== "asking" || !canSend(state, "SUBMIT_TEXT")) return;
+    const { question } = state;
+    dispatch({ type: "SUBMIT_TEXT" });
+    setError("");
+
+    try {
+      const response = await interviewApi.submitTextAnswer(
+        interviewId,
+        textAnswer.trim(),
+        question.answered,
+        { signal: beginRequest() },
+      );
+      setTextAnswer("");
+      dispatch({
+        type: "ANSWER_EVALUATED",
+        transcript: response.transcript,
+        evaluation: response.evaluation,
+        delivery: response.delivery,
+        timing: response.timing,
+      });
+    } catch (err) {
+      dispatch({ type: "ANSWER_FAILED" });
+      if (isCancelled(err)) return;
+      setError(getErrorMessage(err, t("error.submit")));
+    }
+  };
+
+  // Re-run an evaluation that failed
+  const handleRetryEvaluation = async () => {
+    if (!canSend(state, "REEVALUATE")) return;
+    dispatch({ type: "REEVALUATE" });
+    setError("");
+
+    try {
+      const response = await interviewApi.reevaluateAnswer(interviewId, {
+        signal: beginRequest(),
+      });
+      dispatch({ type: "REEVALUATED", evaluation: response.evaluation });
+    } catch (err) {
+      dispatch({ type: "REEVALUATE_FAILED" });
+      if (isCancelled(err)) return;
+      setError(getErrorMessage(err, t("error.evaluate")));
+    }
+  };
+
+  // Next question
+  const handleNextQuestion = async () => {
+    if (!canSend(state, "NEXT")) return;
+    dispatch({ type: "NEXT" });
+    setError("");
+
+    try {
+      const response = await interviewApi.nextQuestion(interviewId, {
+        signal: beginRequest(),
+      });
+
+      if ("status" in response) {
+        dispatch({ type: "COMPLETED" });
+        return;
+      }
+
+      dispatch({
+        type: "QUESTION_READY",
+        interviewId,
+        question: toActiveQuestion(response),
+      });
+    } catch (err) {
+      dispatch({ type: "NEXT_FAILED" });
+      if (isCancelled(err)) return;
+      setError(getErrorMessage(err, t("error.next")));
+    }
+  };
+
+  // Hands-free mode skips the preview and the review, and a take stopped at
+  // the time limit skips the preview. Each take and each answer is handled
+  // only once, so a failed request falls back to the buttons instead of
+  // retrying in a loop.
+  const submitAnswerRef = useRef(handleSubmitAnswer);
+  submitAnswerRef.current = handleSubmitAnswer;
+  const nextQuestionRef = useRef(handleNextQuestion);
+  nextQuestionRef.current = handleNextQuestion;
+  const autoSubmittedRef = useRef<Blob | null>(null);
+  const autoAdvancedRef = useRef<ActiveQuestion | null>(null);
+
+  const previewedRecording = state.status === "previewing" ? state.recording : null;
+  const reviewedQuestion = state.status === "reviewing" ? state.question : null;
+
+  useEffect(() => {
+    if (!previewedRecording || autoSubmittedRef.current === previewedRecording) return;
+    if (handsFree || submitOnStopRef.current) {
+      submitOnStopRef.current = false;
+      autoSubmittedRef.current = previewedRecording;
+      submitAnswerRef.current();
+    }
+  }, [handsFree, previewedRecording]);
+
+  useEffect(() => {
+    if (handsFree && reviewedQuestion && autoAdvancedRef.current !== reviewedQuestion) {
+      autoAdvancedRef.current = reviewedQuestion;
+      nextQuestionRef.current();
+    }
+  }, [handsFree, reviewedQuestion]);
+
+  // Get summary
+  const fetchSummary = useCallback(async (interviewId: string) => {
+    dispatch({ type: "SUMMARY_REQUESTED" });
+    setError("");
+
+    try {
+      const signal = beginRequest();
+      // Ending early has to reach the backend too, or the interview stays in
+      // progress; it is a no-op once the last question was answered
+      await interviewApi.endInterview(interviewId, { signal });
+      const response = await interviewApi.getSummary(interviewId, { signal });
+
+      dispatch({ type: "SUMMARY_READY", summary: response });
+    } catch (err) {
+      dispatch({ type: "SUMMARY_FAILED" });
+      if (isCancelled(err)) return;
+      setError(getErrorMessage(err, t("error.summary")));
+    }
+  }, [beginRequest, t]);
+
+  // Completing the interview leads straight into the summary
+  const shouldFetchSummary =
+    state.status === "completed" && !state.pending && !state.summaryFailed;
+
+  useEffect(() => {
+    if (shouldFetchSummary) {
+      fetchSummary(interviewId);
+    }
+  }, [shouldFetchSummary, interviewId, fetchSummary]);
+
+  const isRecording = state.status === "recording";
+
+  // Typed answers are timed from when the form opens
+  const typedQuestion = answerMode === "text" ? askedQuestion : null;
+  const typingSeconds = useElapsedSeconds(typedQuestion !== null);
+
+  useEffect(() => {
+    if (typedQuestion) markAnswerStarted(typedQuestion.answered);
+  }, [typedQuestion, markAnswerStarted]);
+
+  // Screen readers hear each new question once, and the scores unless
+  // hands-free mode keeps them for the summary
+  const announcedQuestionRef = useRef<ActiveQuestion | null>(null);
+  const reviewedEvaluation = state.status === "reviewing" ? state.evaluation : null;
+
+  useEffect(() => {
+    if (!askedQuestion || announcedQuestionRef.current === askedQuestion) return;
+    announcedQuestionRef.current = askedQuestion;
+    setAnnouncement(
+      t("announce.question", {
+        label: askedQuestion.followUp
+          ? t("question.followUp")
+          : t("question.progress", {
+              current: askedQuestion.index + 1,
+              total: askedQuestion.total,
+            }),
+        text: askedQuestion.text,
+      }),
+    );
+  }, [askedQuestion, t]);
+
+  useEffect(() => {
+    if (!reviewedEvaluation || handsFree) return;
+    if (reviewedEvaluation.status !== "ok") {
+      setAnnouncement(t("evaluation.failed"));
+      return;
+    }
+    setAnnouncement(
+      t("announce.scores", {
+        overall: reviewedEvaluation.overall.toFixed(1),
+        dimensions: reviewedEvaluation.dimensions
+          .map((dimension) =>
+            t("announce.dimension", {
+              label: dimension.label,
+              score: reviewedEvaluation.scores[dimension.key] ?? "-",
+            }),
+          )
+          .join(", "),
+      }),
+    );
+  }, [reviewedEvaluation, handsFree, t]);
+
+  const replayQuestion = () => {
+    const audio = audioRef.current;
+    if (!audio?.src) return;
+    audio.currentTime = 0;
+    // A blocked replay leaves the player's own controls to start it
+    audio.play().catch(() => {});
+  };
+
+  const inInterview = state.status !== "idle" && state.status !== "summarized";
+  const canRecord = answerMode === "voice" && canSend(state, "RECORD");
+
+  useKeyboardShortcuts(
+    {
+      r: isRecording
+        ? handleStopRecording
+        : canRecord
+          ? handleStartRecording
+          : undefined,
+      s: state.status === "previewing" ? handleSubmitAnswer : undefined,
+      t:
+        state.status === "asking" && answerMode === "voice"
+          ? () => setAnswerMode("text")
+          : undefined,
+      p: question ? replayQuestion : undefined,
+      n: canSend(state, "NEXT") ? handleNextQuestion : undefined,
+      a: canSend(state, "RETRY_QUESTION")
+        ? () => dispatch({ type: "RETRY_QUESTION" })
+        : undefined,
+      e: canSend(state, "END") ? () => dispatch({ type: "END" }) : undefined,
+    },
+    inInterview,
+  );
+
+  return (
+    <>
+    <LiveAnnouncer message={announcement} />
+
+    {/* Error Display */}
+    <ErrorMessage message={error} />
+
+    {/* Summary View */}
+    {state.status === "summarized" ? (
+      <div className="summary-section fade-in" data-testid="summary-section">
+        <div className="summary-header">
+          <div className="success-badge">
+            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <circle cx="12" cy="12" r="10" fill="currentColor" opacity="0.2"/>
+              <path d="M8 12L11 15L16 9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+            </svg>
+            <span>{t("summary.complete")}</span>
+          </div>
+          <h2 className="section-title">{t("summary.title")}</h2>
+          <p className="summary-meta" data-testid="summary-interview-type">
+            {t("summary.interviewType", {
+              type: t(INTERVIEW_TYPE_LABEL_KEYS[state.summary.interview_type]),
+            })}
+          </p>
+        </div>
+        
+        <div className="summary-content">
+          <div className="summary-item">
+            <div className="summary-item-header">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M9 12L11 14L15 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
+              </svg>
+              <strong>{t("summary.overallFeedback")}</strong>
+            </div>
+            <p>{state.summary.overall_feedback}</p>
+          </div>
+          
+          <div className="summary-item">
+            <div className="summary-item-header">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M12 2L15.09 8.26L22 9.27L17 14.14L18.18 21.02L12 17.77L5.82 21.02L7 14.14L2 9.27L8.91 8.26L12 2Z" fill="currentColor"/>
+              </svg>
+              <strong>{t("summary.strengths")}</strong>
+            </div>
+            <p>{state.summary.strengths}</p>
+          </div>
+          
+          <div className="summary-item">
+            <div className="summary-item-header">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M12 2L12 22" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                <path d="M17 7L12 2L7 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+              <strong>{t("summary.improvements")}</strong>
+            </div>
+            <p>{state.summary.improvements}</p>
+          </div>
+
+          {state.summary.average_scores && (
+            <div className="summary-item" data-testid="summary-scores">
+              <div className="summary-item-header">
+                <strong>{t("summary.scores")}</strong>
+                <span
+                  className={`overall-score ${getScoreColor(state.summary.average_scores.overall)}`}
+                >
+                  {state.summary.average_scores.overall.toFixed(1)}
+                  <span className="score-max">/10</span>
+                </span>
+              </div>
+              <div className="scores">
+                {state.summary.average_scores.dimensions.map((dimension) => (
+                  <ScoreItem
+                    key={dimension.key}
+                    dimension={dimension}
+                    score={Number(dimension.score.toFixed(1))}
+                  />
+                ))}
+              </div>
+              <Link
+                to={`/history/${interviewId}`}
+                className="back-link"
+                data-testid="review-answers-link"
+              >
+                {t("summary.reviewAnswers")}
+              </Link>
+            </div>
+          )}
+
+          {state.summary.overtime.length > 0 && (
+            <div className="summary-item" data-testid="summary-overtime">
+              <div className="summary-item-header">
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <circle cx="12" cy="13" r="8" stroke="currentColor" strokeWidth="2"/>
+                  <path d="M12 9V13L14 15" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                  <path d="M9 2H15" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                </svg>
+                <strong>{t("summary.overtime")}</strong>
+              </div>
+              <ul className="overtime-list">
+                {state.summary.overtime.map((overrun, i) => (
+                  <li key={i}>
+                    {t(overrun.follow_up ? "summary.overtime.followUp" : "summary.overtime.question", {
+                      percent: overrun.overtime_percent,
+                      number: overrun.question_number,
+                    })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {state.summary.fit && (
+            <div className="summary-item" data-testid="summary-fit">
+              <div className="summary-item-header">
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <rect x="3" y="7" width="18" height="13" rx="2" stroke="currentColor" strokeWidth="2"/>
+                  <path d="M8 7V5C8 3.89543 8.89543 3 10 3H14C15.1046 3 16 3.89543 16 5V7" stroke="currentColor" strokeWidth="2"/>
+                </svg>
+                <strong>{t("summary.fit")}</strong>
+              </div>
+              <p>{state.summary.fit}</p>
+            </div>
+          )}
+        </div>
+
+        <ReportExport interviewId={interviewId} />
+
+        <button
+          className="btn btn-primary btn-large"
+          onClick={() => dispatch({ type: "RESET" })}
+          data-testid="start-new-interview-btn"
+        >
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M5 12H19" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+            <path d="M12 5L19 12L12 19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+          {t("summary.startNew")}
+        </button>
+
+        <Link
+          to="/history"
+          className="btn btn-tertiary btn-large"
+          data-testid="view-history-btn"
+        >
+          {t("summary.viewHistory")}
+        </Link>
+      </div>
+    ) : state.status === "idle" ? (
+      // Start Interview Section
+      <div className="start-section fade-in" data-testid="start-section">
+        {resumable && (
+          <ResumeBanner
+            session={resumable}
+            onResume={handleResume}
+            onDiscard={handleDiscard}
+          />
+        )}
+
+        <div className="welcome-card">
+          <div className="feature-grid">
+            <div className="feature-item">
+              <div className="feature-icon">🎤</div>
+              <h3>{t("start.feature.voice.title")}</h3>
+              <p>{t("start.feature.voice.body")}</p>
+            </div>
+            <div className="feature-item">
+              <div className="feature-icon">📊</div>
+              <h3>{t("start.feature.feedback.title")}</h3>
+              <p>{t("start.feature.feedback.body")}</p>
+            </div>
+            <div className="feature-item">
+              <div className="feature-icon">🎯</div>
+              <h3>{t("start.feature.role.title")}</h3>
+              <p>{t("start.feature.role.body")}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="input-card">
+          <div className="input-group">
+            <label htmlFor="role-input">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M20 21V19C20 17.9391 19.5786 16.9217 18.8284 16.1716C18.0783 15.4214 17.0609 15 16 15H8C6.93913 15 5.92172 15.4214 5.17157 16.1716C4.42143 16.9217 4 17.9391 4 19V21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                <circle cx="12" cy="7" r="4" stroke="currentColor" strokeWidth="2"/>
+              </svg>
+              {t("start.role.label")}
+            </label>
+            <input
+              id="role-input"
+              type="text"
+              value={role}
+              onChange={(e) => setRole(e.target.value)}
+              placeholder={t("start.role.placeholder")}
+              className="input-field"
+              data-testid="role-input"
+            />
+          </div>
+
+          <div className="input-group">
+            <label htmlFor="interview-language-select">{t("start.language.label")}</label>
+            <select
+              id="interview-language-select"
+              value={language}
+              onChange={(e) => handleLanguageChange(e.target.value)}
+              className="input-field"
+              data-testid="interview-language-select"
+            >
+              {INTERVIEW_LANGUAGE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="input-hint">{t("start.language.hint")}</p>
+          </div>
+
+          <QuestionSourceFields
+            source={questionSource}
+            onSourceChange={setQuestionSource}
+            questionSet={questionSet}
+            onQuestionSetChange={setQuestionSet}
+          />
+
+          {/* A set decides its own questions, and so their number and types */}
+          {questionSource !== "set" && (
+            <div className="input-group">
+              <label htmlFor="interview-type-select">{t("start.type.label")}</label>
+              <select
+                id="interview-type-select"
+                value={interviewType}
+                onChange={(e) => setInterviewType(e.target.value as InterviewType)}
+                className="input-field"
+                data-testid="interview-type-select"
+              >
+                {INTERVIEW_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {t(option.labelKey)}
+                  </option>
+                ))}
+              </select>
+              <p className="input-hint">
+                {t(
+                  INTERVIEW_TYPE_OPTIONS.find((option) => option.value === interviewType)
+                    ?.descriptionKey ?? "interviewType.mixed.description",
+                )}
+              </p>
+            </div>
+          )}
+
+          <div className="input-row">
+            {questionSource !== "set" && (
+              <div className="input-group">
+                <label htmlFor="question-count-select">{t("start.count.label")}</label>
+                <select
+                  id="question-count-select"
+                  value={questionCount}
+                  onChange={(e) => setQuestionCount(Number(e.target.value))}
+                  className="input-field"
+                  data-testid="question-count-select"
+                >
+                  {QUESTION_COUNT_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      {t("start.count.option", { count })}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="input-group">
+              <label htmlFor="difficulty-select">{t("start.difficulty.label")}</label>
+              <select
+                id="difficulty-select"
+                value={difficulty}
+                onChange={(e) => setDifficulty(e.target.value as Difficulty)}
+                className="input-field"
+                data-testid="difficulty-select"
+              >
+                {DIFFICULTY_OPTIONS.map((option) => (
+                  <option key={option} value={option}>
+                    {t(DIFFICULTY_LABEL_KEYS[option])}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <TimingFields
+            interviewType={questionSource === "set" ? "mixed" : interviewType}
+            prepSeconds={prepSeconds}
+            onPrepSecondsChange={setPrepSeconds}
+            timeLimits={timeLimits}
+            onTimeLimitsChange={setTimeLimits}
+          />
+
+          <VoiceFields
+            language={language}
+            voice={voice}
+            onVoiceChange={setVoice}
+            speechRate={speechRate}
+            onSpeechRateChange={setSpeechRate}
+          />
+
+          <JobContextFields
+            jobDescription={jobDescription}
+            onJobDescriptionChange={setJobDescription}
+            jobDescriptionFile={jobDescriptionFile}
+            onJobDescriptionFileChange={setJobDescriptionFile}
+            onResumeChange={setResume}
+          />
+
+          <TranscriptionFields
+            sttModel={sttModel}
+            onSttModelChange={setSttModel}
+          />
+
+          <label className="checkbox-field">
+            <input
+              type="checkbox"
+              checked={followUps}
+              onChange={(e) => setFollowUps(e.target.checked)}
+              data-testid="follow-ups-checkbox"
+            />
+            {t("start.followUps")}
+          </label>
+
+          <label className="checkbox-field">
+            <input
+              type="checkbox"
+              checked={handsFree}
+              onChange={(e) => setHandsFree(e.target.checked)}
+              data-testid="hands-free-checkbox"
+            />
+            {t("start.handsFree")}
+          </label>
+
+          {handsFree && (
+            <div className="input-group">
+              <label htmlFor="silence-select">{t("start.silence.label")}</label>
+              <select
+                id="silence-select"
+                value={silenceSeconds}
+                onChange={(e) => setSilenceSeconds(Number(e.target.value))}
+                className="input-field"
+                data-testid="silence-select"
+              >
+                {SILENCE_SECONDS_OPTIONS.map((seconds) => (
+                  <option key={seconds} value={seconds}>
+                    {t("start.silence.option", { seconds: seconds.toLocaleString(locale) })}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          
+          <button
+            className="btn btn-primary btn-large"
+            onClick={handleStartInterview}
+            disabled={state.pending || !role.trim() || (questionSource === "set" && !questionSet)}
+            data-testid="start-interview-btn"
+          >
+            {state.pending ? (
+              <>
+                <span className="spinner"></span>
+                {t("start.submitting")}
+              </>
+            ) : (
+              <>
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M5 3L19 12L5 21V3Z" fill="currentColor"/>
+                </svg>
+                {t("start.submit")}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    ) : state.status === "completed" ? (
+      // Interview finished, waiting for the summary
+      <div className="completed-section fade-in" data-testid="completed-section">
+        <div className="success-badge">
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <circle cx="12" cy="12" r="10" fill="currentColor" opacity="0.2"/>
+            <path d="M8 12L11 15L16 9" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+          </svg>
+          <span>{t("completed.allAnswered")}</span>
+        </div>
+        {state.summaryFailed ? (
+          <button
+            className="btn btn-primary btn-large"
+            onClick={() => fetchSummary(interviewId)}
+            data-testid="retry-summary-btn"
+          >
+            {t("completed.retrySummary")}
+          </button>
+        ) : (
+          <p className="completed-text">
+            <span className="spinner"></span>
+            {t("completed.preparing")}
+          </p>
+        )}
+      </div>
+    ) : (
+      // Interview In Progress
+      <div className="interview-section fade-in" data-testid="interview-section">
+        {/* Question Display */}
+        <div className="question-section slide-in" data-testid="question-section">
+          <div className="question-header">
+            <div
+              className={`question-badge ${question?.followUp ? "question-badge-follow-up" : ""}`}
+              data-testid="question-badge"
+            >
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
+                <path d="M12 16V12" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                <circle cx="12" cy="8" r="1" fill="currentColor"/>
+              </svg>
+              {question?.followUp ? t("question.followUp") : t("question.question")}
+            </div>
+            {question && (
+              <span className="question-type-chip" data-testid="question-type">
+                {t(INTERVIEW_TYPE_LABEL_KEYS[question.type])}
+              </span>
+            )}
+            {question && (
+              <div className="question-progress" data-testid="question-progress">
+                <span className="question-progress-label">
+                  {t("question.progress", {
+                    current: question.index + 1,
+                    total: question.total,
+                  })}
+                </span>
+                <Progress
+                  className="progress-track"
+                  value={((question.index + 1) / question.total) * 100}
+                />
+              </div>
+            )}
+          </div>
+          
+          <p className="question-text" data-testid="question-text">
+            {question?.text}
+          </p>
+
+          <audio
+            ref={audioRef}
+            controls
+            onEnded={handleQuestionAudioEnded}
+            className="audio-player"
+            data-testid="audio-player"
+          />
+        </div>
+
+        {/* Recording Controls */}
+        <div className="controls-section" data-testid="controls-section">
+          {/* A typed answer stays on screen, locked, while it is evaluated */}
+          {answerMode === "text" &&
+          (state.status === "asking" ||
+            (state.status === "evaluating" && state.recording === null)) ? (
+            <TextAnswerForm
+              value={textAnswer}
+              onChange={setTextAnswer}
+              replacesAnswer={state.question.answered}
+              elapsedSeconds={typingSeconds}
+              limitSeconds={state.question.timeLimitSeconds}
+              submitting={state.status === "evaluating"}
+              onSubmit={handleSubmitTextAnswer}
+              onCancel={recordingSupported ? () => setAnswerMode("voice") : undefined}
+            />
+          ) : state.status === "previewing" ? (
+            <AnswerPreview
+              recording={state.recording}
+              replacesAnswer={state.question.answered}
+              onSubmit={handleSubmitAnswer}
+              onRerecord={handleStartRecording}
+            />
+          ) : !isRecording ? (
+            <button
+              className="btn btn-record btn-large"
+              onClick={handleStartRecording}
+              disabled={!canRecord}
+              aria-keyshortcuts="R"
+              data-testid="start-recording-btn"
+            >
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <circle cx="12" cy="10" r="3" stroke="currentColor" strokeWidth="2"/>
+                <path d="M12 2V7" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                <path d="M19 10C19 13.866 15.866 17 12 17C8.13401 17 5 13.866 5 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                <path d="M12 17V22" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                <path d="M8 22H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+              </svg>
+              {t("recording.start")}
+            </button>
+          ) : (
+            <button
+              className="btn btn-stop btn-large recording-pulse"
+              onClick={handleStopRecording}
+              aria-keyshortcuts="R"
+              data-testid="stop-recording-btn"
+            >
+              <div className="recording-dot"></div>
+              <span className="recording-text">{t("recording.stop")}</span>
+            </button>
+          )}
+          {state.status === "asking" && answerMode === "voice" && (
+            <button
+              className="btn btn-tertiary"
+              onClick={() => setAnswerMode("text")}
+              aria-keyshortcuts="T"
+              data-testid="type-answer-btn"
+            >
+              {t("textAnswer.open")}
+            </button>
+          )}
+          {prepping && askedQuestion && (
+            <p className="prep-countdown" role="timer" data-testid="prep-countdown">
+              {t("timing.prep.countdown", {
+                seconds: Math.max(0, askedQuestion.prepSeconds - prepElapsedSeconds),
+              })}
+            </p>
+          )}
+          {handsFree &&
+            answerMode === "voice" &&
+            !prepping &&
+            (state.status === "asking" || isRecording) && (
+              <p className="input-hint" data-testid="hands-free-hint">
+                {isRecording
+                  ? t("handsFree.listening", {
+                      seconds: silenceSeconds.toLocaleString(locale),
+                    })
+                  : t("handsFree.waiting")}
+              </p>
+            )}
+          {isRecording && (
+            <RecordingMonitor
+              analyser={analyser}
+              level={level}
+              isSilent={isSilent}
+              elapsedSeconds={elapsedSeconds}
+              maxSeconds={timeLimitSeconds}
+            />
+          )}
+          {(state.status === "recording" || state.status === "evaluating") &&
+            answerStream.liveTranscript && (
+              <p className="live-transcript" data-testid="live-transcript">
+                {answerStream.liveTranscript}
+              </p>
+            )}
+          {state.status === "evaluating" && (
+            <p className="evaluating-text" data-testid="evaluating-text">
+              <span className="spinner"></span>
+              {handsFree ? t("handsFree.saving") : t("recording.evaluating")}
+            </p>
+          )}
+          {state.status === "evaluating" && !handsFree && answerStream.feedbackDraft && (
+            <p className="feedback-draft" data-testid="feedback-draft">
+              {answerStream.feedbackDraft}
+            </p>
+          )}
+        </div>
+
+        {/* Transcript and Evaluation */}
+        {state.status === "reviewing" && (
+          <div className="result-section fade-in" data-testid="result-section">
+            {/* Hands-free mode keeps scores for the summary */}
+            {handsFree ? (
+              state.pending && (
+                <p className="evaluating-text" data-testid="advancing-text">
+                  <span className="spinner"></span>
+                  {t("handsFree.advancing")}
+                </p>
+              )
+            ) : (
+              <>
+                <div className="transcript-box" data-testid="transcript-box">
+                  <div className="box-header">
+                    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M21 15C21 15.5304 20.7893 16.0391 20.4142 16.4142C20.0391 16.7893 19.5304 17 19 17H7L3 21V5C3 4.46957 3.21071 3.96086 3.58579 3.58579C3.96086 3.21071 4.46957 3 5 3H19C19.5304 3 20.0391 3.21071 20.4142 3.58579C20.7893 3.96086 21 4.46957 21 5V15Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                    <h3 className="subsection-title">{t("answer.title")}</h3>
+                  </div>
+                  <HighlightedTranscript
+                    transcript={state.transcript}
+                    delivery={state.delivery}
+                  />
+                  {state.delivery && <DeliveryPanel delivery={state.delivery} />}
+                  {state.timing && <TimingPanel timing={state.timing} />}
+                </div>
+
+                <EvaluationCard
+                  evaluation={state.evaluation}
+                  onRetry={handleRetryEvaluation}
+                  retrying={state.pending}
+                />
+              </>
+            )}
+
+            {/* Action Buttons */}
+            <div className="action-buttons" data-testid="action-buttons">
+              <button
+                className="btn btn-secondary btn-large"
+                onClick={handleNextQuestion}
+                disabled={!canSend(state, "NEXT")}
+                aria-keyshortcuts="N"
+                data-testid="next-question-btn"
+              >
+                {state.pending ? (
+                  <>
+                    <span className="spinner"></span>
+                    {t("actions.loading")}
+                  </>
+                ) : (
+                  <>
+                    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M13 17L18 12L13 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M6 17L11 12L6 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                    {t("actions.next")}
+                  </>
+                )}
+              </button>
+              
+              <button
+                className="btn btn-tertiary btn-large"
+                onClick={() => dispatch({ type: "RETRY_QUESTION" })}
+                disabled={!canSend(state, "RETRY_QUESTION")}
+                aria-keyshortcuts="A"
+                data-testid="retry-question-btn"
+              >
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M1 4V10H7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                  <path d="M3.51 15C4.16 16.84 5.38 18.42 7 19.5C8.62 20.58 10.54 21.1 12.48 20.98C14.42 20.86 16.27 20.11 17.74 18.83C19.22 17.56 20.24 15.84 20.66 13.94C21.08 12.04 20.87 10.05 20.06 8.27C19.26 6.5 17.9 5.03 16.2 4.08C14.5 3.13 12.54 2.76 10.61 3.01C8.68 3.27 6.89 4.14 5.5 5.5L1 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+                {t("actions.tryAgain")}
+              </button>
+
+              <button
+                className="btn btn-tertiary btn-large"
+                onClick={() => dispatch({ type: "END" })}
+                disabled={!canSend(state, "END")}
+                aria-keyshortcuts="E"
+                data-testid="get-summary-btn"
+              >
+                {state.pending ? (
+                  <>
+                    <span className="spinner"></span>
+                    {t("actions.loading")}
+                  </>
+                ) : (
+                  <>
+                    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M9 11L12 14L22 4" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M21 12V19C21 19.5304 20.7893 20.0391 20.4142 20.4142C20.0391 20.7893 19.5304 21 19 21H5C4.46957 21 3.96086 20.7893 3.58579 20.4142C3.21071 20.0391 3 19.5304 3 19V5C3 4.46957 3.21071 3.96086 3.58579 3.58579C3.96086 3.21071 4.46957 3 5 3H16" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                    {t("actions.end")}
+                  </>
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <details className="shortcut-help" data-testid="shortcut-help">
+          <summary>{t("shortcuts.title")}</summary>
+          <dl>
+            {SHORTCUTS.map(({ key, labelKey }) => (
+              <div key={key} className="shortcut-row">
+                <dt>
+                  <kbd>{key}</kbd>
+                </dt>
+                <dd>{t(labelKey)}</dd>
+              </div>
+            ))}
+          </dl>
+        </details>
+      </div>
+    )}
+    </>
+  );
+}
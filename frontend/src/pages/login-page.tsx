@@ -0,0 +1,134 @@
+import { FormEvent, useState } from "react";
+
+import { authApi, getErrorMessage, InterviewApiError, isCancelled } from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { useTranslation } from "@/lib/i18n";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { ErrorMessage } from "@/components/interview/error-message";
+
+type Mode = "login" | "register";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export function LoginPage() {
+  const { t } = useTranslation();
+  const { signIn } = useAuth();
+  const { data: options } = useApiQuery("auth-options", (signal) =>
+    authApi.getOptions({ signal }),
+  );
+  const [mode, setMode] = useState<Mode>("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const registering = mode === "register" && options?.registration !== false;
+
+  const run = async (attempt: () => ReturnType<typeof authApi.login>) => {
+    setSubmitting(true);
+    setError("");
+    try {
+      signIn(await attempt());
+    } catch (err) {
+      if (isCancelled(err)) return;
+      setError(
+        err instanceof InterviewApiError && err.kind === "unauthorized"
+          ? t("auth.error.invalid")
+          : getErrorMessage(err, t(registering ? "auth.error.register" : "auth.error.login")),
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const credentials = { email: email.trim(), password };
+    run(() => (registering ? authApi.register(credentials) : authApi.login(credentials)));
+  };
+
+  return (
+    <div className="start-section fade-in" data-testid="login-page">
+      <form className="input-card auth-form" onSubmit={handleSubmit}>
+        <h2 className="section-title">
+          {registering ? t("auth.register.title") : t("auth.login.title")}
+        </h2>
+
+        <div className="input-group">
+          <label htmlFor="email-input">{t("auth.email")}</label>
+          <input
+            id="email-input"
+            type="email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="input-field"
+            required
+            data-testid="email-input"
+          />
+        </div>
+
+        <div className="input-group">
+          <label htmlFor="password-input">{t("auth.password")}</label>
+          <input
+            id="password-input"
+            type="password"
+            autoComplete={registering ? "new-password" : "current-password"}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="input-field"
+            minLength={registering ? MIN_PASSWORD_LENGTH : undefined}
+            required
+            data-testid="password-input"
+          />
+          {registering && (
+            <p className="input-hint">
+              {t("auth.passwordHint", { count: MIN_PASSWORD_LENGTH })}
+            </p>
+          )}
+        </div>
+
+        <ErrorMessage message={error} />
+
+        <button
+          type="submit"
+          className="btn btn-primary btn-large"
+          disabled={submitting}
+          data-testid="auth-submit"
+        >
+          {submitting
+            ? t("actions.loading")
+            : registering
+              ? t("auth.register.submit")
+              : t("auth.login.submit")}
+        </button>
+
+        {options?.registration && (
+          <button
+            type="button"
+            className="btn btn-tertiary"
+            onClick={() => {
+              setMode(registering ? "login" : "register");
+              setError("");
+            }}
+            data-testid="auth-mode-toggle"
+          >
+            {registering ? t("auth.login.switch") : t("auth.register.switch")}
+          </button>
+        )}
+
+        {options?.dev_login && (
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => run(() => authApi.devLogin())}
+            disabled={submitting}
+            data-testid="dev-login"
+          >
+            {t("auth.devLogin")}
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import { FormEvent, useState } from "react";
+
+import {
+  bankApi,
+  getErrorMessage,
+  BankQuestion,
+  BankQuestionFilters,
+  BankQuestionInput,
+  Difficulty,
+  QuestionType,
+} from "@/lib/api";
+import { useAuth } from "@/lib/auth";
+import { useTranslation } from "@/lib/i18n";
+import {
+  DIFFICULTY_LABEL_KEYS,
+  DIFFICULTY_OPTIONS,
+  INTERVIEW_TYPE_LABEL_KEYS,
+  QUESTION_TYPES,
+} from "@/lib/interview-types";
+import { useApiQuery } from "@/hooks/use-api-query";
+import { ErrorMessage } from "@/components/interview/error-message";
+import { BankQuestionForm } from "@/components/bank/bank-question-form";
+import { BankTransfer } from "@/components/bank/bank-transfer";
+import { QuestionSetsPanel } from "@/components/bank/question-sets-panel";
+
+const EMPTY_FILTERS: BankQuestionFilters = {};
+
+/**
+ * Admin screen for the shared question bank: curated questions with
+ * reference answers, the named sets built from them, and import/export.
+ */
+export function QuestionBankPage() {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const isAdmin = user?.is_admin ?? false;
+
+  // Filters being typed, and the ones the list was last loaded with
+  const [draftFilters, setDraftFilters] = useState<BankQuestionFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<BankQuestionFilters>(EMPTY_FILTERS);
+  // The question being edited, "new" while adding one
+  const [editing, setEditing] = useState<BankQuestion | "new" | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const questions = useApiQuery(
+    isAdmin ? `bank-questions:${JSON.stringify(filters)}` : null,
+    (signal) => bankApi.listQuestions(filters, { signal }),
+    t("error.bank"),
+  );
+  const sets = useApiQuery(
+    isAdmin ? "bank-sets" : null,
+    (signal) => bankApi.listSets({ signal }),
+    t("error.questionSets"),
+  );
+
+  if (!isAdmin) {
+    return <p className="empty-text">{t("bank.adminOnly")}</p>;
+  }
+
+  const reloadAll = () => {
+    questions.reload();
+    sets.reload();
+  };
+
+  const updateDraft = (changes: BankQuestionFilters) =>
+    setDraftFilters((current) => ({ ...current, ...changes }));
+
+  const handleFilter = (e: FormEvent) => {
+    e.preventDefault();
+    // Blank fields are dropped rather than sent as empty filters
+    setFilters(
+      Object.fromEntries(
+        Object.entries(draftFilters).filter(([, value]) => value && value.trim()),
+      ),
+    );
+  };
+
+  const handleSave = async (input: BankQuestionInput) => {
+    setSaving(true);
+    setError("");
+    try {
+      if (editing === "new" || editing === null) {
+        await bankApi.createQuestion(input);
+      } else {
+        await bankApi.updateQuestion(editing.id, input);
+      }
+      setEditing(null);
+      // New set memberships change the sets' question counts too
+      reloadAll();
+    } catch (err) {
+      setError(getErrorMessage(err, t("error.saveQuestion")));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (question: BankQuestion) => {
+    if (!window.confirm(t("bank.confirmDelete"))) return;
+    setError("");
+    try {
+      await bankApi.deleteQuestion(question.id);
+      if (editing !== "new" && editing?.id === question.id) setEditing(null);
+      reloadAll();
+    } catch (err) {
+      setError(getErrorMessage(err, t("error.deleteQuestion")));
+    }
+  };
+
+  return (
+    <div className="history-section fade-in" data-testid="question-bank-page">
+      <ErrorMessage message={questions.error || sets.error || error} />
+
+      <div className="history-panel">
+        <h2 className="section-title">{t("bank.title")}</h2>
+        <p className="input-hint">{t("bank.hint")}</p>
+
+        <form className="bank-filters" onSubmit={handleFilter} data-testid="bank-filters">
+          <input
+            type="search"
+            value={draftFilters.search ?? ""}
+            onChange={(e) => updateDraft({ search: e.target.value })}
+            placeholder={t("bank.filter.search")}
+            aria-label={t("bank.filter.search")}
+            className="input-field"
+            data-testid="bank-search-input"
+          />
+          <input
+            type="text"
+            value={draftFilters.role ?? ""}
+            onChange={(e) => updateDraft({ role: e.target.value })}
+            placeholder={t("bank.form.role")}
+            aria-label={t("bank.form.role")}
+            className="input-field"
+          />
+          <input
+            type="text"
+            value={draftFilters.topic ?? ""}
+            onChange={(e) => updateDraft({ topic: e.target.value })}
+            placeholder={t("bank.form.topic")}
+            aria-label={t("bank.form.topic")}
+            className="input-field"
+          />
+          <input
+            type="text"
+            value={draftFilters.tag ?? ""}
+            onChange={(e) => updateDraft({ tag: e.target.value })}
+            placeholder={t("bank.filter.tag")}
+            aria-label={t("bank.filter.tag")}
+            className="input-field"
+          />
+          <select
+            value={draftFilters.question_type ?? ""}
+            onChange={(e) =>
+              updateDraft({ question_type: (e.target.value || undefined) as QuestionType | undefined })
+            }
+            aria-label={t("start.type.label")}
+            className="input-field"
+          >
+            <option value="">{t("bank.filter.anyType")}</option>
+            {QUESTION_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t(INTERVIEW_TYPE_LABEL_KEYS[type])}
+              </option>
+            ))}
+          </select>
+          <select
+            value={draftFilters.difficulty ?? ""}
+            onChange={(e) =>
+              updateDraft({ difficulty: (e.target.value || undefined) as Difficulty | undefined })
+            }
+            aria-label={t("start.difficulty.label")}
+            className="input-field"
+          >
+            <option value="">{t("bank.filter.anyDifficulty")}</option>
+            {DIFFICULTY_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t(DIFFICULTY_LABEL_KEYS[option])}
+              </option>
+            ))}
+          </select>
+          <button type="submit" className="btn btn-secondary" data-testid="bank-filter-btn">
+            {t("bank.filter.apply")}
+          </button>
+        </form>
+
+        {editing ? (
+          <BankQuestionForm
+            key={editing === "new" ? "new" : editing.id}
+            question={editing === "new" ? undefined : editing}
+            sets={sets.data ?? []}
+            saving={saving}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={() => setEditing("new")}
+            data-testid="bank-add-btn"
+          >
+            {t("bank.add")}
+          </button>
+        )}
+
+        {questions.loading && (
+          <p className="completed-text">
+            <span className="spinner"></span>
+            {t("bank.loading")}
+          </p>
+        )}
+        {questions.data && questions.data.length === 0 && (
+          <p className="empty-text">{t("bank.empty")}</p>
+        )}
+        <ul className="history-list" data-testid="bank-question-list">
+          {questions.data?.map((question) => (
+            <li key={question.id} className="bank-item" data-testid="bank-question">
+              <div>
+                <strong>{question.text}</strong>
+                <span className="history-meta">
+                  {t(INTERVIEW_TYPE_LABEL_KEYS[question.question_type])}
+                  {" · "}
+                  {t(DIFFICULTY_LABEL_KEYS[question.difficulty])}
+                  {" · "}
+                  {question.role ?? t("bank.anyRole")}
+                  {question.topic && ` · ${question.topic}`}
+                  {question.tags.length > 0 && ` · #${question.tags.join(" #")}`}
+                </span>
+                {question.sets.length > 0 && (
+                  <span className="history-meta">
+                    {t("bank.inSets", { sets: question.sets.join(", ") })}
+                  </span>
+                )}
+                {!question.reference_answer && (
+                  <span className="bank-no-reference">{t("bank.noReference")}</span>
+                )}
+              </div>
+              <div className="bank-item-actions">
+                <button
+                  type="button"
+                  className="btn btn-tertiary"
+                  onClick={() => setEditing(question)}
+                >
+                  {t("bank.edit")}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-tertiary"
+                  onClick={() => handleDelete(question)}
+                >
+                  {t("bank.delete")}
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <QuestionSetsPanel sets={sets.data ?? []} onChange={reloadAll} />
+
+      <BankTransfer onImported={reloadAll} />
+    </div>
+  );
+}